@@ -0,0 +1,86 @@
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+  Spinner,
+} from "@my-library-app/ui"
+import { BookmarkPlusIcon } from "lucide-react"
+import { useState } from "react"
+
+import type { Volume } from "@/services/book-service"
+
+import { useAddToShelf, useBookShelfIds, useRemoveFromShelf, useShelves } from "@/hooks/library"
+import { isStatusShelfKind, type Shelf } from "@/services/library-service"
+
+type AddToShelfMenuProps = {
+  readonly book: Volume
+  readonly className?: string
+}
+
+/**
+ * Dropdown menu for adding a book to (or removing it from) the user's shelves
+ *
+ * Shelves are only fetched once the menu is opened
+ */
+export const AddToShelfMenu = ({ book, className }: AddToShelfMenuProps) => {
+  const [open, setOpen] = useState(false)
+  const { shelves, isLoading: isShelvesLoading } = useShelves({ enabled: open })
+  const { shelfIds, isLoading: isShelfIdsLoading } = useBookShelfIds({ bookId: book.id, enabled: open })
+  const { addToShelf } = useAddToShelf()
+  const { removeFromShelf } = useRemoveFromShelf()
+
+  const statusShelves = shelves.filter((shelf) => isStatusShelfKind(shelf.kind))
+  const customShelves = shelves.filter((shelf) => !isStatusShelfKind(shelf.kind))
+
+  const handleCheckedChange = (shelf: Shelf, checked: boolean): void => {
+    if (checked) {
+      addToShelf({ shelf, volume: book })
+    } else {
+      removeFromShelf({ shelfId: shelf.id, bookId: book.id })
+    }
+  }
+
+  const renderShelfItem = (shelf: Shelf) => (
+    <DropdownMenuCheckboxItem
+      key={shelf.id}
+      checked={shelfIds.includes(shelf.id)}
+      onCheckedChange={(checked) => handleCheckedChange(shelf, checked)}
+    >
+      {shelf.name}
+    </DropdownMenuCheckboxItem>
+  )
+
+  return (
+    // Keep clicks inside the menu from reaching the card (React events bubble through portals)
+    <div className={className} onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+      <DropdownMenu open={open} onOpenChange={setOpen}>
+        <DropdownMenuTrigger render={<Button variant="secondary" size="icon-sm" aria-label="Add to shelf" />}>
+          <BookmarkPlusIcon />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48">
+          <DropdownMenuGroup>
+            <DropdownMenuLabel>Add to shelf</DropdownMenuLabel>
+            {isShelvesLoading || isShelfIdsLoading ? (
+              <div className="flex justify-center py-2">
+                <Spinner className="size-4" />
+              </div>
+            ) : (
+              statusShelves.map(renderShelfItem)
+            )}
+          </DropdownMenuGroup>
+          {customShelves.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuGroup>{customShelves.map(renderShelfItem)}</DropdownMenuGroup>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
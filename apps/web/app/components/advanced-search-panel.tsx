@@ -0,0 +1,124 @@
+import { searchBookLanguageOptionsSchema, type SearchBookLanguage } from "@my-library-app/schemas"
+import { Button, Field, FieldGroup, FieldLabel, Input, NativeSelect, NativeSelectOption } from "@my-library-app/ui"
+
+import type { AdvancedSearchDraft, AdvancedSearchParam } from "@/hooks/use-advanced-search-params"
+
+type AdvancedSearchPanelProps = {
+  readonly value: AdvancedSearchDraft
+  readonly onChange: (value: AdvancedSearchDraft) => void
+  readonly onClear: () => void
+}
+
+/**
+ * Text criteria with their labels and placeholders, in display order
+ */
+const TEXT_FIELDS: readonly { param: AdvancedSearchParam; label: string; placeholder: string }[] = [
+  { param: "title", label: "Title", placeholder: "lord rings" },
+  { param: "author", label: "Author", placeholder: "tolkien" },
+  { param: "subject", label: "Subject", placeholder: 'fantasy -"short stories"' },
+  { param: "place", label: "Place", placeholder: "Middle-earth" },
+  { param: "person", label: "Person", placeholder: "Gandalf" },
+  { param: "publisher", label: "Publisher", placeholder: "Allen OR Unwin" },
+]
+
+/**
+ * Labels of the languages books can be filtered by
+ */
+export const LANGUAGE_LABELS: Readonly<Record<SearchBookLanguage, string>> = {
+  eng: "English",
+  spa: "Spanish",
+  cat: "Catalan",
+  mul: "Multiple languages",
+}
+
+/**
+ * Form fields for the advanced search criteria
+ *
+ * Text fields accept quoted phrases, `OR` between words and a leading `-` to exclude a word.
+ * The panel is controlled: criteria are only applied when the surrounding search form is submitted.
+ */
+export const AdvancedSearchPanel = ({ value, onChange, onClear }: AdvancedSearchPanelProps) => {
+  const setCriterion = (param: AdvancedSearchParam, criterion: string): void => {
+    onChange({ ...value, [param]: criterion })
+  }
+
+  return (
+    <FieldGroup className="bg-muted/40 gap-4 rounded-md border p-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {TEXT_FIELDS.map(({ param, label, placeholder }) => (
+          <Field key={param}>
+            <FieldLabel htmlFor={`advanced-${param}`}>{label}</FieldLabel>
+            <Input
+              id={`advanced-${param}`}
+              placeholder={placeholder}
+              value={value[param] ?? ""}
+              onChange={(e) => setCriterion(param, e.target.value)}
+            />
+          </Field>
+        ))}
+
+        <Field>
+          <FieldLabel htmlFor="advanced-language">Only in language</FieldLabel>
+          <NativeSelect
+            id="advanced-language"
+            className="w-full"
+            value={value.language ?? ""}
+            onChange={(e) => setCriterion("language", e.target.value)}
+          >
+            <NativeSelectOption value="">Any language</NativeSelectOption>
+            {searchBookLanguageOptionsSchema.options.map((language) => (
+              <NativeSelectOption key={language} value={language}>
+                {LANGUAGE_LABELS[language]}
+              </NativeSelectOption>
+            ))}
+          </NativeSelect>
+        </Field>
+
+        <Field>
+          <FieldLabel htmlFor="advanced-publish-year">Published in</FieldLabel>
+          <Input
+            id="advanced-publish-year"
+            type="number"
+            min={0}
+            placeholder="Any edition year"
+            value={value.publish_year ?? ""}
+            onChange={(e) => setCriterion("publish_year", e.target.value)}
+          />
+        </Field>
+
+        <Field>
+          <FieldLabel htmlFor="advanced-first-publish-year-start">First published</FieldLabel>
+          <div className="flex items-center gap-2">
+            <Input
+              id="advanced-first-publish-year-start"
+              type="number"
+              min={0}
+              placeholder="From"
+              aria-label="First published from"
+              value={value.first_publish_year_start ?? ""}
+              onChange={(e) => setCriterion("first_publish_year_start", e.target.value)}
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="number"
+              min={0}
+              placeholder="To"
+              aria-label="First published to"
+              value={value.first_publish_year_end ?? ""}
+              onChange={(e) => setCriterion("first_publish_year_end", e.target.value)}
+            />
+          </div>
+        </Field>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onClear}>
+          Clear
+        </Button>
+        <Button type="submit" size="sm">
+          Apply
+        </Button>
+      </div>
+    </FieldGroup>
+  )
+}
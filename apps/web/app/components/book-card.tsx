@@ -1,24 +1,40 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@my-library-app/ui"
+import { Fragment } from "react"
+import { Link } from "react-router"
 
-import type { Volume } from "@/services/book-service"
+import type { ReadingProgress } from "@/services/reading-service"
+
+import { getSubjectId, type Volume } from "@/services/book-service"
+
+import { AddToShelfMenu } from "./add-to-shelf-menu"
+import { ReadingProgressBar } from "./reading-progress-bar"
+import { StarRating } from "./star-rating"
 
 type BookCardProps = {
   readonly book: Volume
   readonly onClick?: (book: Volume) => void
+  /**
+   * Reading progress shown under the book, e.g. on the "Currently reading" shelf
+   */
+  readonly progress?: ReadingProgress
+  /**
+   * The user's own rating of the book, from 1 to 5 in half stars
+   */
+  readonly rating?: number
 }
 
 /**
  * Book card component displaying book information in a compact card format
  */
-export const BookCard = ({ book, onClick }: BookCardProps) => {
+export const BookCard = ({ book, onClick, progress, rating }: BookCardProps) => {
   console.log(book)
   const volumeInfo = book.volumeInfo
   const thumbnail = volumeInfo.imageLinks?.thumbnail || volumeInfo.imageLinks?.smallThumbnail
   const imageUrl = thumbnail ? thumbnail.replace("http://", "https://") : "/placeholder.png"
-  const authors = volumeInfo.authors?.join(", ") || "Unknown Author"
+  const authors = volumeInfo.authors ?? []
   const title = volumeInfo.title || "Untitled"
   const publishedDate = volumeInfo.publishedDate
-  const categories = volumeInfo.categories?.slice(0, 2).join(", ")
+  const categories = volumeInfo.categories?.slice(0, 2) ?? []
 
   const handleClick = (): void => {
     if (onClick) {
@@ -39,7 +55,7 @@ export const BookCard = ({ book, onClick }: BookCardProps) => {
         }
       }}
     >
-      <div className="bg-muted aspect-3/5 w-full overflow-hidden">
+      <div className="bg-muted relative aspect-3/5 w-full overflow-hidden">
         <img
           src={imageUrl}
           alt={title}
@@ -51,6 +67,7 @@ export const BookCard = ({ book, onClick }: BookCardProps) => {
             }
           }}
         />
+        <AddToShelfMenu book={book} className="absolute top-1 right-1" />
       </div>
       <CardHeader className="px-2 py-2">
         <CardTitle className="line-clamp-3 text-center text-xs leading-tight font-normal uppercase">
@@ -60,9 +77,51 @@ export const BookCard = ({ book, onClick }: BookCardProps) => {
       </CardHeader>
       <CardContent className="space-y-0.5 pt-0 pb-2">
         <div className="text-muted-foreground text-xs">
-          <div className="line-clamp-1 font-semibold">{authors}</div>
-          {categories && <div className="line-clamp-1 text-[10px]">{categories}</div>}
+          <div className="line-clamp-1 font-semibold">
+            {authors.length > 0
+              ? authors.map((author, index) => {
+                  const authorId = volumeInfo.authorIds?.[index]
+                  return (
+                    <Fragment key={`${author}-${authorId}`}>
+                      {index > 0 && ", "}
+                      {authorId ? (
+                        <Link
+                          to={`/authors/${authorId}`}
+                          className="hover:underline"
+                          // Open the author page rather than the book
+                          onClick={(e) => e.stopPropagation()}
+                          onKeyDown={(e) => e.stopPropagation()}
+                        >
+                          {author}
+                        </Link>
+                      ) : (
+                        author
+                      )}
+                    </Fragment>
+                  )
+                })
+              : "Unknown Author"}
+          </div>
+          {categories.length > 0 && (
+            <div className="line-clamp-1 text-[10px]">
+              {categories.map((category, index) => (
+                <Fragment key={category}>
+                  {index > 0 && ", "}
+                  <Link
+                    to={`/subjects/${encodeURIComponent(getSubjectId(category))}`}
+                    className="hover:underline"
+                    onClick={(e) => e.stopPropagation()}
+                    onKeyDown={(e) => e.stopPropagation()}
+                  >
+                    {category}
+                  </Link>
+                </Fragment>
+              ))}
+            </div>
+          )}
         </div>
+        {rating !== undefined && <StarRating value={rating} className="pt-0.5" />}
+        {progress && <ReadingProgressBar progress={progress} className="pt-1" />}
       </CardContent>
     </Card>
   )
@@ -0,0 +1,246 @@
+import {
+  Badge,
+  Button,
+  Field,
+  FieldDescription,
+  FieldLabel,
+  Input,
+  NativeSelect,
+  NativeSelectOption,
+  Spinner,
+  Textarea,
+  Typography,
+} from "@my-library-app/ui"
+import { DownloadIcon, PencilIcon, PlusIcon, Trash2Icon } from "lucide-react"
+import { useState } from "react"
+
+import { useBookNotes, useCreateNote, useDeleteNote, useUpdateNote } from "@/hooks/library"
+import {
+  type BookNote,
+  NOTE_KINDS,
+  NOTE_MAX_LENGTH,
+  type NoteKind,
+  noteService,
+  parseTags,
+} from "@/services/note-service"
+
+type BookNotesPanelProps = {
+  /**
+   * Open Library work ID of the book
+   */
+  readonly bookId: string
+  readonly bookTitle: string
+  readonly authors: readonly string[]
+}
+
+/**
+ * Values of the note form, as typed
+ */
+interface NoteDraft {
+  readonly kind: NoteKind
+  readonly content: string
+  readonly page: string
+  readonly tags: string
+}
+
+const EMPTY_DRAFT: NoteDraft = { kind: NOTE_KINDS.QUOTE, content: "", page: "", tags: "" }
+
+/**
+ * Formats an ISO timestamp for display in the user's locale
+ */
+const formatTimestamp = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+type BookNoteItemProps = {
+  readonly note: BookNote
+  readonly onEdit: () => void
+}
+
+/**
+ * A quote or note with its page, tags and timestamps
+ */
+const BookNoteItem = ({ note, onEdit }: BookNoteItemProps) => {
+  const { deleteNote, isDeleting } = useDeleteNote()
+
+  return (
+    <li className="space-y-2 border-b pb-4 last:border-b-0">
+      {note.kind === NOTE_KINDS.QUOTE ? (
+        <blockquote className="border-l-2 pl-4 text-sm leading-relaxed whitespace-pre-line italic">
+          {note.content}
+        </blockquote>
+      ) : (
+        <p className="text-sm leading-relaxed whitespace-pre-line">{note.content}</p>
+      )}
+      <div className="text-muted-foreground flex flex-wrap items-center gap-2 text-xs">
+        {note.page !== undefined && <span className="font-semibold">p. {note.page}</span>}
+        {note.tags.map((tag) => (
+          <Badge key={tag} variant="secondary">
+            #{tag}
+          </Badge>
+        ))}
+        <span title={note.updatedAt === note.createdAt ? undefined : `Edited ${formatTimestamp(note.updatedAt)}`}>
+          {formatTimestamp(note.createdAt)}
+          {note.updatedAt !== note.createdAt && " (edited)"}
+        </span>
+        <Button variant="ghost" size="icon-sm" aria-label="Edit note" onClick={onEdit}>
+          <PencilIcon />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          aria-label="Delete note"
+          disabled={isDeleting}
+          onClick={() => deleteNote(note.id)}
+        >
+          <Trash2Icon />
+        </Button>
+      </div>
+    </li>
+  )
+}
+
+/**
+ * Quotes and notes taken on a book, with a form for taking new ones and exporting them as Markdown
+ *
+ * Editing a note loads it in the same form, which saves it in place instead of taking a new note.
+ */
+export const BookNotesPanel = ({ bookId, bookTitle, authors }: BookNotesPanelProps) => {
+  const { notes, isLoading } = useBookNotes({ bookId })
+  const [draft, setDraft] = useState<NoteDraft>(EMPTY_DRAFT)
+  // Note being edited, or undefined while taking a new note
+  const [editingNoteId, setEditingNoteId] = useState<string>()
+
+  const resetForm = (): void => {
+    setDraft(EMPTY_DRAFT)
+    setEditingNoteId(undefined)
+  }
+
+  const { createNote, isCreating } = useCreateNote({ onSuccess: resetForm })
+  const { updateNote, isUpdating } = useUpdateNote({ onSuccess: resetForm })
+
+  const handleEdit = (note: BookNote): void => {
+    setDraft({
+      kind: note.kind,
+      content: note.content,
+      page: note.page?.toString() ?? "",
+      tags: note.tags.join(", "),
+    })
+    setEditingNoteId(note.id)
+  }
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+
+    const note = {
+      kind: draft.kind,
+      content: draft.content,
+      page: draft.page ? Number(draft.page) : undefined,
+      tags: parseTags(draft.tags),
+    }
+
+    if (editingNoteId) {
+      updateNote({ id: editingNoteId, ...note })
+    } else {
+      createNote({ bookId, bookTitle, ...note })
+    }
+  }
+
+  const handleExport = (): void => {
+    noteService.downloadMarkdown(
+      { title: bookTitle, authors },
+      notes,
+      `${bookTitle.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-notes`,
+    )
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-[auto_6rem_minmax(0,1fr)] gap-2">
+          <Field>
+            <FieldLabel htmlFor="note-kind">Type</FieldLabel>
+            <NativeSelect
+              id="note-kind"
+              value={draft.kind}
+              onChange={(e) => setDraft({ ...draft, kind: e.target.value as NoteKind })}
+            >
+              <NativeSelectOption value={NOTE_KINDS.QUOTE}>Quote</NativeSelectOption>
+              <NativeSelectOption value={NOTE_KINDS.NOTE}>Note</NativeSelectOption>
+            </NativeSelect>
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="note-page">Page</FieldLabel>
+            <Input
+              id="note-page"
+              type="number"
+              min={1}
+              inputMode="numeric"
+              value={draft.page}
+              onChange={(e) => setDraft({ ...draft, page: e.target.value })}
+            />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="note-tags">Tags</FieldLabel>
+            <Input
+              id="note-tags"
+              placeholder="e.g. love, chapter 3"
+              value={draft.tags}
+              onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+            />
+          </Field>
+        </div>
+        <Field>
+          <FieldLabel htmlFor="note-content">{draft.kind === NOTE_KINDS.QUOTE ? "Quote" : "Note"}</FieldLabel>
+          <Textarea
+            id="note-content"
+            rows={4}
+            maxLength={NOTE_MAX_LENGTH}
+            placeholder={draft.kind === NOTE_KINDS.QUOTE ? "Copy a passage from the book" : "What's on your mind?"}
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+          />
+          <FieldDescription>
+            Separate tags with commas. Notes are private and searchable from any page.
+          </FieldDescription>
+        </Field>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isCreating || isUpdating || !draft.content.trim()}>
+            {isCreating || isUpdating ? <Spinner className="size-4" /> : !editingNoteId && <PlusIcon />}
+            {editingNoteId ? "Save note" : "Add note"}
+          </Button>
+          {editingNoteId && (
+            <Button type="button" variant="ghost" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </form>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <Typography variant="muted">
+            {notes.length === 1 ? "1 quote or note" : `${notes.length} quotes and notes`}
+          </Typography>
+          <Button variant="outline" size="sm" disabled={notes.length === 0} onClick={handleExport}>
+            <DownloadIcon />
+            Export Markdown
+          </Button>
+        </div>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Spinner className="size-6" />
+          </div>
+        ) : notes.length > 0 ? (
+          <ul className="space-y-4">
+            {notes.map((note) => (
+              <BookNoteItem key={note.id} note={note} onEdit={() => handleEdit(note)} />
+            ))}
+          </ul>
+        ) : (
+          <Typography variant="muted">No notes yet. Save the passages you want to remember.</Typography>
+        )}
+      </div>
+    </div>
+  )
+}
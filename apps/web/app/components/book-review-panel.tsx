@@ -0,0 +1,175 @@
+import {
+  Button,
+  ButtonGroup,
+  Field,
+  FieldDescription,
+  FieldLabel,
+  Spinner,
+  Textarea,
+  Typography,
+} from "@my-library-app/ui"
+import { BoldIcon, EyeOffIcon, ItalicIcon, PencilIcon, Trash2Icon } from "lucide-react"
+import { useRef, useState } from "react"
+
+import { useBookReviews, useDeleteReview, useSaveReview } from "@/hooks/library"
+import { wrapSelection } from "@/services/review-markup"
+import { REVIEW_MAX_LENGTH } from "@/services/review-service"
+
+import { ReviewText } from "./review-text"
+import { StarRating } from "./star-rating"
+
+type BookReviewPanelProps = {
+  /**
+   * Open Library work ID of the book
+   */
+  readonly bookId: string
+}
+
+/**
+ * Formatting buttons of the review editor with the markers they wrap the selection with
+ */
+const FORMATS = [
+  { marker: "**", label: "Bold", icon: BoldIcon },
+  { marker: "*", label: "Italic", icon: ItalicIcon },
+  { marker: "||", label: "Spoiler", icon: EyeOffIcon },
+] as const
+
+/**
+ * The user's private rating and review of a book, with an editor for writing them
+ */
+export const BookReviewPanel = ({ bookId }: BookReviewPanelProps) => {
+  const { reviewsByBook, isLoading } = useBookReviews()
+  const savedReview = reviewsByBook.get(bookId)
+  const [isEditing, setIsEditing] = useState(false)
+  const [rating, setRating] = useState<number>()
+  const [text, setText] = useState("")
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const { saveReview, isSaving } = useSaveReview({ onSuccess: () => setIsEditing(false) })
+  const { deleteReview, isDeleting } = useDeleteReview()
+
+  const handleEdit = (): void => {
+    setRating(savedReview?.rating)
+    setText(savedReview?.review ?? "")
+    setIsEditing(true)
+  }
+
+  const handleFormat = (marker: string): void => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+
+    const wrapped = wrapSelection(text, textarea.selectionStart, textarea.selectionEnd, marker)
+    setText(wrapped.text)
+    // Keep the wrapped text selected once React has rendered the new value
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(wrapped.selectionStart, wrapped.selectionEnd)
+    })
+  }
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+    saveReview({ bookId, rating, review: text })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner className="size-6" />
+      </div>
+    )
+  }
+
+  if (!isEditing) {
+    if (!savedReview) {
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <Typography variant="muted">Rate and review this book. Only you can see your reviews.</Typography>
+          <Button variant="outline" size="sm" onClick={handleEdit}>
+            <PencilIcon />
+            Write a review
+          </Button>
+        </div>
+      )
+    }
+
+    return (
+      <div className="max-w-3xl space-y-2">
+        <div className="flex items-center gap-2">
+          {savedReview.rating === undefined ? (
+            <Typography variant="muted">Not rated</Typography>
+          ) : (
+            <StarRating value={savedReview.rating} className="[&>span]:size-5" />
+          )}
+          <Button variant="ghost" size="icon-sm" aria-label="Edit review" onClick={handleEdit}>
+            <PencilIcon />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            aria-label="Delete review"
+            disabled={isDeleting}
+            onClick={() => deleteReview(bookId)}
+          >
+            <Trash2Icon />
+          </Button>
+        </div>
+        {savedReview.review && <ReviewText text={savedReview.review} />}
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-3xl space-y-3">
+      <div className="flex items-center gap-2">
+        <StarRating value={rating} onValueChange={setRating} />
+        {rating !== undefined && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => setRating(undefined)}>
+            Clear rating
+          </Button>
+        )}
+      </div>
+      <Field>
+        <div className="flex items-center justify-between gap-2">
+          <FieldLabel htmlFor="book-review">Review</FieldLabel>
+          <ButtonGroup>
+            {FORMATS.map(({ marker, label, icon: Icon }) => (
+              <Button
+                key={marker}
+                type="button"
+                variant="outline"
+                size="icon-sm"
+                aria-label={label}
+                title={label}
+                onClick={() => handleFormat(marker)}
+              >
+                <Icon />
+              </Button>
+            ))}
+          </ButtonGroup>
+        </div>
+        <Textarea
+          ref={textareaRef}
+          id="book-review"
+          rows={6}
+          maxLength={REVIEW_MAX_LENGTH}
+          placeholder="What did you think?"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <FieldDescription>
+          Select text and use the buttons, or type **bold**, *italic* and ||spoiler||. Leave a blank line between
+          paragraphs.
+        </FieldDescription>
+      </Field>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isSaving || (rating === undefined && !text.trim())}>
+          {isSaving && <Spinner className="size-4" />}
+          Save review
+        </Button>
+        <Button type="button" variant="ghost" onClick={() => setIsEditing(false)}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,136 @@
+import { cn, Input, Spinner } from "@my-library-app/ui"
+import { useId, useState } from "react"
+
+import type { BookSuggestion } from "@/services/book-service"
+
+import { useBookSuggestions } from "@/hooks"
+
+type BookSuggestInputProps = {
+  readonly value: string
+  readonly onValueChange: (value: string) => void
+  readonly onSelect: (suggestion: BookSuggestion) => void
+  readonly placeholder?: string
+  readonly className?: string
+}
+
+/**
+ * Search input suggesting titles as the user types
+ *
+ * Follows the ARIA combobox pattern: arrow keys move through the suggestions, Enter picks the highlighted one (or
+ * submits the surrounding form when none is highlighted) and Escape closes the list. Render it inside a relatively
+ * positioned element, which the list is placed under.
+ */
+export const BookSuggestInput = ({ value, onValueChange, onSelect, placeholder, className }: BookSuggestInputProps) => {
+  const listboxId = useId()
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const { suggestions, isFetching } = useBookSuggestions({ text: value, enabled: isOpen })
+
+  const isExpanded = isOpen && suggestions.length > 0
+  // The list can shrink while an option is highlighted
+  const activeSuggestion = isExpanded ? suggestions[activeIndex] : undefined
+
+  const handleSelect = (suggestion: BookSuggestion): void => {
+    setIsOpen(false)
+    setActiveIndex(-1)
+    onSelect(suggestion)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        if (!isExpanded) {
+          setIsOpen(true)
+          return
+        }
+        e.preventDefault()
+        // Positions wrap around, -1 being the typed text rather than a suggestion
+        const step = e.key === "ArrowDown" ? 1 : -1
+        const positions = suggestions.length + 1
+        setActiveIndex(
+          (current) => ((Math.min(current, suggestions.length - 1) + 1 + step + positions) % positions) - 1,
+        )
+        return
+      }
+      case "Enter":
+        if (activeSuggestion) {
+          e.preventDefault()
+          handleSelect(activeSuggestion)
+        } else {
+          // Let the form submit the typed text
+          setIsOpen(false)
+        }
+        return
+      case "Escape":
+        if (isExpanded) {
+          e.preventDefault()
+          setIsOpen(false)
+        }
+        return
+    }
+  }
+
+  return (
+    <>
+      <Input
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={isExpanded}
+        aria-controls={listboxId}
+        aria-activedescendant={activeSuggestion ? `${listboxId}-${activeSuggestion.id}` : undefined}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onValueChange(e.target.value)
+          setIsOpen(true)
+          setActiveIndex(-1)
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setIsOpen(false)}
+        className={className}
+      />
+      {isFetching && isOpen && (
+        <Spinner className="text-muted-foreground absolute top-1/2 right-3 size-4 -translate-y-1/2" />
+      )}
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label="Suggested titles"
+        hidden={!isExpanded}
+        className="bg-popover text-popover-foreground absolute inset-x-0 top-full z-20 mt-1 overflow-hidden rounded-md border p-1 shadow-md"
+      >
+        {isExpanded &&
+          suggestions.map((suggestion) => (
+            <li
+              key={suggestion.id}
+              id={`${listboxId}-${suggestion.id}`}
+              role="option"
+              aria-selected={suggestion === activeSuggestion}
+              className={cn(
+                "flex cursor-default items-center gap-2 rounded-sm px-2 py-1.5 text-xs",
+                suggestion === activeSuggestion && "bg-muted",
+              )}
+              // Keep the focus in the input, which would otherwise close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(suggestions.indexOf(suggestion))}
+              onClick={() => handleSelect(suggestion)}
+            >
+              <img
+                src={suggestion.thumbnail ?? "/placeholder.png"}
+                alt=""
+                className="bg-muted aspect-3/5 w-6 shrink-0 object-cover"
+              />
+              <div className="min-w-0">
+                <div className="truncate font-medium">{suggestion.title}</div>
+                <div className="text-muted-foreground truncate text-[10px]">
+                  {suggestion.authors.join(", ") || "Unknown Author"}
+                </div>
+              </div>
+            </li>
+          ))}
+      </ul>
+    </>
+  )
+}
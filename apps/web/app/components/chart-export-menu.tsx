@@ -0,0 +1,56 @@
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@my-library-app/ui"
+import { DownloadIcon } from "lucide-react"
+
+import { toCsv } from "@/services/csv"
+import { downloadFile } from "@/services/file-download"
+
+type ChartExportMenuProps<TRow extends object> = {
+  /**
+   * Data points of the chart, whose keys are the exported columns
+   */
+  readonly rows: readonly TRow[]
+  /**
+   * Name of the downloaded file, without extension
+   */
+  readonly filename: string
+}
+
+/**
+ * Dropdown menu downloading the data of a chart as CSV or JSON
+ */
+export const ChartExportMenu = <TRow extends object>({ rows, filename }: ChartExportMenuProps<TRow>) => {
+  const handleCsvExport = (): void => {
+    const columns = Object.keys(rows[0] ?? {}) as (keyof TRow & string)[]
+    const csv = toCsv([columns, ...rows.map((row) => columns.map((column) => String(row[column] ?? "")))])
+    downloadFile(csv, `${filename}.csv`, "text/csv;charset=utf-8")
+  }
+
+  const handleJsonExport = (): void => {
+    downloadFile(`${JSON.stringify(rows, null, 2)}\n`, `${filename}.json`, "application/json")
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        render={<Button variant="ghost" size="icon-sm" aria-label="Export chart data" disabled={rows.length === 0} />}
+      >
+        <DownloadIcon />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-40">
+        <DropdownMenuGroup>
+          <DropdownMenuLabel>Export data</DropdownMenuLabel>
+          <DropdownMenuItem onClick={handleCsvExport}>CSV (spreadsheet)</DropdownMenuItem>
+          <DropdownMenuItem onClick={handleJsonExport}>JSON</DropdownMenuItem>
+        </DropdownMenuGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
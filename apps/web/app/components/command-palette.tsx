@@ -0,0 +1,263 @@
+import {
+  Button,
+  Command,
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  Kbd,
+  Spinner,
+  useTheme,
+} from "@my-library-app/ui"
+import {
+  BookIcon,
+  BookmarkPlusIcon,
+  ChartColumnIcon,
+  ClockIcon,
+  FileUpIcon,
+  LibraryIcon,
+  MonitorIcon,
+  MoonIcon,
+  NotebookPenIcon,
+  QuoteIcon,
+  SearchIcon,
+  SunIcon,
+} from "lucide-react"
+import { useEffect, useState } from "react"
+import { useNavigate, useRouteLoaderData } from "react-router"
+
+import type { clientLoader as bookDetailsLoader } from "@/routes/books.$workId"
+
+import { useBookSearch, useDebouncedValue } from "@/hooks"
+import { useAddToShelf, useNoteSearch, useShelves } from "@/hooks/library"
+import { BOOK_PROVIDERS } from "@/services/book-providers"
+import { getWorkVolume, type Volume } from "@/services/book-service"
+import { NOTE_KINDS } from "@/services/note-service"
+import { recentSearchService } from "@/services/recent-search-service"
+
+/**
+ * Delay after the last keystroke before searching books
+ */
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * Shortest query searched for books, shorter ones match too many titles to be useful
+ */
+const MIN_SEARCH_LENGTH = 2
+
+const BOOK_RESULTS_LIMIT = 5
+
+const NOTE_RESULTS_LIMIT = 5
+
+const NAVIGATION_COMMANDS = [
+  { to: "/", label: "Search", icon: SearchIcon },
+  { to: "/library", label: "My Library", icon: LibraryIcon },
+  { to: "/library/import", label: "Import library", icon: FileUpIcon },
+  { to: "/stats", label: "Reading stats", icon: ChartColumnIcon },
+  { to: "/notes", label: "Notes", icon: NotebookPenIcon },
+] as const
+
+const THEME_COMMANDS = [
+  { theme: "light", label: "Light theme", icon: SunIcon },
+  { theme: "dark", label: "Dark theme", icon: MoonIcon },
+  { theme: "system", label: "System theme", icon: MonitorIcon },
+] as const
+
+type CommandPaletteContentProps = {
+  readonly onClose: () => void
+}
+
+/**
+ * Commands of the palette, mounted only while it is open so searches and shelves are only fetched when needed
+ */
+const CommandPaletteContent = ({ onClose }: CommandPaletteContentProps) => {
+  const navigate = useNavigate()
+  const { theme, setTheme } = useTheme()
+  const [query, setQuery] = useState("")
+  const [recentSearches] = useState(() => recentSearchService.getAll())
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS)
+
+  // Book actions are offered on the book details page
+  const bookDetails = useRouteLoaderData<typeof bookDetailsLoader>("routes/books.$workId")
+  const currentBook = bookDetails && getWorkVolume(bookDetails.work, bookDetails.authors)
+  const { shelves } = useShelves({ enabled: currentBook !== undefined })
+  const { addToShelf } = useAddToShelf()
+
+  const { data, isFetching } = useBookSearch({
+    query: debouncedQuery,
+    maxResults: BOOK_RESULTS_LIMIT,
+    enabled: debouncedQuery.length >= MIN_SEARCH_LENGTH,
+  })
+  const books = debouncedQuery.length >= MIN_SEARCH_LENGTH ? (data?.items ?? []) : []
+
+  const { notes: noteResults } = useNoteSearch({
+    query: debouncedQuery,
+    maxResults: NOTE_RESULTS_LIMIT,
+    enabled: debouncedQuery.length >= MIN_SEARCH_LENGTH,
+  })
+  const notes = debouncedQuery.length >= MIN_SEARCH_LENGTH ? noteResults : []
+
+  // Books are already matched by the search, the other commands are filtered here
+  const matches = (label: string): boolean => label.toLowerCase().includes(query.trim().toLowerCase())
+  const matchingRecentSearches = recentSearches.filter(matches)
+
+  const runCommand = (command: () => void): void => {
+    onClose()
+    command()
+  }
+
+  const handleSearch = (search: string): void => {
+    runCommand(() => navigate(`/?${new URLSearchParams({ q: search }).toString()}`))
+  }
+
+  const handleBookSelect = (book: Volume): void => {
+    runCommand(() => {
+      if (book.source === BOOK_PROVIDERS.OPEN_LIBRARY) {
+        navigate(`/books/${book.id}`)
+      } else {
+        // Only Open Library works have an in-app detail page
+        window.open(book.selfLink, "_blank", "noopener,noreferrer")
+      }
+    })
+  }
+
+  return (
+    <Command shouldFilter={false} loop>
+      <CommandInput placeholder="Search books and notes or type a command..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        <CommandEmpty>{isFetching ? <Spinner className="mx-auto size-4" /> : "No results found."}</CommandEmpty>
+
+        {query.trim() && (
+          <CommandGroup heading="Books">
+            <CommandItem value={`search:${query}`} onSelect={() => handleSearch(query.trim())}>
+              <SearchIcon />
+              Search for &ldquo;{query.trim()}&rdquo;
+              {isFetching && <Spinner className="ml-auto size-3.5" />}
+            </CommandItem>
+            {books.map((book) => (
+              <CommandItem key={book.id} value={`book:${book.id}`} onSelect={() => handleBookSelect(book)}>
+                <BookIcon />
+                <span className="truncate">{book.volumeInfo.title}</span>
+                {book.volumeInfo.authors && (
+                  <span className="text-muted-foreground truncate">{book.volumeInfo.authors.join(", ")}</span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {notes.length > 0 && (
+          <CommandGroup heading="Notes">
+            {notes.map((note) => (
+              <CommandItem
+                key={note.id}
+                value={`note:${note.id}`}
+                onSelect={() => runCommand(() => navigate(`/books/${note.bookId}#notes`))}
+              >
+                {note.kind === NOTE_KINDS.QUOTE ? <QuoteIcon /> : <NotebookPenIcon />}
+                <span className="truncate">{note.content}</span>
+                <span className="text-muted-foreground shrink-0">{note.bookTitle}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingRecentSearches.length > 0 && (
+          <CommandGroup heading="Recent searches">
+            {matchingRecentSearches.map((search) => (
+              <CommandItem key={search} value={`recent:${search}`} onSelect={() => handleSearch(search)}>
+                <ClockIcon />
+                {search}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {currentBook && (
+          <CommandGroup heading="Current book">
+            {shelves
+              .filter((shelf) => matches(`Add to ${shelf.name}`))
+              .map((shelf) => (
+                <CommandItem
+                  key={shelf.id}
+                  value={`shelf:${shelf.id}`}
+                  onSelect={() => runCommand(() => addToShelf({ shelf, volume: currentBook }))}
+                >
+                  <BookmarkPlusIcon />
+                  Add &ldquo;{currentBook.volumeInfo.title}&rdquo; to {shelf.name}
+                </CommandItem>
+              ))}
+          </CommandGroup>
+        )}
+
+        {NAVIGATION_COMMANDS.some(({ label }) => matches(label)) && (
+          <CommandGroup heading="Go to">
+            {NAVIGATION_COMMANDS.filter(({ label }) => matches(label)).map(({ to, label, icon: Icon }) => (
+              <CommandItem key={to} value={`page:${to}`} onSelect={() => runCommand(() => navigate(to))}>
+                <Icon />
+                {label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {THEME_COMMANDS.some(({ label }) => matches(label)) && (
+          <CommandGroup heading="Theme">
+            {THEME_COMMANDS.filter(({ label }) => matches(label)).map(({ theme: value, label, icon: Icon }) => (
+              <CommandItem
+                key={value}
+                value={`theme:${value}`}
+                data-checked={theme === value}
+                onSelect={() => runCommand(() => setTheme(value))}
+              >
+                <Icon />
+                {label}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </Command>
+  )
+}
+
+/**
+ * Global command palette for searching books and notes, going to pages, switching theme and acting on the current book
+ *
+ * Opens from its button or with ⌘K (Ctrl+K outside macOS) anywhere in the app.
+ */
+export const CommandPalette = () => {
+  const [open, setOpen] = useState(false)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault()
+        setOpen((current) => !current)
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="text-muted-foreground" onClick={() => setOpen(true)}>
+        <SearchIcon />
+        <span className="hidden sm:inline">Search or jump to...</span>
+        <Kbd className="hidden sm:inline-flex">⌘K</Kbd>
+      </Button>
+      <CommandDialog
+        open={open}
+        onOpenChange={setOpen}
+        title="Command palette"
+        description="Search books and notes, go to a page or run a command"
+      >
+        <CommandPaletteContent onClose={() => setOpen(false)} />
+      </CommandDialog>
+    </>
+  )
+}
@@ -0,0 +1,56 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@my-library-app/ui"
+
+import type { Edition } from "@/services/book-service"
+
+type EditionTableProps = {
+  readonly editions: readonly Edition[]
+}
+
+/**
+ * Table listing the editions of a work with their publication details and identifiers
+ */
+export const EditionTable = ({ editions }: EditionTableProps) => {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-12" />
+          <TableHead>Title</TableHead>
+          <TableHead>Publisher</TableHead>
+          <TableHead>Published</TableHead>
+          <TableHead>Pages</TableHead>
+          <TableHead>Identifiers</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {editions.map((edition) => (
+          <TableRow key={edition.id}>
+            <TableCell>
+              <img
+                src={edition.imageLinks?.smallThumbnail ?? "/placeholder.png"}
+                alt={edition.title}
+                className="bg-muted aspect-3/5 w-8 object-cover"
+              />
+            </TableCell>
+            <TableCell className="max-w-64 truncate">
+              <a href={edition.selfLink} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                {edition.title}
+              </a>
+              {edition.format && <div className="text-muted-foreground text-[10px]">{edition.format}</div>}
+            </TableCell>
+            <TableCell className="max-w-48 truncate">{edition.publisher ?? "—"}</TableCell>
+            <TableCell>{edition.publishedDate}</TableCell>
+            <TableCell>{edition.pageCount ?? "—"}</TableCell>
+            <TableCell className="font-mono text-[10px]">
+              {edition.industryIdentifiers?.map((identifier) => (
+                <div key={identifier.identifier}>
+                  {identifier.type.replace("_", "-")}: {identifier.identifier}
+                </div>
+              )) ?? "—"}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
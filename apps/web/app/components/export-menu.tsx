@@ -0,0 +1,55 @@
+import {
+  Button,
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@my-library-app/ui"
+import { DownloadIcon } from "lucide-react"
+import { toast } from "sonner"
+
+import type { Volume } from "@/services/book-service"
+
+import { bookExportService, EXPORT_FORMAT_NAMES, type ExportFormat } from "@/services/book-export-service"
+
+type ExportMenuProps = {
+  readonly volumes: readonly Volume[]
+  /**
+   * Name of the downloaded file, without extension
+   */
+  readonly filename: string
+  readonly className?: string
+}
+
+/**
+ * Dropdown menu downloading a list of books as CSV, JSON, BibTeX or RIS
+ */
+export const ExportMenu = ({ volumes, filename, className }: ExportMenuProps) => {
+  const handleExport = (format: ExportFormat): void => {
+    const result = bookExportService.download(volumes, format, filename)
+    if (!result.ok) toast.error(result.error.message)
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger render={<Button variant="outline" className={className} disabled={volumes.length === 0} />}>
+        <DownloadIcon />
+        Export
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuGroup>
+          <DropdownMenuLabel>
+            Export {volumes.length} {volumes.length === 1 ? "book" : "books"}
+          </DropdownMenuLabel>
+          {(Object.keys(EXPORT_FORMAT_NAMES) as ExportFormat[]).map((format) => (
+            <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+              {EXPORT_FORMAT_NAMES[format]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
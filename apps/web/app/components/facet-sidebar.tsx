@@ -0,0 +1,203 @@
+import type { SearchBookLanguage, SearchBookYearRange } from "@my-library-app/schemas"
+
+import {
+  Button,
+  Checkbox,
+  Label,
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarSeparator,
+  Slider,
+  Spinner,
+  Typography,
+} from "@my-library-app/ui"
+import { useState } from "react"
+
+import type { FacetCount, SearchFacetFilters, SearchFacets, ValueFacet, YearRangeCount } from "@/services/search-facets"
+
+import { LANGUAGE_LABELS } from "./advanced-search-panel"
+
+type FacetSidebarProps = {
+  /**
+   * Facet counts of the search, or undefined while they are counted or when counting failed
+   */
+  readonly facets: SearchFacets | undefined
+  readonly isLoading: boolean
+  readonly filters: SearchFacetFilters
+  readonly onToggle: (facet: ValueFacet, value: string) => void
+  readonly onYearRangeChange: (range: SearchBookYearRange | undefined) => void
+  readonly onClear: () => void
+}
+
+/**
+ * Maximum number of values listed per facet
+ */
+const MAX_FACET_VALUES = 10
+
+const FACET_LABELS: Readonly<Record<ValueFacet, string>> = {
+  subjects: "Subject",
+  authors: "Author",
+  publishers: "Publisher",
+  languages: "Language",
+}
+
+/**
+ * Lists the most frequent values of a facet, keeping selected values even when they no longer appear in the results
+ */
+const getVisibleCounts = (counts: readonly FacetCount[], selected: readonly string[]): FacetCount[] => {
+  const visible = counts.slice(0, MAX_FACET_VALUES)
+  const missing = selected
+    .filter((value) => !visible.some((count) => count.value === value))
+    .map((value) => counts.find((count) => count.value === value) ?? { value, count: 0 })
+
+  return [...missing, ...visible]
+}
+
+type YearRangeFacetProps = {
+  readonly years: readonly YearRangeCount[]
+  readonly range: SearchBookYearRange | undefined
+  readonly onChange: (range: SearchBookYearRange | undefined) => void
+}
+
+/**
+ * First publish year histogram with a range slider
+ */
+const YearRangeFacet = ({ years, range, onChange }: YearRangeFacetProps) => {
+  const min = Math.min(...years.map(({ start }) => start), range?.start ?? Infinity)
+  const max = Math.max(...years.map(({ end }) => end), range?.end ?? -Infinity)
+  const [draft, setDraft] = useState<readonly number[] | undefined>(undefined)
+  const [start, end] = draft ?? [range?.start ?? min, range?.end ?? max]
+  const highestCount = Math.max(...years.map(({ count }) => count), 1)
+
+  const handleCommitted = (value: number | readonly number[]): void => {
+    setDraft(undefined)
+    if (!Array.isArray(value)) return
+
+    const [nextStart = min, nextEnd = max] = value
+    onChange(nextStart === min && nextEnd === max ? undefined : { start: nextStart, end: nextEnd })
+  }
+
+  if (!Number.isFinite(min) || min === max) {
+    return <Typography variant="muted">{Number.isFinite(min) ? min : "No publication years"}</Typography>
+  }
+
+  return (
+    <div className="space-y-2 px-2">
+      {/* Histogram of the matching results, one bar per range of years */}
+      <div className="flex h-12 items-end gap-px" aria-hidden="true">
+        {years.map((year) => (
+          <div
+            key={year.start}
+            className="bg-primary/60 data-[outside=true]:bg-muted min-w-px flex-1"
+            data-outside={year.end < (start ?? min) || year.start > (end ?? max)}
+            style={{ height: `${(year.count / highestCount) * 100}%` }}
+            title={`${year.start}–${year.end}: ${year.count}`}
+          />
+        ))}
+      </div>
+      <Slider
+        min={min}
+        max={max}
+        value={[start ?? min, end ?? max]}
+        onValueChange={(value) => Array.isArray(value) && setDraft(value)}
+        onValueCommitted={handleCommitted}
+        aria-label="First publish year"
+      />
+      <div className="text-muted-foreground flex justify-between text-xs">
+        <span>{start}</span>
+        <span>{end}</span>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Collapsible sidebar listing the facet counts of a search
+ *
+ * Checking values narrows the search; values of a facet are alternatives, while facets must all match. Counts cover
+ * every matching result, for the most frequent values among the top results and the selected ones.
+ */
+export const FacetSidebar = ({
+  facets,
+  isLoading,
+  filters,
+  onToggle,
+  onYearRangeChange,
+  onClear,
+}: FacetSidebarProps) => {
+  const renderValueFacet = (facet: ValueFacet, counts: readonly FacetCount[], selected: readonly string[] = []) => {
+    const visibleCounts = getVisibleCounts(counts, selected)
+    if (visibleCounts.length === 0) return null
+
+    return (
+      <SidebarGroup key={facet}>
+        <SidebarGroupLabel>{FACET_LABELS[facet]}</SidebarGroupLabel>
+        <SidebarGroupContent className="space-y-1 px-2">
+          {visibleCounts.map(({ value, count }) => {
+            const id = `facet-${facet}-${value}`
+            const label = facet === "languages" ? LANGUAGE_LABELS[value as SearchBookLanguage] : value
+
+            return (
+              <div key={value} className="flex items-center gap-2 text-sm">
+                <Checkbox id={id} checked={selected.includes(value)} onCheckedChange={() => onToggle(facet, value)} />
+                <Label htmlFor={id} className="min-w-0 flex-1 truncate font-normal" title={label}>
+                  {label}
+                </Label>
+                <span className="text-muted-foreground text-xs tabular-nums">{count}</span>
+              </div>
+            )
+          })}
+        </SidebarGroupContent>
+      </SidebarGroup>
+    )
+  }
+
+  return (
+    <Sidebar className="top-16 h-[calc(100svh-4rem)]">
+      <SidebarHeader className="flex-row items-center justify-between">
+        <div>
+          <Typography variant="small">Filters</Typography>
+          <Typography variant="muted" className="text-xs">
+            Counts cover every matching result
+          </Typography>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          Clear
+        </Button>
+      </SidebarHeader>
+      <SidebarSeparator />
+      <SidebarContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Spinner className="size-6" />
+          </div>
+        ) : !facets ? (
+          <Typography variant="muted" className="px-4 py-2 text-sm">
+            Counts are unavailable right now
+          </Typography>
+        ) : (
+          <>
+            {renderValueFacet("subjects", facets.subjects, filters.subjects)}
+            {renderValueFacet("authors", facets.authors, filters.authors)}
+            {renderValueFacet("publishers", facets.publishers, filters.publishers)}
+            {renderValueFacet("languages", facets.languages, filters.languages)}
+            <SidebarGroup>
+              <SidebarGroupLabel>First published</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <YearRangeFacet
+                  years={facets.firstPublishYears}
+                  range={filters.firstPublishYear}
+                  onChange={onYearRangeChange}
+                />
+              </SidebarGroupContent>
+            </SidebarGroup>
+          </>
+        )}
+      </SidebarContent>
+    </Sidebar>
+  )
+}
@@ -0,0 +1,200 @@
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Progress,
+  ProgressLabel,
+  ProgressValue,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@my-library-app/ui"
+import { useState } from "react"
+
+import { type ImportRowMatch, useImportMatches } from "@/hooks/library"
+import {
+  type ConfirmedImport,
+  getMatchConfidence,
+  type ImportFile,
+  type ImportRow,
+  MATCH_CONFIDENCES,
+  MATCH_METHODS,
+  type MatchConfidence,
+} from "@/services/library-import-service"
+import { STATUS_SHELF_NAMES } from "@/services/library-service"
+
+type ImportReviewTableProps = {
+  readonly file: ImportFile
+  readonly isImporting: boolean
+  readonly onImport: (imports: readonly ConfirmedImport[]) => void
+  readonly onCancel: () => void
+}
+
+const CONFIDENCE_LABELS: Readonly<Record<MatchConfidence, string>> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+}
+
+const CONFIDENCE_VARIANTS = {
+  high: "default",
+  medium: "secondary",
+  low: "destructive",
+} as const satisfies Record<MatchConfidence, string>
+
+/**
+ * Lists the shelves a row goes to
+ */
+const getShelfNames = (row: ImportRow): string => {
+  return [...(row.status ? [STATUS_SHELF_NAMES[row.status]] : []), ...row.shelves].join(", ") || "—"
+}
+
+/**
+ * Review of the works matched to the rows of an import, where the user confirms which rows to add to their library
+ *
+ * Low-confidence matches are left unchecked by default. Rows without a match are listed separately so nothing is
+ * dropped silently.
+ */
+export const ImportReviewTable = ({ file, isImporting, onImport, onCancel }: ImportReviewTableProps) => {
+  const { matches, completed, isLoading } = useImportMatches(file.rows)
+  // Checkboxes the user changed, by row line; the others follow the match confidence
+  const [overrides, setOverrides] = useState<ReadonlyMap<number, boolean>>(() => new Map())
+
+  const matched = matches.filter((item) => item.match)
+  const unmatched = matches.filter((item) => !item.isLoading && !item.match)
+
+  const isConfirmed = ({ row, match }: ImportRowMatch): boolean => {
+    return overrides.get(row.line) ?? (match !== undefined && getMatchConfidence(match) !== MATCH_CONFIDENCES.LOW)
+  }
+
+  const confirmed = matched.flatMap((item): ConfirmedImport[] =>
+    item.match && isConfirmed(item) ? [{ row: item.row, volume: item.match.volume }] : [],
+  )
+
+  const handleCheckedChange = (line: number, checked: boolean): void => {
+    setOverrides((current) => new Map(current).set(line, checked))
+  }
+
+  return (
+    <div className="space-y-6">
+      {isLoading && (
+        <Progress value={(completed / Math.max(matches.length, 1)) * 100}>
+          <ProgressLabel>Matching books to Open Library</ProgressLabel>
+          <ProgressValue>{() => `${completed} of ${matches.length}`}</ProgressValue>
+        </Progress>
+      )}
+
+      <section className="space-y-2">
+        <h2 className="text-sm font-medium">Matched books ({matched.length})</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>In your export</TableHead>
+              <TableHead>Open Library match</TableHead>
+              <TableHead>Confidence</TableHead>
+              <TableHead>Shelves</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {matched.map((item) => {
+              const { row, match } = item
+              if (!match) return null
+              const confidence = getMatchConfidence(match)
+
+              return (
+                <TableRow key={row.line}>
+                  <TableCell>
+                    <Checkbox
+                      checked={isConfirmed(item)}
+                      onCheckedChange={(checked) => handleCheckedChange(row.line, checked)}
+                      aria-label={`Import ${row.title}`}
+                    />
+                  </TableCell>
+                  <TableCell className="max-w-64 truncate">
+                    {row.title}
+                    <div className="text-muted-foreground text-[10px]">{row.author ?? "Unknown author"}</div>
+                  </TableCell>
+                  <TableCell className="max-w-64">
+                    <div className="flex items-center gap-2">
+                      <img
+                        src={match.volume.volumeInfo.imageLinks?.smallThumbnail ?? "/placeholder.png"}
+                        alt={match.volume.volumeInfo.title}
+                        className="bg-muted aspect-3/5 w-8 shrink-0 object-cover"
+                      />
+                      <div className="min-w-0">
+                        <a
+                          href={`/books/${match.volume.id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="block truncate hover:underline"
+                        >
+                          {match.volume.volumeInfo.title}
+                        </a>
+                        <div className="text-muted-foreground truncate text-[10px]">
+                          {match.volume.volumeInfo.authors?.join(", ") ?? "Unknown author"}
+                        </div>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={CONFIDENCE_VARIANTS[confidence]}>{CONFIDENCE_LABELS[confidence]}</Badge>
+                    <div className="text-muted-foreground text-[10px]">
+                      {match.method === MATCH_METHODS.ISBN ? "By ISBN" : "By title and author"}
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-48 truncate">{getShelfNames(row)}</TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </section>
+
+      {unmatched.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-sm font-medium">Not matched ({unmatched.length})</h2>
+          <p className="text-muted-foreground text-xs">
+            These books were not found on Open Library and will not be imported. Add them from the search instead.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">Line</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Author</TableHead>
+                <TableHead>ISBN</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {unmatched.map(({ row, error }) => (
+                <TableRow key={row.line}>
+                  <TableCell>{row.line}</TableCell>
+                  <TableCell className="max-w-64 truncate">{row.title}</TableCell>
+                  <TableCell className="max-w-48 truncate">{row.author ?? "—"}</TableCell>
+                  <TableCell className="font-mono text-[10px]">{row.isbn ?? "—"}</TableCell>
+                  <TableCell className="text-muted-foreground">{error?.message ?? "No matching work found"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={isImporting}>
+          Choose another file
+        </Button>
+        <Button onClick={() => onImport(confirmed)} disabled={isLoading || isImporting || confirmed.length === 0}>
+          {isImporting && <Spinner className="size-4" />}
+          Import {confirmed.length} books
+        </Button>
+      </div>
+    </div>
+  )
+}
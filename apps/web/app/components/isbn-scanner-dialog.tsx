@@ -0,0 +1,169 @@
+import type { ChangeEvent } from "react"
+
+import { isValidIsbn13 } from "@my-library-app/schemas"
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+  Spinner,
+  useIsMobile,
+} from "@my-library-app/ui"
+import { CameraOffIcon, ImageUpIcon } from "lucide-react"
+import { useRef, useState } from "react"
+import { useNavigate } from "react-router"
+
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner"
+import { barcodeService } from "@/services/barcode-service"
+import { BOOK_PROVIDERS } from "@/services/book-providers"
+import { bookService, SEARCH_FIELDS } from "@/services/book-service"
+
+type IsbnScannerDialogProps = {
+  readonly open: boolean
+  readonly onOpenChange: (open: boolean) => void
+}
+
+type IsbnScannerProps = {
+  readonly onClose: () => void
+}
+
+const TITLE = "Scan an ISBN barcode"
+const DESCRIPTION = "Point the camera at the barcode on the back of a book, or upload a photo of it."
+
+/**
+ * Reads an ISBN barcode from the camera or an uploaded photo, then opens the matching book
+ *
+ * Mounted only while the dialog is open, so the camera is released as soon as it closes.
+ */
+const IsbnScanner = ({ onClose }: IsbnScannerProps) => {
+  const navigate = useNavigate()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isbn, setIsbn] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isReadingPhoto, setIsReadingPhoto] = useState(false)
+
+  const openBook = async (code: string): Promise<void> => {
+    setIsbn(code)
+    setMessage(null)
+
+    const result = await bookService.searchByIsbn(code, { maxResults: 1 })
+    const book = result.ok ? result.value.items?.[0] : undefined
+
+    onClose()
+    if (book?.source === BOOK_PROVIDERS.OPEN_LIBRARY) {
+      navigate(`/books/${book.id}`)
+    } else {
+      // Fall back to the search results, which also explain lookup failures
+      navigate(`/?${new URLSearchParams({ q: code, field: SEARCH_FIELDS.ISBN })}`)
+    }
+  }
+
+  const { videoRef, error, isStarting } = useBarcodeScanner({
+    accept: (code) => isbn === null && isValidIsbn13(code),
+    onDetect: (code) => void openBook(code),
+  })
+
+  const handlePhotoChange = async (event: ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0]
+    // Allow picking the same photo again
+    event.target.value = ""
+    if (!file) return
+
+    setIsReadingPhoto(true)
+    setMessage(null)
+    const result = await barcodeService.detectEan13InFile(file)
+    setIsReadingPhoto(false)
+
+    if (!result.ok) {
+      setMessage(result.error.message)
+    } else if (!result.value) {
+      setMessage("No barcode was found in the photo. Try a sharper photo taken closer to the barcode.")
+    } else if (!isValidIsbn13(result.value)) {
+      setMessage(`The barcode ${result.value} is not an ISBN.`)
+    } else {
+      void openBook(result.value)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="bg-muted relative aspect-video overflow-hidden rounded-lg">
+        <video ref={videoRef} muted playsInline className="size-full object-cover" />
+
+        {error ? (
+          <div className="text-muted-foreground absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center">
+            <CameraOffIcon className="size-6" />
+            <p>{error.message}</p>
+          </div>
+        ) : isStarting || isbn ? (
+          <div className="bg-background/70 absolute inset-0 flex flex-col items-center justify-center gap-2">
+            <Spinner className="size-6" />
+            {isbn && <p>Looking up ISBN {isbn}…</p>}
+          </div>
+        ) : (
+          // Guide for lining up the barcode
+          <div className="bg-destructive/70 absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2" />
+        )}
+      </div>
+
+      {message && (
+        <p role="status" className="text-muted-foreground">
+          {message}
+        </p>
+      )}
+
+      <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handlePhotoChange} />
+      <Button
+        type="button"
+        variant="outline"
+        disabled={isReadingPhoto || isbn !== null}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {isReadingPhoto ? <Spinner className="size-4" /> : <ImageUpIcon className="size-4" />}
+        Upload a photo
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Dialog scanning the ISBN barcode of a book to open it, shown as a drawer on mobile
+ */
+export const IsbnScannerDialog = ({ open, onOpenChange }: IsbnScannerDialogProps) => {
+  const isMobile = useIsMobile()
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={onOpenChange}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle>{TITLE}</DrawerTitle>
+            <DrawerDescription>{DESCRIPTION}</DrawerDescription>
+          </DrawerHeader>
+          <div className="px-4 pb-4">
+            <IsbnScanner onClose={() => onOpenChange(false)} />
+          </div>
+        </DrawerContent>
+      </Drawer>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{TITLE}</DialogTitle>
+          <DialogDescription>{DESCRIPTION}</DialogDescription>
+        </DialogHeader>
+        <IsbnScanner onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  )
+}
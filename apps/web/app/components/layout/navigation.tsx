@@ -1,14 +1,53 @@
-import { Menu } from "lucide-react"
+import { Badge, cn } from "@my-library-app/ui"
+import { Menu, WifiOffIcon } from "lucide-react"
+import { NavLink } from "react-router"
 
+import { useOnlineStatus } from "@/hooks/use-online-status"
+
+import { CommandPalette } from "../command-palette"
 import ProfileDropdown from "../profile-dorpdown"
 
+const NAVIGATION_LINKS = [
+  { to: "/", label: "Search" },
+  { to: "/library", label: "My Library" },
+  { to: "/stats", label: "Stats" },
+  { to: "/notes", label: "Notes" },
+] as const
+
 export function Navigation() {
+  const isOnline = useOnlineStatus()
+
   return (
     <header className="bg-background/95 supports-backdrop-filter:bg-background/60 sticky top-0 z-10 border-b backdrop-blur">
       <div className="container mx-auto flex h-16 items-center justify-between px-4">
-        <Menu />
+        <div className="flex items-center gap-6">
+          <Menu />
+          <nav className="flex items-center gap-4 text-sm">
+            {NAVIGATION_LINKS.map((link) => (
+              <NavLink
+                key={link.to}
+                to={link.to}
+                end
+                className={({ isActive }) =>
+                  cn("hover:text-foreground transition-colors", isActive ? "text-foreground" : "text-muted-foreground")
+                }
+              >
+                {link.label}
+              </NavLink>
+            ))}
+          </nav>
+        </div>
 
-        <ProfileDropdown />
+        <div className="flex items-center gap-3">
+          <CommandPalette />
+          {!isOnline && (
+            <Badge variant="outline" role="status" title="Showing your saved books. Search needs a connection.">
+              <WifiOffIcon />
+              Offline
+            </Badge>
+          )}
+          <ProfileDropdown />
+        </div>
       </div>
     </header>
   )
@@ -0,0 +1,42 @@
+import { type ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@my-library-app/ui"
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts"
+
+import type { Subject } from "@/services/book-service"
+
+type PublishYearChartProps = {
+  readonly history: Subject["publishingHistory"]
+  readonly className?: string
+}
+
+const chartConfig = {
+  count: {
+    label: "Editions",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig
+
+/**
+ * Bar chart of the number of editions published per decade
+ *
+ * Years are grouped by decade, as a subject's history often spans centuries with a few editions a year.
+ */
+export const PublishYearChart = ({ history, className }: PublishYearChartProps) => {
+  const counts = new Map<number, number>()
+  for (const { year, count } of history) {
+    const decade = Math.floor(year / 10) * 10
+    counts.set(decade, (counts.get(decade) ?? 0) + count)
+  }
+
+  const data = [...counts].sort(([a], [b]) => a - b).map(([decade, count]) => ({ decade: `${decade}s`, count }))
+
+  return (
+    <ChartContainer config={chartConfig} className={className}>
+      <BarChart accessibilityLayer data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="decade" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" />
+      </BarChart>
+    </ChartContainer>
+  )
+}
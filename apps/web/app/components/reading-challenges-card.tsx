@@ -0,0 +1,201 @@
+import { searchBookLanguageOptionsSchema, type SearchBookLanguage } from "@my-library-app/schemas"
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Field,
+  FieldLabel,
+  Input,
+  NativeSelect,
+  NativeSelectOption,
+  Progress,
+  ProgressLabel,
+  ProgressValue,
+  Spinner,
+  Typography,
+} from "@my-library-app/ui"
+import { PlusIcon, Trash2Icon } from "lucide-react"
+import { useState } from "react"
+
+import type { ShelfBook } from "@/services/library-service"
+import type { ReadingSession } from "@/services/reading-service"
+
+import { useCreateReadingChallenge, useDeleteReadingChallenge, useReadingChallenges } from "@/hooks/library"
+import {
+  CHALLENGE_CRITERIA,
+  type ChallengeCriterion,
+  evaluateChallenge,
+  type ReadingChallenge,
+} from "@/services/goal-service"
+
+import { LANGUAGE_LABELS } from "./advanced-search-panel"
+
+type ReadingChallengesCardProps = {
+  readonly year: number
+  /**
+   * Books on the "Read" shelf
+   */
+  readonly books: readonly ShelfBook[]
+  /**
+   * All the user's reading sessions, telling when books were finished
+   */
+  readonly sessions: readonly ReadingSession[]
+}
+
+/**
+ * Labels of the challenge criteria, in display order
+ */
+const CRITERION_LABELS: Readonly<Record<ChallengeCriterion, string>> = {
+  language: "In language",
+  published_before: "Published before",
+  published_after: "Published after",
+  subject: "About subject",
+}
+
+/**
+ * Describes a challenge, e.g. "5 books in Spanish" or "3 books published before 1950"
+ */
+const describeChallenge = (challenge: ReadingChallenge): string => {
+  const books = `${challenge.target} ${challenge.target === 1 ? "book" : "books"}`
+
+  switch (challenge.criterion) {
+    case CHALLENGE_CRITERIA.LANGUAGE:
+      return `${books} in ${LANGUAGE_LABELS[challenge.value as SearchBookLanguage] ?? challenge.value}`
+    case CHALLENGE_CRITERIA.PUBLISHED_BEFORE:
+      return `${books} published before ${challenge.value}`
+    case CHALLENGE_CRITERIA.PUBLISHED_AFTER:
+      return `${books} published after ${challenge.value}`
+    case CHALLENGE_CRITERIA.SUBJECT:
+      return `${books} about ${challenge.value}`
+  }
+}
+
+/**
+ * Card listing the themed reading challenges of a year with their progress, and a form for adding challenges
+ *
+ * Challenges are matched against the language, publish date and subjects stored with the finished books.
+ */
+export const ReadingChallengesCard = ({ year, books, sessions }: ReadingChallengesCardProps) => {
+  const { challenges, isLoading } = useReadingChallenges(year)
+  const [criterion, setCriterion] = useState<ChallengeCriterion>(CHALLENGE_CRITERIA.LANGUAGE)
+  const [value, setValue] = useState<string>(searchBookLanguageOptionsSchema.options[0])
+  const [target, setTarget] = useState("")
+  const { createChallenge, isCreating } = useCreateReadingChallenge({ onSuccess: () => setTarget("") })
+  const { deleteChallenge, isDeleting } = useDeleteReadingChallenge()
+
+  const handleCriterionChange = (newCriterion: ChallengeCriterion): void => {
+    setCriterion(newCriterion)
+    // Languages are picked from a list, the other criteria are typed
+    setValue(newCriterion === CHALLENGE_CRITERIA.LANGUAGE ? searchBookLanguageOptionsSchema.options[0] : "")
+  }
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+    createChallenge({ year, criterion, value, target: Number(target) })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{year} challenges</CardTitle>
+        <CardDescription>Themed goals counting the books you finish in {year}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Spinner className="size-6" />
+        ) : challenges.length === 0 ? (
+          <Typography variant="muted">No challenges yet, e.g. 5 books in Spanish.</Typography>
+        ) : (
+          <ul className="space-y-3">
+            {challenges.map((challenge) => {
+              const progress = evaluateChallenge(challenge, books, sessions)
+
+              return (
+                <li key={challenge.id} className="flex items-end gap-2">
+                  <Progress value={progress.percent} className="flex-1">
+                    <ProgressLabel>
+                      {describeChallenge(challenge)}
+                      {progress.isComplete && " (completed)"}
+                    </ProgressLabel>
+                    <ProgressValue>{() => `${progress.current} of ${progress.target}`}</ProgressValue>
+                  </Progress>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Delete challenge"
+                    disabled={isDeleting}
+                    onClick={() => deleteChallenge(challenge.id)}
+                  >
+                    <Trash2Icon />
+                  </Button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2">
+          <Field className="w-20">
+            <FieldLabel htmlFor="challenge-target">Books</FieldLabel>
+            <Input
+              id="challenge-target"
+              type="number"
+              min={1}
+              required
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+            />
+          </Field>
+          <Field className="w-40">
+            <FieldLabel htmlFor="challenge-criterion">Criterion</FieldLabel>
+            <NativeSelect
+              id="challenge-criterion"
+              value={criterion}
+              onChange={(e) => handleCriterionChange(e.target.value as ChallengeCriterion)}
+            >
+              {(Object.keys(CRITERION_LABELS) as ChallengeCriterion[]).map((option) => (
+                <NativeSelectOption key={option} value={option}>
+                  {CRITERION_LABELS[option]}
+                </NativeSelectOption>
+              ))}
+            </NativeSelect>
+          </Field>
+          <Field className="w-40">
+            <FieldLabel htmlFor="challenge-value">
+              {criterion === CHALLENGE_CRITERIA.LANGUAGE
+                ? "Language"
+                : criterion === CHALLENGE_CRITERIA.SUBJECT
+                  ? "Subject"
+                  : "Year"}
+            </FieldLabel>
+            {criterion === CHALLENGE_CRITERIA.LANGUAGE ? (
+              <NativeSelect id="challenge-value" value={value} onChange={(e) => setValue(e.target.value)}>
+                {searchBookLanguageOptionsSchema.options.map((language) => (
+                  <NativeSelectOption key={language} value={language}>
+                    {LANGUAGE_LABELS[language]}
+                  </NativeSelectOption>
+                ))}
+              </NativeSelect>
+            ) : (
+              <Input
+                id="challenge-value"
+                type={criterion === CHALLENGE_CRITERIA.SUBJECT ? "text" : "number"}
+                placeholder={criterion === CHALLENGE_CRITERIA.SUBJECT ? "Fantasy" : "1950"}
+                required
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            )}
+          </Field>
+          <Button type="submit" variant="outline" disabled={isCreating}>
+            {isCreating ? <Spinner className="size-4" /> : <PlusIcon />}
+            Add challenge
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,147 @@
+import {
+  Badge,
+  Button,
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Field,
+  FieldLabel,
+  Input,
+  NativeSelect,
+  NativeSelectOption,
+  Progress,
+  ProgressLabel,
+  ProgressValue,
+  Spinner,
+} from "@my-library-app/ui"
+import { PencilIcon } from "lucide-react"
+import { useState } from "react"
+
+import type { ShelfBook } from "@/services/library-service"
+import type { ReadingSession } from "@/services/reading-service"
+
+import { useReadingGoal, useSetReadingGoal } from "@/hooks/library"
+import { evaluateGoal, GOAL_UNITS, type GoalProgress, type GoalUnit, SCHEDULE_STATUSES } from "@/services/goal-service"
+
+type ReadingGoalCardProps = {
+  readonly year: number
+  /**
+   * Books on the "Read" shelf
+   */
+  readonly books: readonly ShelfBook[]
+  /**
+   * All the user's reading sessions, telling when books were finished
+   */
+  readonly sessions: readonly ReadingSession[]
+}
+
+/**
+ * Describes a goal's progress relative to an even pace, e.g. "3 books ahead of schedule"
+ */
+const describeSchedule = (progress: GoalProgress, unit: GoalUnit): string => {
+  if (progress.isComplete) return "Goal reached"
+
+  const amount = Math.abs(progress.difference)
+  const units = amount === 1 ? unit.replace(/s$/, "") : unit
+
+  switch (progress.status) {
+    case SCHEDULE_STATUSES.AHEAD:
+      return `${amount.toLocaleString()} ${units} ahead of schedule`
+    case SCHEDULE_STATUSES.BEHIND:
+      return `${amount.toLocaleString()} ${units} behind schedule`
+    case SCHEDULE_STATUSES.ON_TRACK:
+      return "On schedule"
+  }
+}
+
+/**
+ * Card showing the progress towards the reading goal of a year, with a form for setting the goal
+ */
+export const ReadingGoalCard = ({ year, books, sessions }: ReadingGoalCardProps) => {
+  const { goal, isLoading } = useReadingGoal(year)
+  const [isEditing, setIsEditing] = useState(false)
+  const [unit, setUnit] = useState<GoalUnit>(GOAL_UNITS.BOOKS)
+  const [target, setTarget] = useState("")
+  const { setGoal, isSetting } = useSetReadingGoal({ onSuccess: () => setIsEditing(false) })
+
+  const progress = goal && evaluateGoal(goal, books, sessions)
+
+  const handleEdit = (): void => {
+    setUnit(goal?.unit ?? GOAL_UNITS.BOOKS)
+    setTarget(goal?.target.toString() ?? "")
+    setIsEditing(true)
+  }
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+    setGoal({ year, unit, target: Number(target) })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{year} reading goal</CardTitle>
+        <CardDescription>
+          {goal ? `Read ${goal.target.toLocaleString()} ${goal.unit} in ${year}` : "Set a number of books or pages"}
+        </CardDescription>
+        {goal && !isEditing && (
+          <CardAction>
+            <Button variant="ghost" size="icon-sm" aria-label="Edit goal" onClick={handleEdit}>
+              <PencilIcon />
+            </Button>
+          </CardAction>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Spinner className="size-6" />
+        ) : goal && progress && !isEditing ? (
+          <>
+            <Progress value={progress.percent}>
+              <ProgressLabel>
+                {progress.current.toLocaleString()} of {progress.target.toLocaleString()} {goal.unit}
+              </ProgressLabel>
+              <ProgressValue>{() => `${progress.percent}%`}</ProgressValue>
+            </Progress>
+            <Badge variant={progress.status === SCHEDULE_STATUSES.BEHIND ? "destructive" : "secondary"}>
+              {describeSchedule(progress, goal.unit)}
+            </Badge>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2">
+            <Field className="w-28">
+              <FieldLabel htmlFor="goal-target">Target</FieldLabel>
+              <Input
+                id="goal-target"
+                type="number"
+                min={1}
+                required
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+              />
+            </Field>
+            <Field className="w-28">
+              <FieldLabel htmlFor="goal-unit">Unit</FieldLabel>
+              <NativeSelect id="goal-unit" value={unit} onChange={(e) => setUnit(e.target.value as GoalUnit)}>
+                <NativeSelectOption value={GOAL_UNITS.BOOKS}>Books</NativeSelectOption>
+                <NativeSelectOption value={GOAL_UNITS.PAGES}>Pages</NativeSelectOption>
+              </NativeSelect>
+            </Field>
+            <Button type="submit" disabled={isSetting}>
+              {isSetting && <Spinner className="size-4" />}
+              Set goal
+            </Button>
+            {isEditing && (
+              <Button type="button" variant="ghost" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            )}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
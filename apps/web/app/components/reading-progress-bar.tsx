@@ -0,0 +1,22 @@
+import { Progress, ProgressLabel, ProgressValue } from "@my-library-app/ui"
+
+import type { ReadingProgress } from "@/services/reading-service"
+
+type ReadingProgressBarProps = {
+  readonly progress: ReadingProgress
+  readonly className?: string
+}
+
+/**
+ * Progress bar of the pages read in a book
+ */
+export const ReadingProgressBar = ({ progress, className }: ReadingProgressBarProps) => {
+  return (
+    <Progress value={progress.percent} className={className}>
+      <ProgressLabel>
+        {progress.isFinished ? "Finished" : `Page ${progress.currentPage} of ${progress.pageCount}`}
+      </ProgressLabel>
+      <ProgressValue>{() => `${progress.percent}%`}</ProgressValue>
+    </Progress>
+  )
+}
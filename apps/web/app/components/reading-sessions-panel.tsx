@@ -0,0 +1,219 @@
+import {
+  Button,
+  Field,
+  FieldLabel,
+  Input,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  Typography,
+} from "@my-library-app/ui"
+import { PlusIcon, Trash2Icon } from "lucide-react"
+import { useState } from "react"
+
+import { useDeleteReadingSession, useLogReadingSession, useReadingSessions } from "@/hooks/library"
+import { toIsoDate } from "@/services/reading-service"
+
+import { ReadingProgressBar } from "./reading-progress-bar"
+
+type ReadingSessionsPanelProps = {
+  readonly bookId: string
+  /**
+   * Page count suggested for the first session, e.g. from the book's editions
+   */
+  readonly defaultPageCount?: number
+}
+
+type SessionField = "startPage" | "endPage" | "pageCount" | "minutes" | "readOn"
+
+/**
+ * Formats a number of minutes as hours and minutes, e.g. "2 h 05 min"
+ */
+const formatMinutes = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`
+  return `${Math.floor(minutes / 60)} h ${(minutes % 60).toString().padStart(2, "0")} min`
+}
+
+/**
+ * Formats an ISO date for display in the user's locale
+ */
+const formatDate = (isoDate: string): string => {
+  return new Date(`${isoDate}T00:00:00`).toLocaleDateString(undefined, { dateStyle: "medium" })
+}
+
+/**
+ * Reading progress of a book with a form for logging sessions and the list of logged sessions
+ *
+ * The form starts where the last session ended, so logging a session usually only takes the end page and minutes.
+ */
+export const ReadingSessionsPanel = ({ bookId, defaultPageCount }: ReadingSessionsPanelProps) => {
+  const { sessions, progressByBook, isLoading } = useReadingSessions({ bookIds: [bookId] })
+  // Fields the user edited; the others show their defaults, which follow the logged sessions
+  const [draft, setDraft] = useState<Partial<Record<SessionField, string>>>({})
+  const { logSession, isLogging } = useLogReadingSession({ onSuccess: () => setDraft({}) })
+  const { deleteSession, isDeleting } = useDeleteReadingSession()
+
+  const progress = progressByBook.get(bookId)
+  const today = toIsoDate(new Date())
+  const defaults: Record<SessionField, string> = {
+    startPage: (progress?.currentPage ?? 0).toString(),
+    endPage: "",
+    pageCount: (progress?.pageCount ?? defaultPageCount)?.toString() ?? "",
+    minutes: "",
+    readOn: today,
+  }
+  const values = { ...defaults, ...draft }
+
+  const setField = (field: SessionField, value: string): void => {
+    setDraft((current) => ({ ...current, [field]: value }))
+  }
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault()
+
+    logSession({
+      bookId,
+      startPage: Number(values.startPage),
+      endPage: Number(values.endPage),
+      pageCount: Number(values.pageCount),
+      minutes: Number(values.minutes),
+      readOn: values.readOn,
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner className="size-6" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {progress ? (
+        <div className="max-w-xl space-y-2">
+          <ReadingProgressBar progress={progress} />
+          <dl className="text-muted-foreground grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+            <dt className="font-semibold">Pace</dt>
+            <dd>{progress.pagesPerDay.toFixed(1)} pages a day</dd>
+            {progress.projectedFinish && (
+              <>
+                <dt className="font-semibold">Projected finish</dt>
+                <dd>{formatDate(progress.projectedFinish)}</dd>
+              </>
+            )}
+            <dt className="font-semibold">Time read</dt>
+            <dd>{formatMinutes(progress.totalMinutes)}</dd>
+          </dl>
+        </div>
+      ) : (
+        <Typography variant="muted">Log a reading session to track your progress through this book.</Typography>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid max-w-3xl grid-cols-2 items-end gap-2 sm:grid-cols-6">
+        <Field>
+          <FieldLabel htmlFor="session-start-page">From page</FieldLabel>
+          <Input
+            id="session-start-page"
+            type="number"
+            min={0}
+            required
+            value={values.startPage}
+            onChange={(e) => setField("startPage", e.target.value)}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="session-end-page">To page</FieldLabel>
+          <Input
+            id="session-end-page"
+            type="number"
+            min={values.startPage}
+            max={values.pageCount || undefined}
+            required
+            value={values.endPage}
+            onChange={(e) => setField("endPage", e.target.value)}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="session-page-count">Pages in book</FieldLabel>
+          <Input
+            id="session-page-count"
+            type="number"
+            min={1}
+            required
+            value={values.pageCount}
+            onChange={(e) => setField("pageCount", e.target.value)}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="session-minutes">Minutes</FieldLabel>
+          <Input
+            id="session-minutes"
+            type="number"
+            min={1}
+            max={1440}
+            required
+            value={values.minutes}
+            onChange={(e) => setField("minutes", e.target.value)}
+          />
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="session-read-on">Date</FieldLabel>
+          <Input
+            id="session-read-on"
+            type="date"
+            max={today}
+            required
+            value={values.readOn}
+            onChange={(e) => setField("readOn", e.target.value)}
+          />
+        </Field>
+        <Button type="submit" disabled={isLogging}>
+          {isLogging ? <Spinner className="size-4" /> : <PlusIcon />}
+          Log session
+        </Button>
+      </form>
+
+      {sessions.length > 0 && (
+        <Table className="max-w-3xl">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Pages</TableHead>
+              <TableHead>Time</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.map((session) => (
+              <TableRow key={session.id}>
+                <TableCell>{formatDate(session.readOn)}</TableCell>
+                <TableCell>
+                  {session.startPage}–{session.endPage}
+                  <span className="text-muted-foreground ml-1">({session.endPage - session.startPage} pages)</span>
+                </TableCell>
+                <TableCell>{formatMinutes(session.minutes)}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    aria-label="Delete session"
+                    disabled={isDeleting}
+                    onClick={() => deleteSession(session.id)}
+                  >
+                    <Trash2Icon />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@my-library-app/ui"
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts"
+
+import type { BookCount, ReadingPeriod } from "@/services/reading-stats"
+
+const periodsChartConfig = {
+  books: {
+    label: "Books",
+    color: "var(--chart-2)",
+  },
+  pages: {
+    label: "Pages",
+    color: "var(--chart-5)",
+  },
+} satisfies ChartConfig
+
+const bookCountChartConfig = {
+  books: {
+    label: "Books",
+    color: "var(--chart-3)",
+  },
+} satisfies ChartConfig
+
+type ReadingPeriodsChartProps = {
+  readonly periods: readonly ReadingPeriod[]
+  readonly className?: string
+}
+
+/**
+ * Chart of the books (bars) and pages (line) read per period
+ *
+ * Books and pages differ by orders of magnitude, so each has its own axis.
+ */
+export const ReadingPeriodsChart = ({ periods, className }: ReadingPeriodsChartProps) => {
+  return (
+    <ChartContainer config={periodsChartConfig} className={className}>
+      <ComposedChart accessibilityLayer data={[...periods]}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="period" tickLine={false} axisLine={false} tickMargin={8} />
+        <YAxis yAxisId="books" allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+        <YAxis yAxisId="pages" orientation="right" tickLine={false} axisLine={false} width={40} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar yAxisId="books" dataKey="books" fill="var(--color-books)" />
+        <Line yAxisId="pages" dataKey="pages" type="monotone" stroke="var(--color-pages)" strokeWidth={2} dot={false} />
+      </ComposedChart>
+    </ChartContainer>
+  )
+}
+
+type BookCountChartProps = {
+  readonly counts: readonly BookCount[]
+  /**
+   * Draws horizontal bars, which leave room for long labels such as subjects and author names
+   */
+  readonly horizontal?: boolean
+  readonly className?: string
+}
+
+/**
+ * Bar chart of the number of books per label, e.g. per subject or per decade
+ */
+export const BookCountChart = ({ counts, horizontal = false, className }: BookCountChartProps) => {
+  if (horizontal) {
+    return (
+      <ChartContainer config={bookCountChartConfig} className={className}>
+        <BarChart accessibilityLayer data={[...counts]} layout="vertical" margin={{ left: 8 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" dataKey="books" allowDecimals={false} tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={120} interval={0} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="books" fill="var(--color-books)" />
+        </BarChart>
+      </ChartContainer>
+    )
+  }
+
+  return (
+    <ChartContainer config={bookCountChartConfig} className={className}>
+      <BarChart accessibilityLayer data={[...counts]}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="books" fill="var(--color-books)" />
+      </BarChart>
+    </ChartContainer>
+  )
+}
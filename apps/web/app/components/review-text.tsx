@@ -0,0 +1,72 @@
+import { cn } from "@my-library-app/ui"
+import { Fragment, useState } from "react"
+
+import { parseReviewMarkup, type ReviewNode } from "@/services/review-markup"
+
+type SpoilerProps = {
+  readonly children: React.ReactNode
+}
+
+/**
+ * Text hidden behind a block until clicked
+ */
+const Spoiler = ({ children }: SpoilerProps) => {
+  const [isRevealed, setIsRevealed] = useState(false)
+
+  if (isRevealed) {
+    return <span className="bg-muted rounded-sm px-0.5">{children}</span>
+  }
+
+  return (
+    <button
+      type="button"
+      title="Show spoiler"
+      aria-label="Spoiler, show it"
+      onClick={() => setIsRevealed(true)}
+      className="bg-foreground hover:bg-foreground/80 cursor-pointer rounded-sm px-0.5 text-transparent transition-colors select-none"
+    >
+      {children}
+    </button>
+  )
+}
+
+/**
+ * Renders parsed review nodes as React elements, so review text is never injected as HTML
+ */
+const renderNodes = (nodes: readonly ReviewNode[]): React.ReactNode[] => {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={node.start}>{node.text}</Fragment>
+      case "bold":
+        return <strong key={node.start}>{renderNodes(node.children)}</strong>
+      case "italic":
+        return <em key={node.start}>{renderNodes(node.children)}</em>
+      case "spoiler":
+        return <Spoiler key={node.start}>{renderNodes(node.children)}</Spoiler>
+    }
+  })
+}
+
+type ReviewTextProps = {
+  /**
+   * Review text with light markup: **bold**, *italic* and ||spoiler||
+   */
+  readonly text: string
+  readonly className?: string
+}
+
+/**
+ * Formatted review text, with spoilers hidden until clicked
+ */
+export const ReviewText = ({ text, className }: ReviewTextProps) => {
+  return (
+    <div className={cn("space-y-2 text-sm leading-relaxed", className)}>
+      {parseReviewMarkup(text).map((paragraph) => (
+        <p key={paragraph.start} className="whitespace-pre-line">
+          {renderNodes(paragraph.nodes)}
+        </p>
+      ))}
+    </div>
+  )
+}
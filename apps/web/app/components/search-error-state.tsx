@@ -0,0 +1,215 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { Button, Empty, EmptyContent, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle } from "@my-library-app/ui"
+import {
+  FileWarningIcon,
+  LockIcon,
+  RotateCwIcon,
+  ServerCrashIcon,
+  TimerIcon,
+  TriangleAlertIcon,
+  WifiOffIcon,
+} from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+import { Link } from "react-router"
+
+import { useOnlineStatus } from "@/hooks/use-online-status"
+
+type SearchErrorStateProps = {
+  readonly error: AppError
+  readonly onRetry: () => void
+  readonly onResetSearch: () => void
+}
+
+/**
+ * Wait before retrying when a rate limited response does not say how long to wait, in seconds
+ */
+const DEFAULT_RETRY_AFTER = 30
+
+/**
+ * Maximum number of schema issues listed
+ */
+const MAX_ISSUES = 3
+
+/**
+ * Counts down the seconds left before a rate limited request can be retried
+ */
+const useRetryCountdown = (error: AppError): number => {
+  const retryAfter = error.kind === "rate_limit" ? (error.retryAfter ?? DEFAULT_RETRY_AFTER) : 0
+  const [countdown, setCountdown] = useState({ error, secondsLeft: retryAfter })
+
+  // Restart the countdown when a new error comes in
+  if (countdown.error !== error) {
+    setCountdown({ error, secondsLeft: retryAfter })
+  }
+
+  useEffect(() => {
+    if (retryAfter === 0) return
+
+    const interval = setInterval(
+      () => setCountdown((current) => ({ ...current, secondsLeft: Math.max(current.secondsLeft - 1, 0) })),
+      1000,
+    )
+    return () => clearInterval(interval)
+  }, [error, retryAfter])
+
+  return countdown.error === error ? countdown.secondsLeft : retryAfter
+}
+
+const RetryButton = ({
+  onRetry,
+  disabled,
+  children,
+}: React.PropsWithChildren<{ onRetry: () => void; disabled?: boolean }>) => {
+  return (
+    <Button variant="outline" onClick={onRetry} disabled={disabled}>
+      <RotateCwIcon className="size-4" />
+      {children ?? "Try again"}
+    </Button>
+  )
+}
+
+/**
+ * Empty state shown when a search fails, with a recovery action suited to the kind of error
+ *
+ * - Network errors retry automatically once the browser is back online
+ * - Rate limit errors allow retrying once the wait the server asked for is over
+ * - Schema errors (an invalid search or an unexpected response) offer to reset the search criteria
+ * - Authentication errors send the user back to the login page
+ */
+export const SearchErrorState = ({ error, onRetry, onResetSearch }: SearchErrorStateProps) => {
+  const isOnline = useOnlineStatus()
+  const secondsLeft = useRetryCountdown(error)
+  const isOfflineError = error.kind === "network" && !isOnline
+
+  const wasOnline = useRef(isOnline)
+
+  // Retry as soon as the connection comes back
+  useEffect(() => {
+    if (error.kind === "network" && isOnline && !wasOnline.current) onRetry()
+    wasOnline.current = isOnline
+  }, [error, isOnline, onRetry])
+
+  switch (error.kind) {
+    case "network":
+      return (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <WifiOffIcon className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>{isOfflineError ? "You are offline" : "Could not reach the book catalogue"}</EmptyTitle>
+            <EmptyDescription>
+              {isOfflineError
+                ? "The search will run again once you are back online. Your saved books are still available."
+                : "Check your connection and try again."}
+            </EmptyDescription>
+          </EmptyHeader>
+          <EmptyContent>
+            <RetryButton onRetry={onRetry} disabled={isOfflineError} />
+          </EmptyContent>
+        </Empty>
+      )
+
+    case "rate_limit":
+      return (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <TimerIcon className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>Too many searches</EmptyTitle>
+            <EmptyDescription>
+              The book catalogue is limiting requests. Wait a moment before searching again.
+            </EmptyDescription>
+          </EmptyHeader>
+          <EmptyContent>
+            <RetryButton onRetry={onRetry} disabled={secondsLeft > 0}>
+              {secondsLeft > 0 ? `Try again in ${secondsLeft}s` : "Try again"}
+            </RetryButton>
+          </EmptyContent>
+        </Empty>
+      )
+
+    case "http":
+      return (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <ServerCrashIcon className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>
+              {error.status >= 500 ? "The book catalogue is unavailable" : "The search request failed"}
+            </EmptyTitle>
+            <EmptyDescription>The server responded with status {error.status}. Try again in a moment.</EmptyDescription>
+          </EmptyHeader>
+          <EmptyContent>
+            <RetryButton onRetry={onRetry} />
+          </EmptyContent>
+        </Empty>
+      )
+
+    case "schema":
+      return (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <FileWarningIcon className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>{error.message}</EmptyTitle>
+            <EmptyDescription>
+              Some search criteria may not be supported. Reset them or search with different keywords.
+            </EmptyDescription>
+          </EmptyHeader>
+          <EmptyContent>
+            {error.issues.length > 0 && (
+              <ul className="text-muted-foreground text-left text-xs">
+                {error.issues.slice(0, MAX_ISSUES).map((issue) => (
+                  <li key={`${issue.path.map(String).join(".")}:${issue.message}`}>
+                    {issue.path.length > 0 && <code>{issue.path.map(String).join(".")}</code>} {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Button variant="outline" onClick={onResetSearch}>
+              Reset search criteria
+            </Button>
+          </EmptyContent>
+        </Empty>
+      )
+
+    case "auth":
+      return (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <LockIcon className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>Your session has expired</EmptyTitle>
+            <EmptyDescription>Sign in again to keep searching.</EmptyDescription>
+          </EmptyHeader>
+          <EmptyContent>
+            <Button nativeButton={false} render={<Link to="/login" />}>
+              Sign in
+            </Button>
+          </EmptyContent>
+        </Empty>
+      )
+
+    case "unexpected":
+      return (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <TriangleAlertIcon className="size-6" />
+            </EmptyMedia>
+            <EmptyTitle>Something went wrong</EmptyTitle>
+            <EmptyDescription>{error.message}</EmptyDescription>
+          </EmptyHeader>
+          <EmptyContent>
+            <RetryButton onRetry={onRetry} />
+          </EmptyContent>
+        </Empty>
+      )
+  }
+}
@@ -0,0 +1,78 @@
+import { Empty, EmptyDescription, EmptyHeader, EmptyMedia, EmptyTitle, Spinner } from "@my-library-app/ui"
+import { LibraryIcon } from "lucide-react"
+
+import type { Volume } from "@/services/book-service"
+
+import { useBookReviews, useReadingSessions, useShelfBooks } from "@/hooks/library"
+import { SHELF_SORTS, type ShelfSort } from "@/services/library-service"
+import { sortByRating } from "@/services/review-service"
+
+import { BookCard } from "./book-card"
+
+type ShelfBooksGridProps = {
+  readonly shelfId: string
+  readonly onBookClick?: (book: Volume) => void
+  /**
+   * Shows the reading progress of each book, computed from its reading sessions
+   */
+  readonly showProgress?: boolean
+  /**
+   * Order of the books, most recently added first by default
+   */
+  readonly sort?: ShelfSort
+}
+
+/**
+ * Grid of the books on a shelf, rendered from their stored volume snapshots
+ */
+export const ShelfBooksGrid = ({
+  shelfId,
+  onBookClick,
+  showProgress = false,
+  sort = SHELF_SORTS.ADDED,
+}: ShelfBooksGridProps) => {
+  const { books, isLoading, error } = useShelfBooks(shelfId)
+  const { reviewsByBook } = useBookReviews()
+  const { progressByBook } = useReadingSessions({
+    bookIds: books.map((shelfBook) => shelfBook.bookId),
+    enabled: showProgress,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Spinner className="size-8" />
+      </div>
+    )
+  }
+
+  if (error || books.length === 0) {
+    return (
+      <Empty>
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <LibraryIcon className="size-6" />
+          </EmptyMedia>
+          <EmptyTitle>{error ? "Error loading shelf" : "This shelf is empty"}</EmptyTitle>
+          <EmptyDescription>
+            {error ? error.message : "Add books to this shelf from the search results"}
+          </EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6">
+      {(sort === SHELF_SORTS.RATING ? sortByRating(books, reviewsByBook) : books).map((shelfBook) => (
+        <BookCard
+          key={shelfBook.id}
+          book={shelfBook.volume}
+          onClick={onBookClick}
+          progress={progressByBook.get(shelfBook.bookId)}
+          rating={reviewsByBook.get(shelfBook.bookId)?.rating}
+        />
+      ))}
+    </div>
+  )
+}
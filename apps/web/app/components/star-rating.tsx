@@ -0,0 +1,121 @@
+import { cn } from "@my-library-app/ui"
+import { StarIcon } from "lucide-react"
+import { useState } from "react"
+
+import { RATING_RANGE } from "@/services/review-service"
+
+type StarRatingProps = {
+  /**
+   * Rating from 1 to 5 in half stars, or undefined when not rated
+   */
+  readonly value: number | undefined
+  /**
+   * Makes the rating editable
+   */
+  readonly onValueChange?: (value: number) => void
+  readonly className?: string
+}
+
+const STARS = Array.from({ length: RATING_RANGE.MAX }, (_, index) => index + 1)
+
+/**
+ * Formats a rating for screen readers and tooltips, e.g. "3.5 stars"
+ */
+const formatRating = (rating: number): string => `${rating} ${rating === 1 ? "star" : "stars"}`
+
+/**
+ * Five stars showing a rating in half stars, editable when `onValueChange` is given
+ *
+ * The editable stars behave as a slider: clicking the left or right half of a star picks a half or whole star, and
+ * arrow keys move by half stars.
+ */
+export const StarRating = ({ value, onValueChange, className }: StarRatingProps) => {
+  const [hoverValue, setHoverValue] = useState<number>()
+  const shownValue = hoverValue ?? value ?? 0
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>): void => {
+    if (!onValueChange) return
+
+    const steps: Partial<Record<string, number>> = {
+      ArrowRight: RATING_RANGE.STEP,
+      ArrowUp: RATING_RANGE.STEP,
+      ArrowLeft: -RATING_RANGE.STEP,
+      ArrowDown: -RATING_RANGE.STEP,
+    }
+    const step = steps[e.key]
+    if (e.key === "Home" || e.key === "End") {
+      e.preventDefault()
+      onValueChange(e.key === "Home" ? RATING_RANGE.MIN : RATING_RANGE.MAX)
+    } else if (step !== undefined) {
+      e.preventDefault()
+      onValueChange(Math.min(RATING_RANGE.MAX, Math.max(RATING_RANGE.MIN, (value ?? 0) + step)))
+    }
+  }
+
+  const stars = STARS.map((star) => {
+    // Share of the star filled: none, half or whole
+    const fill = Math.min(1, Math.max(0, shownValue - star + 1))
+    // Halves of the star picking a half or whole star, the first star having no half as ratings start at one star
+    const targets =
+      star === RATING_RANGE.MIN
+        ? [{ rating: star, className: "inset-0" }]
+        : [
+            { rating: star - RATING_RANGE.STEP, className: "inset-y-0 left-0 w-1/2" },
+            { rating: star, className: "inset-y-0 right-0 w-1/2" },
+          ]
+
+    return (
+      <span key={star} className={cn("relative shrink-0", onValueChange ? "size-6" : "size-3")}>
+        <StarIcon className="text-muted-foreground/40 size-full" />
+        <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+          <StarIcon className="size-full fill-amber-400 text-amber-400" />
+        </span>
+        {onValueChange &&
+          targets.map(({ rating, className: targetClassName }) => (
+            <span
+              key={rating}
+              aria-hidden
+              className={cn("absolute cursor-pointer", targetClassName)}
+              onMouseEnter={() => setHoverValue(rating)}
+              onClick={() => onValueChange(rating)}
+            />
+          ))}
+      </span>
+    )
+  })
+
+  if (!onValueChange) {
+    if (value === undefined) return null
+
+    return (
+      <span
+        role="img"
+        aria-label={`Rated ${formatRating(value)}`}
+        title={`Rated ${formatRating(value)}`}
+        className={cn("inline-flex gap-px", className)}
+      >
+        {stars}
+      </span>
+    )
+  }
+
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label="Rating"
+      aria-valuemin={RATING_RANGE.MIN}
+      aria-valuemax={RATING_RANGE.MAX}
+      aria-valuenow={value}
+      aria-valuetext={value === undefined ? "Not rated" : formatRating(value)}
+      onKeyDown={handleKeyDown}
+      onMouseLeave={() => setHoverValue(undefined)}
+      className={cn(
+        "focus-visible:ring-ring/30 inline-flex gap-0.5 rounded-sm outline-none focus-visible:ring-2",
+        className,
+      )}
+    >
+      {stars}
+    </div>
+  )
+}
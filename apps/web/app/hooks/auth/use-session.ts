@@ -1,5 +1,7 @@
+import type { AppError } from "@my-library-app/errors"
 import type { Session } from "@supabase/supabase-js"
 
+import { toQueryFn } from "@my-library-app/result"
 import { useQuery } from "@tanstack/react-query"
 
 import { authService } from "../../services/auth-service"
@@ -9,7 +11,7 @@ interface UseSessionReturn {
   readonly session: Session | null | undefined
   readonly isLoading: boolean
   readonly isError: boolean
-  readonly error: Error | null
+  readonly error: AppError | null
   readonly isAuthenticated: boolean
 }
 
@@ -32,15 +34,10 @@ export const useSession = (): UseSessionReturn => {
     isLoading,
     isError,
     error,
-  } = useQuery<Session | null, Error>({
+  } = useQuery<Session | null, AppError>({
     queryKey: authQueryKeys.session(),
-    queryFn: async () => {
-      const result = await authService.getSession()
-      if (!result.ok) throw result.error
-      return result.value
-    },
+    queryFn: toQueryFn(() => authService.getSession()),
     staleTime: 1000 * 60 * 5, // 5 minutes
-    retry: 1,
   })
 
   return {
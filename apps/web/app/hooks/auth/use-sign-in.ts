@@ -1,5 +1,7 @@
+import type { AppError } from "@my-library-app/errors"
 import type { Provider } from "@supabase/supabase-js"
 
+import { toQueryFn } from "@my-library-app/result"
 import { useMutation, useQueryClient } from "@tanstack/react-query"
 import { toast } from "sonner"
 
@@ -15,7 +17,7 @@ interface UseSignInReturn {
   readonly signIn: (options: SignInOptions) => void
   readonly isSigningIn: boolean
   readonly isError: boolean
-  readonly error: Error | null
+  readonly error: AppError | null
 }
 
 /**
@@ -41,12 +43,12 @@ export const useSignIn = (): UseSignInReturn => {
   const queryClient = useQueryClient()
 
   const { mutate, isPending, isError, error } = useMutation({
-    mutationFn: authService.signInWithOAuth,
+    mutationFn: toQueryFn((options: SignInOptions) => authService.signInWithOAuth(options)),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: authQueryKeys.sessions() })
       queryClient.invalidateQueries({ queryKey: authQueryKeys.users() })
     },
-    onError: (error: Error) => {
+    onError: (error: AppError) => {
       toast.error(error.message)
     },
   })
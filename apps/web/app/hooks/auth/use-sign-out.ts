@@ -1,20 +1,24 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
 import { useMutation, useQueryClient } from "@tanstack/react-query"
 import { toast } from "sonner"
 
 import { authService } from "../../services/auth-service"
+import { offlineService } from "../../services/offline-service"
 import { authQueryKeys } from "./auth-query-keys"
 
 interface UseSignOutReturn {
   readonly signOut: () => void
   readonly isSigningOut: boolean
   readonly isError: boolean
-  readonly error: Error | null
+  readonly error: AppError | null
 }
 
 /**
  * Provides sign-out functionality
  *
- * Automatically clears auth cache on success and redirects to home page
+ * Automatically clears auth cache and the books saved for offline use on success, and redirects to home page
  *
  * @example
  * ```tsx
@@ -30,14 +34,15 @@ interface UseSignOutReturn {
 export const useSignOut = (): UseSignOutReturn => {
   const queryClient = useQueryClient()
 
-  const { mutate, isPending, isError, error } = useMutation({
-    mutationFn: authService.signOut,
+  const { mutate, isPending, isError, error } = useMutation<void, AppError, void>({
+    mutationFn: toQueryFn(() => authService.signOut()),
     onSuccess: () => {
       queryClient.setQueryData(authQueryKeys.session(), null)
       queryClient.setQueryData(authQueryKeys.user(), null)
+      offlineService.clearLibraryCache()
       window.location.href = "/"
     },
-    onError: (error: Error) => {
+    onError: (error: AppError) => {
       toast.error(error.message)
     },
   })
@@ -1,5 +1,7 @@
+import type { AppError } from "@my-library-app/errors"
 import type { User } from "@supabase/supabase-js"
 
+import { toQueryFn } from "@my-library-app/result"
 import { useQuery } from "@tanstack/react-query"
 
 import { authService } from "../../services/auth-service"
@@ -9,7 +11,7 @@ interface UseUserReturn {
   readonly user: User | null | undefined
   readonly isLoading: boolean
   readonly isError: boolean
-  readonly error: Error | null
+  readonly error: AppError | null
 }
 
 /**
@@ -31,15 +33,10 @@ export const useUser = (): UseUserReturn => {
     isLoading,
     isError,
     error,
-  } = useQuery<User | null, Error>({
+  } = useQuery<User | null, AppError>({
     queryKey: authQueryKeys.user(),
-    queryFn: async () => {
-      const result = await authService.getUser()
-      if (!result.ok) throw result.error
-      return result.value
-    },
+    queryFn: toQueryFn(() => authService.getUser()),
     staleTime: 1000 * 60 * 5, // 5 minutes
-    retry: 1,
   })
 
   return {
@@ -1,7 +1,13 @@
 export { useAuth } from "./use-auth"
+export { useBarcodeScanner } from "./use-barcode-scanner"
 export { useBookSearch } from "./use-book-search"
 export { useBookSearchByAuthor } from "./use-book-search-by-author"
 export { useBookSearchByIsbn } from "./use-book-search-by-isbn"
 export { useBookSearchByTitle } from "./use-book-search-by-title"
+export { useBookSuggestions } from "./use-book-suggestions"
+export { useDebouncedValue } from "./use-debounced-value"
+export { useInfiniteAuthorWorks } from "./use-infinite-author-works"
 export { useInfiniteBooksByTitle } from "./use-infinite-books-by-title"
 export { useInfiniteScroll } from "./use-infinite-scroll"
+export { useInfiniteSubjectWorks } from "./use-infinite-subject-works"
+export { useOnlineStatus } from "./use-online-status"
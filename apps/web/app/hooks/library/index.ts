@@ -0,0 +1,35 @@
+/**
+ * Library hooks module
+ *
+ * Provides a set of composable hooks for managing the user's shelves, reading sessions, reading goals, reviews and notes
+ *
+ * @module library
+ */
+
+export { libraryQueryKeys } from "./library-query-keys"
+export { useAddToShelf } from "./use-add-to-shelf"
+export { useBookNotes } from "./use-book-notes"
+export { useBookReviews } from "./use-book-reviews"
+export { useBookShelfIds } from "./use-book-shelf-ids"
+export { useCreateNote } from "./use-create-note"
+export { useCreateReadingChallenge } from "./use-create-reading-challenge"
+export { useCreateShelf } from "./use-create-shelf"
+export { useDeleteNote } from "./use-delete-note"
+export { useDeleteReadingChallenge } from "./use-delete-reading-challenge"
+export { useDeleteReadingSession } from "./use-delete-reading-session"
+export { useDeleteReview } from "./use-delete-review"
+export { useDeleteShelf } from "./use-delete-shelf"
+export { useImportBooks } from "./use-import-books"
+export { type ImportRowMatch, useImportMatches } from "./use-import-matches"
+export { useLogReadingSession } from "./use-log-reading-session"
+export { useNoteSearch } from "./use-note-search"
+export { useReadingChallenges } from "./use-reading-challenges"
+export { useReadingGoal } from "./use-reading-goal"
+export { useReadingHistory } from "./use-reading-history"
+export { useReadingSessions } from "./use-reading-sessions"
+export { useRemoveFromShelf } from "./use-remove-from-shelf"
+export { useSaveReview } from "./use-save-review"
+export { useSetReadingGoal } from "./use-set-reading-goal"
+export { useShelfBooks } from "./use-shelf-books"
+export { useShelves } from "./use-shelves"
+export { useUpdateNote } from "./use-update-note"
@@ -0,0 +1,22 @@
+/**
+ * Centralized query key factory for library-related queries
+ *
+ * Every key is nested under `library` so a single invalidation refreshes all shelf data
+ */
+export const libraryQueryKeys = {
+  all: ["library"] as const,
+  shelves: () => [...libraryQueryKeys.all, "shelves"] as const,
+  shelf: (shelfId: string) => [...libraryQueryKeys.shelves(), shelfId] as const,
+  shelfBooks: (shelfId: string) => [...libraryQueryKeys.shelf(shelfId), "books"] as const,
+  books: () => [...libraryQueryKeys.all, "books"] as const,
+  bookShelves: (bookId: string) => [...libraryQueryKeys.books(), bookId, "shelves"] as const,
+  readingSessions: (bookIds: readonly string[]) => [...libraryQueryKeys.all, "reading-sessions", ...bookIds] as const,
+  readingHistory: () => [...libraryQueryKeys.all, "reading-history"] as const,
+  readingGoal: (year: number) => [...libraryQueryKeys.all, "reading-goal", year] as const,
+  readingChallenges: (year: number) => [...libraryQueryKeys.all, "reading-challenges", year] as const,
+  reviews: () => [...libraryQueryKeys.all, "reviews"] as const,
+  notes: () => [...libraryQueryKeys.all, "notes"] as const,
+  bookNotes: (bookId: string) => [...libraryQueryKeys.notes(), "book", bookId] as const,
+  noteSearch: (query: string, maxResults?: number) =>
+    [...libraryQueryKeys.notes(), "search", query, maxResults] as const,
+}
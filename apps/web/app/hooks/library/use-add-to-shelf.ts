@@ -0,0 +1,46 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { libraryService, type AddBookToShelfOptions, type ShelfBook } from "../../services/library-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseAddToShelfReturn {
+  readonly addToShelf: (options: AddBookToShelfOptions) => void
+  readonly isAdding: boolean
+}
+
+/**
+ * Provides adding books to shelves
+ *
+ * Invalidates all library queries on success, since adding to a status shelf can move the book
+ * out of other shelves
+ *
+ * @example
+ * ```tsx
+ * const { addToShelf } = useAddToShelf()
+ *
+ * return <button onClick={() => addToShelf({ shelf, volume: book })}>Add to {shelf.name}</button>
+ * ```
+ */
+export const useAddToShelf = (): UseAddToShelfReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation<ShelfBook, AppError, AddBookToShelfOptions>({
+    mutationFn: toQueryFn(libraryService.addBookToShelf),
+    onSuccess: (_shelfBook, { shelf, volume }) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+      toast.success(`Added "${volume.volumeInfo.title}" to ${shelf.name}`)
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    addToShelf: mutate,
+    isAdding: isPending,
+  }
+}
@@ -0,0 +1,47 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import { type BookNote, noteService } from "../../services/note-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseBookNotesOptions {
+  readonly bookId: string
+  readonly enabled?: boolean
+}
+
+interface UseBookNotesReturn {
+  /**
+   * Notes of the book, in reading order
+   */
+  readonly notes: readonly BookNote[]
+  readonly isLoading: boolean
+  readonly error: AppError | null
+}
+
+/**
+ * Fetches and caches the quotes and notes of a book
+ *
+ * @example
+ * ```tsx
+ * const { notes } = useBookNotes({ bookId: work.id })
+ *
+ * return notes.map((note) => <p key={note.id}>{note.content}</p>)
+ * ```
+ */
+export const useBookNotes = (options: UseBookNotesOptions): UseBookNotesReturn => {
+  const { bookId, enabled } = options
+
+  const { data, isLoading, error } = useQuery<BookNote[], AppError>({
+    queryKey: libraryQueryKeys.bookNotes(bookId),
+    queryFn: toQueryFn(() => noteService.getBookNotes(bookId)),
+    enabled,
+  })
+
+  return {
+    notes: data ?? [],
+    isLoading,
+    error: error ?? null,
+  }
+}
@@ -0,0 +1,50 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import { type BookReview, reviewService } from "../../services/review-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseBookReviewsOptions {
+  readonly enabled?: boolean
+}
+
+interface UseBookReviewsReturn {
+  readonly reviews: readonly BookReview[]
+  /**
+   * Reviews by book ID
+   */
+  readonly reviewsByBook: ReadonlyMap<string, BookReview>
+  readonly isLoading: boolean
+  readonly error: AppError | null
+}
+
+/**
+ * Fetches and caches all the user's ratings and reviews
+ *
+ * Every book shares the same query, so showing ratings on a whole shelf costs a single request.
+ *
+ * @example
+ * ```tsx
+ * const { reviewsByBook } = useBookReviews()
+ *
+ * return <BookCard book={book.volume} rating={reviewsByBook.get(book.bookId)?.rating} />
+ * ```
+ */
+export const useBookReviews = (options: UseBookReviewsOptions = {}): UseBookReviewsReturn => {
+  const { data, isLoading, error } = useQuery<BookReview[], AppError>({
+    queryKey: libraryQueryKeys.reviews(),
+    queryFn: toQueryFn(reviewService.getReviews),
+    enabled: options.enabled,
+  })
+
+  const reviews = data ?? []
+
+  return {
+    reviews,
+    reviewsByBook: new Map(reviews.map((review) => [review.bookId, review])),
+    isLoading,
+    error: error ?? null,
+  }
+}
@@ -0,0 +1,42 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import { libraryService } from "../../services/library-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseBookShelfIdsOptions {
+  readonly bookId: string
+  readonly enabled?: boolean
+}
+
+interface UseBookShelfIdsReturn {
+  readonly shelfIds: readonly string[]
+  readonly isLoading: boolean
+}
+
+/**
+ * Fetches the IDs of the shelves a book is on
+ *
+ * @example
+ * ```tsx
+ * const { shelfIds } = useBookShelfIds({ bookId: book.id, enabled: isMenuOpen })
+ *
+ * const isOnShelf = shelfIds.includes(shelf.id)
+ * ```
+ */
+export const useBookShelfIds = (options: UseBookShelfIdsOptions): UseBookShelfIdsReturn => {
+  const { bookId, enabled } = options
+
+  const { data, isLoading } = useQuery<string[], AppError>({
+    queryKey: libraryQueryKeys.bookShelves(bookId),
+    queryFn: toQueryFn(() => libraryService.getBookShelfIds(bookId)),
+    enabled: enabled !== false,
+  })
+
+  return {
+    shelfIds: data ?? [],
+    isLoading,
+  }
+}
@@ -0,0 +1,47 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { type BookNote, type CreateBookNoteOptions, noteService } from "../../services/note-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseCreateNoteOptions {
+  readonly onSuccess?: (note: BookNote) => void
+}
+
+interface UseCreateNoteReturn {
+  readonly createNote: (options: CreateBookNoteOptions) => void
+  readonly isCreating: boolean
+}
+
+/**
+ * Provides taking a quote or note on a book
+ *
+ * @example
+ * ```tsx
+ * const { createNote } = useCreateNote()
+ *
+ * createNote({ bookId: work.id, bookTitle: work.title, kind: "quote", content: "Call me Ishmael.", page: 1, tags: [] })
+ * ```
+ */
+export const useCreateNote = (options: UseCreateNoteOptions = {}): UseCreateNoteReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation<BookNote, AppError, CreateBookNoteOptions>({
+    mutationFn: toQueryFn(noteService.createNote),
+    onSuccess: (note) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+      options.onSuccess?.(note)
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    createNote: mutate,
+    isCreating: isPending,
+  }
+}
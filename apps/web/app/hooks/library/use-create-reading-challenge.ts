@@ -0,0 +1,49 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { type CreateReadingChallengeOptions, goalService, type ReadingChallenge } from "../../services/goal-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseCreateReadingChallengeOptions {
+  readonly onSuccess?: (challenge: ReadingChallenge) => void
+}
+
+interface UseCreateReadingChallengeReturn {
+  readonly createChallenge: (options: CreateReadingChallengeOptions) => void
+  readonly isCreating: boolean
+}
+
+/**
+ * Provides creating reading challenges
+ *
+ * @example
+ * ```tsx
+ * const { createChallenge } = useCreateReadingChallenge()
+ *
+ * createChallenge({ year: 2026, criterion: "language", value: "spa", target: 5 })
+ * ```
+ */
+export const useCreateReadingChallenge = (
+  options: UseCreateReadingChallengeOptions = {},
+): UseCreateReadingChallengeReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation<ReadingChallenge, AppError, CreateReadingChallengeOptions>({
+    mutationFn: toQueryFn(goalService.createChallenge),
+    onSuccess: (challenge) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+      options.onSuccess?.(challenge)
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    createChallenge: mutate,
+    isCreating: isPending,
+  }
+}
@@ -0,0 +1,43 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { libraryService, type Shelf } from "../../services/library-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseCreateShelfReturn {
+  readonly createShelf: (name: string) => void
+  readonly isCreating: boolean
+}
+
+/**
+ * Provides creation of custom shelves
+ *
+ * @example
+ * ```tsx
+ * const { createShelf, isCreating } = useCreateShelf()
+ *
+ * return <button onClick={() => createShelf("Favourites")} disabled={isCreating}>Create</button>
+ * ```
+ */
+export const useCreateShelf = (): UseCreateShelfReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation<Shelf, AppError, string>({
+    mutationFn: toQueryFn((name: string) => libraryService.createShelf(name)),
+    onSuccess: (shelf) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.shelves() })
+      toast.success(`Created shelf "${shelf.name}"`)
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    createShelf: mutate,
+    isCreating: isPending,
+  }
+}
@@ -0,0 +1,43 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { noteService } from "../../services/note-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseDeleteNoteReturn {
+  readonly deleteNote: (noteId: string) => void
+  readonly isDeleting: boolean
+}
+
+/**
+ * Provides deletion of a quote or note
+ *
+ * @example
+ * ```tsx
+ * const { deleteNote } = useDeleteNote()
+ *
+ * return <button onClick={() => deleteNote(note.id)}>Delete note</button>
+ * ```
+ */
+export const useDeleteNote = (): UseDeleteNoteReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: toQueryFn((noteId: string) => noteService.deleteNote(noteId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+      toast.success("Note deleted")
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    deleteNote: mutate,
+    isDeleting: isPending,
+  }
+}
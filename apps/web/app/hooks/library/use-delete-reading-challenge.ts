@@ -0,0 +1,42 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { goalService } from "../../services/goal-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseDeleteReadingChallengeReturn {
+  readonly deleteChallenge: (challengeId: string) => void
+  readonly isDeleting: boolean
+}
+
+/**
+ * Provides deletion of reading challenges
+ *
+ * @example
+ * ```tsx
+ * const { deleteChallenge } = useDeleteReadingChallenge()
+ *
+ * return <button onClick={() => deleteChallenge(challenge.id)}>Delete</button>
+ * ```
+ */
+export const useDeleteReadingChallenge = (): UseDeleteReadingChallengeReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: toQueryFn((challengeId: string) => goalService.deleteChallenge(challengeId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    deleteChallenge: mutate,
+    isDeleting: isPending,
+  }
+}
@@ -0,0 +1,42 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { readingService } from "../../services/reading-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseDeleteReadingSessionReturn {
+  readonly deleteSession: (sessionId: string) => void
+  readonly isDeleting: boolean
+}
+
+/**
+ * Provides deletion of reading sessions, e.g. to correct a mistyped page
+ *
+ * @example
+ * ```tsx
+ * const { deleteSession } = useDeleteReadingSession()
+ *
+ * return <button onClick={() => deleteSession(session.id)}>Delete</button>
+ * ```
+ */
+export const useDeleteReadingSession = (): UseDeleteReadingSessionReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: toQueryFn((sessionId: string) => readingService.deleteSession(sessionId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    deleteSession: mutate,
+    isDeleting: isPending,
+  }
+}
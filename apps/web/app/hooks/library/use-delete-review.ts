@@ -0,0 +1,43 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { reviewService } from "../../services/review-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseDeleteReviewReturn {
+  readonly deleteReview: (bookId: string) => void
+  readonly isDeleting: boolean
+}
+
+/**
+ * Provides deletion of the rating and review of a book
+ *
+ * @example
+ * ```tsx
+ * const { deleteReview } = useDeleteReview()
+ *
+ * return <button onClick={() => deleteReview(work.id)}>Delete review</button>
+ * ```
+ */
+export const useDeleteReview = (): UseDeleteReviewReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: toQueryFn((bookId: string) => reviewService.deleteReview(bookId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+      toast.success("Review deleted")
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    deleteReview: mutate,
+    isDeleting: isPending,
+  }
+}
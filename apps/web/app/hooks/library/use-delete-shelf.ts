@@ -0,0 +1,44 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { libraryService } from "../../services/library-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseDeleteShelfReturn {
+  readonly deleteShelf: (shelfId: string) => void
+  readonly isDeleting: boolean
+}
+
+/**
+ * Provides deletion of custom shelves
+ *
+ * Status shelves cannot be deleted
+ *
+ * @example
+ * ```tsx
+ * const { deleteShelf } = useDeleteShelf()
+ *
+ * return <button onClick={() => deleteShelf(shelf.id)}>Delete</button>
+ * ```
+ */
+export const useDeleteShelf = (): UseDeleteShelfReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: toQueryFn((shelfId: string) => libraryService.deleteShelf(shelfId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    deleteShelf: mutate,
+    isDeleting: isPending,
+  }
+}
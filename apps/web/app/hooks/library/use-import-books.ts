@@ -0,0 +1,57 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { type ConfirmedImport, type ImportSummary, libraryImportService } from "../../services/library-import-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseImportBooksOptions {
+  readonly onSuccess?: (summary: ImportSummary) => void
+}
+
+interface UseImportBooksReturn {
+  readonly importBooks: (imports: readonly ConfirmedImport[]) => void
+  readonly isImporting: boolean
+  readonly summary: ImportSummary | undefined
+}
+
+/**
+ * Provides adding imported books to the user's shelves
+ *
+ * Invalidates all library queries once done, since the import can create shelves and move books between them
+ *
+ * @example
+ * ```tsx
+ * const { importBooks, isImporting } = useImportBooks()
+ *
+ * return <button onClick={() => importBooks(confirmed)} disabled={isImporting}>Import</button>
+ * ```
+ */
+export const useImportBooks = (options: UseImportBooksOptions = {}): UseImportBooksReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending, data } = useMutation<ImportSummary, AppError, readonly ConfirmedImport[]>({
+    mutationFn: toQueryFn((imports: readonly ConfirmedImport[]) => libraryImportService.importBooks(imports)),
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+
+      if (summary.failed.length > 0) {
+        toast.warning(`Imported ${summary.imported} books, ${summary.failed.length} could not be fully saved`)
+      } else {
+        toast.success(`Imported ${summary.imported} books`)
+      }
+      options.onSuccess?.(summary)
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    importBooks: mutate,
+    isImporting: isPending,
+    summary: data,
+  }
+}
@@ -0,0 +1,69 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQueries } from "@tanstack/react-query"
+
+import { type ImportMatch, type ImportRow, libraryImportService } from "../../services/library-import-service"
+
+/**
+ * Match state of an import row
+ */
+export interface ImportRowMatch {
+  readonly row: ImportRow
+  /**
+   * Matched work, or undefined while matching, when matching failed or when no work is close enough
+   */
+  readonly match: ImportMatch | undefined
+  readonly isLoading: boolean
+  readonly error: AppError | null
+}
+
+interface UseImportMatchesReturn {
+  readonly matches: readonly ImportRowMatch[]
+  /**
+   * Number of rows whose matching has finished, successfully or not
+   */
+  readonly completed: number
+  readonly isLoading: boolean
+}
+
+/**
+ * Matches every row of an import to an Open Library work
+ *
+ * Rows are matched in parallel; the book providers' request pipeline keeps the requests within the API rate limits.
+ * Matches never go stale, so going back to a previous import does not search again.
+ *
+ * @example
+ * ```tsx
+ * const { matches, completed } = useImportMatches(file.rows)
+ *
+ * return <Progress value={(completed / matches.length) * 100} />
+ * ```
+ */
+export const useImportMatches = (rows: readonly ImportRow[]): UseImportMatchesReturn => {
+  const results = useQueries({
+    queries: rows.map((row) => ({
+      queryKey: ["books", "import-match", row.isbn, row.title, row.author],
+      queryFn: toQueryFn(({ signal }: { readonly signal: AbortSignal }) =>
+        libraryImportService.matchRow(row, { signal }),
+      ),
+      staleTime: Infinity,
+    })),
+  })
+
+  const matches = results.map(
+    (result, index): ImportRowMatch => ({
+      row: rows[index],
+      match: result.data ?? undefined,
+      isLoading: result.isLoading,
+      error: result.error ?? null,
+    }),
+  )
+  const completed = matches.filter((match) => !match.isLoading).length
+
+  return {
+    matches,
+    completed,
+    isLoading: completed < matches.length,
+  }
+}
@@ -0,0 +1,48 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { type LogReadingSessionOptions, type ReadingSession, readingService } from "../../services/reading-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseLogReadingSessionOptions {
+  readonly onSuccess?: (session: ReadingSession) => void
+}
+
+interface UseLogReadingSessionReturn {
+  readonly logSession: (options: LogReadingSessionOptions) => void
+  readonly isLogging: boolean
+}
+
+/**
+ * Provides logging reading sessions
+ *
+ * @example
+ * ```tsx
+ * const { logSession } = useLogReadingSession()
+ *
+ * logSession({ bookId, startPage: 10, endPage: 42, pageCount: 320, minutes: 45, readOn: "2026-10-18" })
+ * ```
+ */
+export const useLogReadingSession = (options: UseLogReadingSessionOptions = {}): UseLogReadingSessionReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation<ReadingSession, AppError, LogReadingSessionOptions>({
+    mutationFn: toQueryFn(readingService.logSession),
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+      toast.success(`Logged pages ${session.startPage}–${session.endPage}`)
+      options.onSuccess?.(session)
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    logSession: mutate,
+    isLogging: isPending,
+  }
+}
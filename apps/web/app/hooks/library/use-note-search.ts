@@ -0,0 +1,53 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+
+import { type BookNote, noteService } from "../../services/note-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseNoteSearchOptions {
+  /**
+   * Words to find in the text and tags of notes, all notes when blank
+   */
+  readonly query: string
+  readonly maxResults?: number
+  readonly enabled?: boolean
+}
+
+interface UseNoteSearchReturn {
+  /**
+   * Matching notes, most recent first
+   */
+  readonly notes: readonly BookNote[]
+  readonly isLoading: boolean
+  readonly error: AppError | null
+}
+
+/**
+ * Searches all the user's quotes and notes
+ *
+ * Previous results stay shown while the next query loads, so results do not flicker as the user types.
+ *
+ * @example
+ * ```tsx
+ * const { notes } = useNoteSearch({ query: debouncedQuery, maxResults: 5 })
+ * ```
+ */
+export const useNoteSearch = (options: UseNoteSearchOptions): UseNoteSearchReturn => {
+  const { query, maxResults, enabled } = options
+  const trimmedQuery = query.trim()
+
+  const { data, isLoading, error } = useQuery<BookNote[], AppError>({
+    queryKey: libraryQueryKeys.noteSearch(trimmedQuery, maxResults),
+    queryFn: toQueryFn(() => noteService.searchNotes({ query: trimmedQuery, maxResults })),
+    placeholderData: keepPreviousData,
+    enabled,
+  })
+
+  return {
+    notes: data ?? [],
+    isLoading,
+    error: error ?? null,
+  }
+}
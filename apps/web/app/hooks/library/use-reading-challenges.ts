@@ -0,0 +1,36 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import { goalService, type ReadingChallenge } from "../../services/goal-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseReadingChallengesReturn {
+  readonly challenges: readonly ReadingChallenge[]
+  readonly isLoading: boolean
+  readonly error: AppError | null
+}
+
+/**
+ * Fetches and caches the reading challenges of a year
+ *
+ * @example
+ * ```tsx
+ * const { challenges } = useReadingChallenges(2026)
+ *
+ * return challenges.map((challenge) => <ChallengeRow key={challenge.id} challenge={challenge} />)
+ * ```
+ */
+export const useReadingChallenges = (year: number): UseReadingChallengesReturn => {
+  const { data, isLoading, error } = useQuery<ReadingChallenge[], AppError>({
+    queryKey: libraryQueryKeys.readingChallenges(year),
+    queryFn: toQueryFn(() => goalService.getChallenges(year)),
+  })
+
+  return {
+    challenges: data ?? [],
+    isLoading,
+    error: error ?? null,
+  }
+}
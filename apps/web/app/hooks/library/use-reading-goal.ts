@@ -0,0 +1,39 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import { goalService, type ReadingGoal } from "../../services/goal-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseReadingGoalReturn {
+  /**
+   * Goal of the year, or undefined when none is set
+   */
+  readonly goal: ReadingGoal | undefined
+  readonly isLoading: boolean
+  readonly error: AppError | null
+}
+
+/**
+ * Fetches and caches the reading goal of a year
+ *
+ * @example
+ * ```tsx
+ * const { goal } = useReadingGoal(2026)
+ *
+ * return goal && <p>{goal.target} {goal.unit} in {goal.year}</p>
+ * ```
+ */
+export const useReadingGoal = (year: number): UseReadingGoalReturn => {
+  const { data, isLoading, error } = useQuery<ReadingGoal | undefined, AppError>({
+    queryKey: libraryQueryKeys.readingGoal(year),
+    queryFn: toQueryFn(() => goalService.getGoal(year)),
+  })
+
+  return {
+    goal: data,
+    isLoading,
+    error: error ?? null,
+  }
+}
@@ -0,0 +1,43 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import { type ReadingSession, readingService } from "../../services/reading-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseReadingHistoryOptions {
+  readonly enabled?: boolean
+}
+
+interface UseReadingHistoryReturn {
+  readonly sessions: readonly ReadingSession[]
+  readonly isLoading: boolean
+  readonly error: AppError | null
+}
+
+/**
+ * Fetches all the user's reading sessions, whatever shelf their books are on
+ *
+ * Statistics and goals use them to tell when pages were read and when books were finished.
+ *
+ * @example
+ * ```tsx
+ * const { sessions } = useReadingHistory()
+ *
+ * const stats = computeReadingStats(books, sessions, year)
+ * ```
+ */
+export const useReadingHistory = (options: UseReadingHistoryOptions = {}): UseReadingHistoryReturn => {
+  const { data, isLoading, error } = useQuery<ReadingSession[], AppError>({
+    queryKey: libraryQueryKeys.readingHistory(),
+    queryFn: toQueryFn(readingService.getAllSessions),
+    enabled: options.enabled,
+  })
+
+  return {
+    sessions: data ?? [],
+    isLoading,
+    error: error ?? null,
+  }
+}
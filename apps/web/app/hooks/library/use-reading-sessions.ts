@@ -0,0 +1,63 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import {
+  computeReadingProgress,
+  type ReadingProgress,
+  type ReadingSession,
+  readingService,
+} from "../../services/reading-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseReadingSessionsOptions {
+  readonly bookIds: readonly string[]
+  readonly enabled?: boolean
+}
+
+interface UseReadingSessionsReturn {
+  readonly sessions: readonly ReadingSession[]
+  /**
+   * Progress of each book with at least one session, by book ID
+   */
+  readonly progressByBook: ReadonlyMap<string, ReadingProgress>
+  readonly isLoading: boolean
+  readonly error: AppError | null
+}
+
+/**
+ * Fetches the reading sessions of some books and computes their progress
+ *
+ * Sessions of several books are fetched in a single request, so a whole shelf can show its progress.
+ *
+ * @example
+ * ```tsx
+ * const { progressByBook } = useReadingSessions({ bookIds: books.map((book) => book.bookId) })
+ *
+ * return books.map((book) => <BookCard key={book.id} book={book.volume} progress={progressByBook.get(book.bookId)} />)
+ * ```
+ */
+export const useReadingSessions = (options: UseReadingSessionsOptions): UseReadingSessionsReturn => {
+  const { bookIds, enabled } = options
+
+  const { data, isLoading, error } = useQuery<ReadingSession[], AppError>({
+    queryKey: libraryQueryKeys.readingSessions(bookIds),
+    queryFn: toQueryFn(() => readingService.getSessions(bookIds)),
+    enabled: enabled !== false && bookIds.length > 0,
+  })
+
+  const sessions = data ?? []
+  const progressByBook = new Map<string, ReadingProgress>()
+  for (const bookId of new Set(sessions.map((session) => session.bookId))) {
+    const progress = computeReadingProgress(sessions.filter((session) => session.bookId === bookId))
+    if (progress) progressByBook.set(bookId, progress)
+  }
+
+  return {
+    sessions,
+    progressByBook,
+    isLoading,
+    error: error ?? null,
+  }
+}
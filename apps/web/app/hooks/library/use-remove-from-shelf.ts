@@ -0,0 +1,43 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { libraryService, type RemoveBookFromShelfOptions } from "../../services/library-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseRemoveFromShelfReturn {
+  readonly removeFromShelf: (options: RemoveBookFromShelfOptions) => void
+  readonly isRemoving: boolean
+}
+
+/**
+ * Provides removing books from shelves
+ *
+ * @example
+ * ```tsx
+ * const { removeFromShelf } = useRemoveFromShelf()
+ *
+ * return <button onClick={() => removeFromShelf({ shelfId: shelf.id, bookId: book.id })}>Remove</button>
+ * ```
+ */
+export const useRemoveFromShelf = (): UseRemoveFromShelfReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation<void, AppError, RemoveBookFromShelfOptions>({
+    mutationFn: toQueryFn(libraryService.removeBookFromShelf),
+    onSuccess: (_value, { shelfId, bookId }) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.shelfBooks(shelfId) })
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.bookShelves(bookId) })
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    removeFromShelf: mutate,
+    isRemoving: isPending,
+  }
+}
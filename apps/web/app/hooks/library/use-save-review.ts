@@ -0,0 +1,47 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { type BookReview, reviewService, type SaveBookReviewOptions } from "../../services/review-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseSaveReviewOptions {
+  readonly onSuccess?: (review: BookReview) => void
+}
+
+interface UseSaveReviewReturn {
+  readonly saveReview: (options: SaveBookReviewOptions) => void
+  readonly isSaving: boolean
+}
+
+/**
+ * Provides saving the rating and review of a book
+ *
+ * @example
+ * ```tsx
+ * const { saveReview } = useSaveReview()
+ *
+ * saveReview({ bookId: work.id, rating: 4.5, review: "A **great** read." })
+ * ```
+ */
+export const useSaveReview = (options: UseSaveReviewOptions = {}): UseSaveReviewReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation<BookReview, AppError, SaveBookReviewOptions>({
+    mutationFn: toQueryFn(reviewService.saveReview),
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+      options.onSuccess?.(review)
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    saveReview: mutate,
+    isSaving: isPending,
+  }
+}
@@ -0,0 +1,48 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { goalService, type ReadingGoal, type SetReadingGoalOptions } from "../../services/goal-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseSetReadingGoalOptions {
+  readonly onSuccess?: (goal: ReadingGoal) => void
+}
+
+interface UseSetReadingGoalReturn {
+  readonly setGoal: (options: SetReadingGoalOptions) => void
+  readonly isSetting: boolean
+}
+
+/**
+ * Provides setting the reading goal of a year
+ *
+ * @example
+ * ```tsx
+ * const { setGoal } = useSetReadingGoal()
+ *
+ * setGoal({ year: 2026, unit: "books", target: 24 })
+ * ```
+ */
+export const useSetReadingGoal = (options: UseSetReadingGoalOptions = {}): UseSetReadingGoalReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation<ReadingGoal, AppError, SetReadingGoalOptions>({
+    mutationFn: toQueryFn(goalService.setGoal),
+    onSuccess: (goal) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+      toast.success(`Goal set to ${goal.target} ${goal.unit} in ${goal.year}`)
+      options.onSuccess?.(goal)
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    setGoal: mutate,
+    isSetting: isPending,
+  }
+}
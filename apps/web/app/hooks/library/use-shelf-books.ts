@@ -0,0 +1,43 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import { libraryService, type ShelfBook } from "../../services/library-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseShelfBooksReturn {
+  readonly books: readonly ShelfBook[]
+  readonly isLoading: boolean
+  readonly isError: boolean
+  readonly error: AppError | null
+}
+
+/**
+ * Fetches and caches the books on a shelf
+ *
+ * Books are rendered from their stored volume snapshot, so no Open Library request is made
+ *
+ * @example
+ * ```tsx
+ * const { books, isLoading } = useShelfBooks(shelf.id)
+ *
+ * return books.map((book) => <BookCard key={book.id} book={book.volume} />)
+ * ```
+ */
+export const useShelfBooks = (shelfId: string | undefined): UseShelfBooksReturn => {
+  const { data, isLoading, isError, error } = useQuery<ShelfBook[], AppError>({
+    queryKey: libraryQueryKeys.shelfBooks(shelfId ?? ""),
+    queryFn: toQueryFn(() => libraryService.getShelfBooks(shelfId ?? "")),
+    // Run offline too, so the service worker can serve the last saved response
+    networkMode: "offlineFirst",
+    enabled: shelfId !== undefined,
+  })
+
+  return {
+    books: data ?? [],
+    isLoading,
+    isError,
+    error: error ?? null,
+  }
+}
@@ -0,0 +1,49 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import { libraryService, type Shelf } from "../../services/library-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseShelvesOptions {
+  readonly enabled?: boolean
+}
+
+interface UseShelvesReturn {
+  readonly shelves: readonly Shelf[]
+  readonly isLoading: boolean
+  readonly isError: boolean
+  readonly error: AppError | null
+}
+
+/**
+ * Fetches and caches the current user's shelves
+ *
+ * Status shelves always come first, followed by custom shelves
+ *
+ * @example
+ * ```tsx
+ * const { shelves, isLoading } = useShelves()
+ *
+ * if (isLoading) return <Spinner />
+ *
+ * return shelves.map((shelf) => <ShelfTab key={shelf.id} shelf={shelf} />)
+ * ```
+ */
+export const useShelves = (options: UseShelvesOptions = {}): UseShelvesReturn => {
+  const { data, isLoading, isError, error } = useQuery<Shelf[], AppError>({
+    queryKey: libraryQueryKeys.shelves(),
+    queryFn: toQueryFn(() => libraryService.getShelves()),
+    // Run offline too, so the service worker can serve the last saved response
+    networkMode: "offlineFirst",
+    enabled: options.enabled !== false,
+  })
+
+  return {
+    shelves: data ?? [],
+    isLoading,
+    isError,
+    error: error ?? null,
+  }
+}
@@ -0,0 +1,47 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+
+import { type BookNote, noteService, type UpdateBookNoteOptions } from "../../services/note-service"
+import { libraryQueryKeys } from "./library-query-keys"
+
+interface UseUpdateNoteOptions {
+  readonly onSuccess?: (note: BookNote) => void
+}
+
+interface UseUpdateNoteReturn {
+  readonly updateNote: (options: UpdateBookNoteOptions) => void
+  readonly isUpdating: boolean
+}
+
+/**
+ * Provides editing a quote or note
+ *
+ * @example
+ * ```tsx
+ * const { updateNote } = useUpdateNote()
+ *
+ * updateNote({ id: note.id, kind: note.kind, content: "Call me Ishmael.", page: 1, tags: ["opening"] })
+ * ```
+ */
+export const useUpdateNote = (options: UseUpdateNoteOptions = {}): UseUpdateNoteReturn => {
+  const queryClient = useQueryClient()
+
+  const { mutate, isPending } = useMutation<BookNote, AppError, UpdateBookNoteOptions>({
+    mutationFn: toQueryFn(noteService.updateNote),
+    onSuccess: (note) => {
+      queryClient.invalidateQueries({ queryKey: libraryQueryKeys.all })
+      options.onSuccess?.(note)
+    },
+    onError: (error: AppError) => {
+      toast.error(error.message)
+    },
+  })
+
+  return {
+    updateNote: mutate,
+    isUpdating: isPending,
+  }
+}
@@ -0,0 +1,135 @@
+import { searchBookQueryOptionsSchema, type SearchBookQuery } from "@my-library-app/schemas"
+import { useSearchParams } from "react-router"
+
+/**
+ * URL search params holding the advanced search criteria
+ */
+export const ADVANCED_SEARCH_PARAMS = [
+  "title",
+  "author",
+  "subject",
+  "place",
+  "person",
+  "publisher",
+  "language",
+  "publish_year",
+  "first_publish_year_start",
+  "first_publish_year_end",
+] as const
+
+export type AdvancedSearchParam = (typeof ADVANCED_SEARCH_PARAMS)[number]
+
+/**
+ * Raw advanced search criteria as typed in the form, keyed by URL param
+ */
+export type AdvancedSearchDraft = Readonly<Partial<Record<AdvancedSearchParam, string>>>
+
+/**
+ * Text criteria, stored in the URL as typed
+ */
+const TEXT_CRITERIA = ["title", "author", "subject", "place", "person", "publisher"] as const
+
+/**
+ * Parses a year param, returning undefined when it is missing or not a whole number
+ */
+const parseYear = (value: string | null): number | undefined => {
+  if (!value || !/^\d+$/.test(value.trim())) return undefined
+
+  return Number.parseInt(value, 10)
+}
+
+/**
+ * Parses the advanced search criteria from URL search params
+ *
+ * Each criterion is validated on its own, so a single invalid param is dropped instead of discarding the whole search.
+ * An open-ended first publish year range is closed with year 0 or the current year.
+ */
+export const parseAdvancedSearchParams = (searchParams: URLSearchParams): SearchBookQuery => {
+  const { shape } = searchBookQueryOptionsSchema
+  const query: Record<string, unknown> = {}
+
+  for (const criterion of TEXT_CRITERIA) {
+    const result = shape[criterion].safeParse(searchParams.get(criterion)?.trim() || undefined)
+    if (result.success && result.data !== undefined) query[criterion] = result.data
+  }
+
+  const language = shape.language.safeParse(searchParams.get("language") ?? undefined)
+  if (language.success && language.data !== undefined) query.language = language.data
+
+  const publishYear = shape.publish_year.safeParse(parseYear(searchParams.get("publish_year")))
+  if (publishYear.success && publishYear.data !== undefined) query.publish_year = publishYear.data
+
+  const start = parseYear(searchParams.get("first_publish_year_start"))
+  const end = parseYear(searchParams.get("first_publish_year_end"))
+
+  if (start !== undefined || end !== undefined) {
+    const range = shape.first_publish_year.safeParse({ start: start ?? 0, end: end ?? new Date().getFullYear() })
+    if (range.success && range.data !== undefined) query.first_publish_year = range.data
+  }
+
+  return query as SearchBookQuery
+}
+
+/**
+ * Writes advanced search criteria into a copy of the URL search params, leaving the other params untouched
+ */
+export const applyAdvancedSearchParams = (
+  searchParams: URLSearchParams,
+  criteria: AdvancedSearchDraft,
+): URLSearchParams => {
+  const newParams = new URLSearchParams(searchParams)
+
+  for (const param of ADVANCED_SEARCH_PARAMS) {
+    const value = criteria[param]?.trim()
+    if (value) {
+      newParams.set(param, value)
+    } else {
+      newParams.delete(param)
+    }
+  }
+
+  return newParams
+}
+
+/**
+ * Checks whether a search has any advanced criteria
+ */
+export const hasSearchCriteria = (query: SearchBookQuery): boolean => {
+  return Object.values(query).some((value) => value !== undefined)
+}
+
+/**
+ * Hook for reading and writing the advanced search criteria in the URL search params
+ *
+ * The URL is the source of truth, so advanced searches can be bookmarked and shared.
+ * Other search params (query, field, sort...) are preserved when the criteria change.
+ *
+ * @example
+ * ```tsx
+ * const { advanced, draft, criteriaCount, setAdvancedSearch } = useAdvancedSearchParams()
+ *
+ * setAdvancedSearch({ author: "tolkien", first_publish_year_start: "1950" })
+ * ```
+ */
+export const useAdvancedSearchParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const advanced = parseAdvancedSearchParams(searchParams)
+  const draft: AdvancedSearchDraft = Object.fromEntries(
+    ADVANCED_SEARCH_PARAMS.flatMap((param) => {
+      const value = searchParams.get(param)
+      return value ? [[param, value]] : []
+    }),
+  )
+
+  const setAdvancedSearch = (criteria: AdvancedSearchDraft): void => {
+    setSearchParams(applyAdvancedSearchParams(searchParams, criteria), { replace: true })
+  }
+
+  return {
+    advanced,
+    draft,
+    criteriaCount: Object.keys(advanced).length,
+    setAdvancedSearch,
+  }
+}
@@ -1,5 +1,7 @@
+import type { AppError } from "@my-library-app/errors"
 import type { Session, User } from "@supabase/supabase-js"
 
+import { toQueryFn } from "@my-library-app/result"
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
 import { useEffect } from "react"
 import { toast } from "sonner"
@@ -47,50 +49,42 @@ export const useAuth = () => {
   }, [queryClient])
 
   // Get session
-  const { data: session, isLoading: isSessionLoading } = useQuery<Session | null, Error>({
+  const { data: session, isLoading: isSessionLoading } = useQuery<Session | null, AppError>({
     queryKey: AUTH_SESSION_KEY,
-    queryFn: async () => {
-      const result = await authService.getSession()
-      if (!result.ok) throw result.error
-      return result.value
-    },
+    queryFn: toQueryFn(() => authService.getSession()),
     staleTime: 1000 * 60 * 5, // 5 minutes
-    retry: 1,
   })
 
   // Get user
-  const { data: user, isLoading: isUserLoading } = useQuery<User | null, Error>({
+  const { data: user, isLoading: isUserLoading } = useQuery<User | null, AppError>({
     queryKey: AUTH_USER_KEY,
-    queryFn: async () => {
-      const result = await authService.getUser()
-      if (!result.ok) throw result.error
-      return result.value
-    },
+    queryFn: toQueryFn(() => authService.getUser()),
     staleTime: 1000 * 60 * 5, // 5 minutes
-    retry: 1,
   })
 
   // Sign in mutation
   const { mutate: signInMutation, isPending: isSigningIn } = useMutation({
-    mutationFn: authService.signInWithOAuth,
+    mutationFn: toQueryFn((options: Parameters<typeof authService.signInWithOAuth>[0]) =>
+      authService.signInWithOAuth(options),
+    ),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: AUTH_SESSION_KEY })
       queryClient.invalidateQueries({ queryKey: AUTH_USER_KEY })
     },
-    onError: (error: Error) => {
+    onError: (error: AppError) => {
       toast.error(error.message)
     },
   })
 
   // Sign out mutation
-  const { mutate: signOutMutation, isPending: isSigningOut } = useMutation({
-    mutationFn: authService.signOut,
+  const { mutate: signOutMutation, isPending: isSigningOut } = useMutation<void, AppError, void>({
+    mutationFn: toQueryFn(() => authService.signOut()),
     onSuccess: () => {
       queryClient.setQueryData(AUTH_SESSION_KEY, null)
       queryClient.setQueryData(AUTH_USER_KEY, null)
       window.location.href = "/"
     },
-    onError: (error: Error) => {
+    onError: (error: AppError) => {
       toast.error(error.message)
     },
   })
@@ -0,0 +1,128 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { UnexpectedError } from "@my-library-app/errors"
+import { useEffect, useRef, useState } from "react"
+
+import { barcodeService } from "../services/barcode-service"
+
+interface UseBarcodeScannerOptions {
+  /**
+   * Called with the 13 digits of the first barcode accepted, after which scanning stops
+   */
+  readonly onDetect: (code: string) => void
+  /**
+   * Decides whether a barcode is the one looked for, defaults to accepting every barcode
+   */
+  readonly accept?: (code: string) => boolean
+}
+
+interface UseBarcodeScannerReturn {
+  /**
+   * Ref to attach to the `<video>` element showing the camera
+   */
+  readonly videoRef: React.RefObject<HTMLVideoElement | null>
+  readonly error: AppError | null
+  /**
+   * Whether the camera is still opening
+   */
+  readonly isStarting: boolean
+}
+
+/**
+ * Delay between two attempts at reading a barcode from the camera, in milliseconds
+ */
+const SCAN_INTERVAL = 250
+
+/**
+ * Hook reading EAN-13 barcodes from the camera
+ *
+ * Opens the camera on mount, streams it into the returned video ref and reads frames until a barcode is accepted.
+ * The camera is released on unmount.
+ *
+ * @example
+ * ```tsx
+ * const { videoRef, error } = useBarcodeScanner({ onDetect: (code) => console.log(code) })
+ *
+ * return error ? <p>{error.message}</p> : <video ref={videoRef} muted playsInline />
+ * ```
+ */
+export const useBarcodeScanner = (options: UseBarcodeScannerOptions): UseBarcodeScannerReturn => {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const optionsRef = useRef(options)
+  const [error, setError] = useState<AppError | null>(null)
+  const [isStarting, setIsStarting] = useState(true)
+
+  useEffect(() => {
+    optionsRef.current = options
+  })
+
+  useEffect(() => {
+    let stream: MediaStream | undefined
+    let timeout: number | undefined
+    let cancelled = false
+
+    const scan = async (): Promise<void> => {
+      const video = videoRef.current
+
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        const result = await barcodeService.detectEan13(video)
+        if (cancelled) return
+
+        const { accept, onDetect } = optionsRef.current
+        if (result.ok && result.value && (accept?.(result.value) ?? true)) {
+          onDetect(result.value)
+          return
+        }
+      }
+
+      timeout = window.setTimeout(scan, SCAN_INTERVAL)
+    }
+
+    const start = async (): Promise<void> => {
+      const result = await barcodeService.openCamera()
+
+      if (!result.ok) {
+        if (!cancelled) {
+          setError(result.error)
+          setIsStarting(false)
+        }
+        return
+      }
+
+      stream = result.value
+      if (cancelled) {
+        stream.getTracks().forEach((track) => track.stop())
+        return
+      }
+
+      // The video is expected to be rendered with the hook, otherwise the camera would stay on with nothing to show
+      if (!videoRef.current) {
+        stream.getTracks().forEach((track) => track.stop())
+        setError(new UnexpectedError("The camera preview could not be shown"))
+        setIsStarting(false)
+        return
+      }
+
+      videoRef.current.srcObject = stream
+      await videoRef.current.play().catch(() => undefined)
+      if (cancelled) return
+
+      setIsStarting(false)
+      void scan()
+    }
+
+    void start()
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timeout)
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [])
+
+  return {
+    videoRef,
+    error,
+    isStarting,
+  }
+}
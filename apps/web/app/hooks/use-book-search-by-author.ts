@@ -1,3 +1,6 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
 import { useQuery } from "@tanstack/react-query"
 
 import { bookService, type VolumeSearchResponse } from "../services/book-service"
@@ -30,13 +33,9 @@ interface UseBookSearchByAuthorOptions {
 export const useBookSearchByAuthor = (options: UseBookSearchByAuthorOptions) => {
   const { author, maxResults, startIndex, enabled } = options
 
-  return useQuery<VolumeSearchResponse, Error>({
+  return useQuery<VolumeSearchResponse, AppError>({
     queryKey: ["books", "author", author, maxResults, startIndex],
-    queryFn: async () => {
-      const result = await bookService.searchByAuthor(author, { maxResults, startIndex })
-      if (!result.ok) throw result.error
-      return result.value
-    },
+    queryFn: toQueryFn(() => bookService.searchByAuthor(author, { maxResults, startIndex })),
     enabled: enabled !== false && author.length > 0,
   })
 }
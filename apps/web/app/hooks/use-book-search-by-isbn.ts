@@ -1,3 +1,6 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
 import { useQuery } from "@tanstack/react-query"
 
 import { bookService, type VolumeSearchResponse } from "../services/book-service"
@@ -30,13 +33,9 @@ interface UseBookSearchByIsbnOptions {
 export const useBookSearchByIsbn = (options: UseBookSearchByIsbnOptions) => {
   const { isbn, maxResults, startIndex, enabled } = options
 
-  return useQuery<VolumeSearchResponse, Error>({
+  return useQuery<VolumeSearchResponse, AppError>({
     queryKey: ["books", "isbn", isbn, maxResults, startIndex],
-    queryFn: async () => {
-      const result = await bookService.searchByIsbn(isbn, { maxResults, startIndex })
-      if (!result.ok) throw result.error
-      return result.value
-    },
+    queryFn: toQueryFn(() => bookService.searchByIsbn(isbn, { maxResults, startIndex })),
     enabled: enabled !== false && isbn.length >= 10,
   })
 }
@@ -1,3 +1,6 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
 import { useQuery } from "@tanstack/react-query"
 
 import { bookService, type VolumeSearchResponse } from "../services/book-service"
@@ -31,13 +34,9 @@ interface UseBookSearchByTitleOptions {
 export const useBookSearchByTitle = (options: UseBookSearchByTitleOptions) => {
   const { title, maxResults, startIndex, enabled } = options
 
-  return useQuery<VolumeSearchResponse, Error>({
+  return useQuery<VolumeSearchResponse, AppError>({
     queryKey: ["books", "title", title, maxResults, startIndex],
-    queryFn: async () => {
-      const result = await bookService.searchByTitle(title, { maxResults, startIndex })
-      if (!result.ok) throw result.error
-      return result.value
-    },
+    queryFn: toQueryFn(() => bookService.searchByTitle(title, { maxResults, startIndex })),
     enabled: enabled !== false && title.length > 0,
   })
 }
@@ -1,3 +1,6 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
 import { useQuery } from "@tanstack/react-query"
 
 import { bookService, type SearchOptions, type VolumeSearchResponse } from "../services/book-service"
@@ -24,13 +27,9 @@ interface UseBookSearchOptions extends SearchOptions {
  * ```
  */
 export const useBookSearch = (options: UseBookSearchOptions) => {
-  return useQuery<VolumeSearchResponse, Error>({
+  return useQuery<VolumeSearchResponse, AppError>({
     queryKey: ["books", "search", options.query, options.field, options.maxResults, options.startIndex],
-    queryFn: async () => {
-      const result = await bookService.searchBooks(options)
-      if (!result.ok) throw result.error
-      return result.value
-    },
+    queryFn: toQueryFn(() => bookService.searchBooks(options)),
     enabled: options.enabled !== false && options.query.length > 0,
   })
 }
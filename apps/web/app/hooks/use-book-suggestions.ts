@@ -0,0 +1,55 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+
+import { type BookSuggestion, bookService } from "../services/book-service"
+import { useDebouncedValue } from "./use-debounced-value"
+
+interface UseBookSuggestionsOptions {
+  readonly text: string
+  readonly maxResults?: number
+  readonly enabled?: boolean
+}
+
+/**
+ * Delay after the last keystroke before requesting suggestions
+ */
+const SUGGEST_DEBOUNCE_MS = 250
+
+/**
+ * Shortest text suggestions are requested for
+ */
+const MIN_SUGGEST_LENGTH = 2
+
+/**
+ * Hook suggesting titles for the text being typed in a search input
+ *
+ * Requests are debounced, and the previous request is cancelled as soon as the text changes. The last suggestions are
+ * kept while the next ones load, so the list does not flicker.
+ *
+ * @example
+ * ```tsx
+ * const { suggestions } = useBookSuggestions({ text: searchQuery })
+ *
+ * return suggestions.map((suggestion) => <li key={suggestion.id}>{suggestion.title}</li>)
+ * ```
+ */
+export const useBookSuggestions = (options: UseBookSuggestionsOptions) => {
+  const { text, maxResults = 6, enabled = true } = options
+  const debouncedText = useDebouncedValue(text.trim(), SUGGEST_DEBOUNCE_MS)
+  const isEnabled = enabled && debouncedText.length >= MIN_SUGGEST_LENGTH
+
+  const { data, isFetching } = useQuery<readonly BookSuggestion[], AppError>({
+    queryKey: ["books", "suggest", debouncedText, maxResults],
+    // Cancelled by React Query when the text changes
+    queryFn: toQueryFn(({ signal }) => bookService.suggest(debouncedText, { maxResults }, { signal })),
+    enabled: isEnabled,
+    placeholderData: keepPreviousData,
+  })
+
+  return {
+    suggestions: isEnabled ? (data ?? []) : [],
+    isFetching,
+  }
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react"
+
+/**
+ * Hook returning a value once it has stopped changing for a delay
+ *
+ * @example
+ * ```tsx
+ * const debouncedQuery = useDebouncedValue(query, 300)
+ * const { data } = useBookSearch({ query: debouncedQuery })
+ * ```
+ */
+export const useDebouncedValue = <T>(value: T, delay: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value)
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delay)
+    return () => clearTimeout(timeout)
+  }, [value, delay])
+
+  return debouncedValue
+}
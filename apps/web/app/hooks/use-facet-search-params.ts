@@ -0,0 +1,102 @@
+import { searchBookLanguageOptionsSchema, searchBookYearRangeOptionsSchema } from "@my-library-app/schemas"
+import { useSearchParams } from "react-router"
+
+import type { SearchFacetFilters, ValueFacet } from "../services/search-facets"
+
+/**
+ * URL search param holding the selected values of each facet (repeated once per value)
+ */
+const FACET_PARAMS: Readonly<Record<ValueFacet, string>> = {
+  subjects: "facet_subject",
+  authors: "facet_author",
+  publishers: "facet_publisher",
+  languages: "facet_language",
+}
+
+const YEAR_START_PARAM = "facet_year_start"
+const YEAR_END_PARAM = "facet_year_end"
+
+/**
+ * Returns a copy of the URL search params without any facet selection
+ */
+export const clearFacetSearchParams = (searchParams: URLSearchParams): URLSearchParams => {
+  const newParams = new URLSearchParams(searchParams)
+  Object.values(FACET_PARAMS).forEach((param) => newParams.delete(param))
+  newParams.delete(YEAR_START_PARAM)
+  newParams.delete(YEAR_END_PARAM)
+  return newParams
+}
+
+/**
+ * Parses the selected facet values from URL search params, dropping invalid languages and year ranges
+ */
+export const parseFacetFilters = (searchParams: URLSearchParams): SearchFacetFilters => {
+  const yearRange = searchBookYearRangeOptionsSchema.safeParse({
+    start: Number(searchParams.get(YEAR_START_PARAM) ?? Number.NaN),
+    end: Number(searchParams.get(YEAR_END_PARAM) ?? Number.NaN),
+  })
+
+  return {
+    subjects: searchParams.getAll(FACET_PARAMS.subjects),
+    authors: searchParams.getAll(FACET_PARAMS.authors),
+    publishers: searchParams.getAll(FACET_PARAMS.publishers),
+    languages: searchParams
+      .getAll(FACET_PARAMS.languages)
+      .flatMap((language) => searchBookLanguageOptionsSchema.safeParse(language).data ?? []),
+    firstPublishYear: yearRange.success ? yearRange.data : undefined,
+  }
+}
+
+/**
+ * Hook for reading and writing the selected search facets in the URL search params
+ *
+ * Other search params are preserved when the selection changes.
+ *
+ * @example
+ * ```tsx
+ * const { filters, toggleFacetValue, setFirstPublishYear, clearFacets } = useFacetSearchParams()
+ *
+ * toggleFacetValue("subjects", "Fantasy")
+ * setFirstPublishYear({ start: 1950, end: 1990 })
+ * ```
+ */
+export const useFacetSearchParams = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters = parseFacetFilters(searchParams)
+
+  const toggleFacetValue = (facet: ValueFacet, value: string): void => {
+    const newParams = new URLSearchParams(searchParams)
+    const param = FACET_PARAMS[facet]
+    const values = newParams.getAll(param)
+
+    newParams.delete(param)
+    const nextValues = values.includes(value) ? values.filter((other) => other !== value) : [...values, value]
+    nextValues.forEach((other) => newParams.append(param, other))
+
+    setSearchParams(newParams, { replace: true })
+  }
+
+  const setFirstPublishYear = (range: SearchFacetFilters["firstPublishYear"]): void => {
+    const newParams = new URLSearchParams(searchParams)
+    if (range) {
+      newParams.set(YEAR_START_PARAM, range.start.toString())
+      newParams.set(YEAR_END_PARAM, range.end.toString())
+    } else {
+      newParams.delete(YEAR_START_PARAM)
+      newParams.delete(YEAR_END_PARAM)
+    }
+    setSearchParams(newParams, { replace: true })
+  }
+
+  const clearFacets = (): void => {
+    setSearchParams(clearFacetSearchParams(searchParams), { replace: true })
+  }
+
+  return {
+    filters,
+    toggleFacetValue,
+    setFirstPublishYear,
+    clearFacets,
+  }
+}
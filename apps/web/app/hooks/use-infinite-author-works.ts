@@ -0,0 +1,43 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { type InfiniteData, useInfiniteQuery } from "@tanstack/react-query"
+
+import { type AuthorWorkList, bookService } from "../services/book-service"
+
+interface UseInfiniteAuthorWorksOptions {
+  readonly authorId: string
+  /**
+   * Name shown as the author of the works
+   */
+  readonly authorName?: string
+  readonly maxResults?: number
+}
+
+/**
+ * Hook for infinite scrolling through the works of an author
+ *
+ * Pages are requested by offset until every work of the author is loaded.
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfiniteAuthorWorks({ authorId: "OL23919A" })
+ *
+ * return data?.pages.flatMap((page) => page.items).map((book) => <BookCard key={book.id} book={book} />)
+ * ```
+ */
+export const useInfiniteAuthorWorks = (options: UseInfiniteAuthorWorksOptions) => {
+  const { authorId, authorName, maxResults = 24 } = options
+
+  return useInfiniteQuery<AuthorWorkList, AppError, InfiniteData<AuthorWorkList>, readonly unknown[], number>({
+    queryKey: ["authors", authorId, "works", authorName, maxResults],
+    queryFn: toQueryFn(({ pageParam }) =>
+      bookService.getAuthorWorks(authorId, { maxResults, startIndex: pageParam, authorName }),
+    ),
+    getNextPageParam: (lastPage, allPages) => {
+      const loaded = allPages.reduce((count, page) => count + page.items.length, 0)
+      return lastPage.items.length > 0 && loaded < lastPage.totalItems ? loaded : undefined
+    },
+    initialPageParam: 0,
+  })
+}
@@ -1,6 +1,14 @@
-import { useInfiniteQuery } from "@tanstack/react-query"
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useInfiniteQuery, type InfiniteData } from "@tanstack/react-query"
+
+import type { SearchCursor } from "../services/book-providers"
 
 import { bookService, type SearchOptions, type VolumeSearchResponse } from "../services/book-service"
+import { dedupeVolumePages } from "../services/federated-search"
+import { CACHE_TTL, withPersistentCache } from "../services/persistent-cache"
+import { hasSearchCriteria } from "./use-advanced-search-params"
 
 interface UseInfiniteBookSearchOptions extends Omit<SearchOptions, "startIndex"> {
   readonly enabled?: boolean
@@ -41,26 +49,55 @@ interface UseInfiniteBookSearchOptions extends Omit<SearchOptions, "startIndex">
  * ```
  */
 export const useInfiniteBookSearch = (options: UseInfiniteBookSearchOptions) => {
-  const { query, field, sort, maxResults = 20, enabled } = options
+  const { query, field, sort, advanced, lang, filters, provider, federated, maxResults = 20, enabled } = options
 
-  return useInfiniteQuery<VolumeSearchResponse, Error>({
-    queryKey: ["books", "search", "infinite", query, field, sort, maxResults],
-    queryFn: async ({ pageParam }) => {
-      const result = await bookService.searchBooks({
-        query,
-        field,
-        sort,
-        maxResults,
-        startIndex: pageParam as number,
-      })
-      if (!result.ok) throw result.error
-      return result.value
-    },
-    getNextPageParam: (lastPage, allPages) => {
-      const loadedItems = allPages.reduce((acc, page) => acc + (page.items?.length ?? 0), 0)
-      return loadedItems < lastPage.totalItems ? loadedItems : undefined
-    },
-    enabled: enabled !== false && query.length > 0,
-    initialPageParam: 0,
+  return useInfiniteQuery<
+    VolumeSearchResponse,
+    AppError,
+    InfiniteData<VolumeSearchResponse>,
+    readonly unknown[],
+    SearchCursor | undefined
+  >({
+    queryKey: [
+      "books",
+      "search",
+      "infinite",
+      query,
+      field,
+      sort,
+      advanced,
+      lang,
+      filters,
+      provider,
+      federated,
+      maxResults,
+    ],
+    // Pages are also persisted, so reloading the page does not search the providers again
+    queryFn: toQueryFn(({ queryKey, pageParam, signal }) =>
+      withPersistentCache(`search:${JSON.stringify([...queryKey, pageParam])}`, CACHE_TTL.SEARCH, () =>
+        bookService.searchBooks(
+          {
+            query,
+            field,
+            sort,
+            advanced,
+            lang,
+            filters,
+            maxResults,
+            provider,
+            federated,
+            cursor: pageParam,
+          },
+          // Cancelled by React Query when the query changes, so stale searches stop as a new one is typed
+          { signal },
+        ),
+      ),
+    ),
+    // The cursor keeps per-provider offsets, so the next page continues from wherever each provider left off
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // Federated pages can repeat books already shown on earlier pages
+    select: (data) => ({ ...data, pages: dedupeVolumePages(data.pages) }),
+    enabled: enabled !== false && (query.length > 0 || (advanced !== undefined && hasSearchCriteria(advanced))),
+    initialPageParam: undefined,
   })
 }
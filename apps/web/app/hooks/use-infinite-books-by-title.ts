@@ -1,4 +1,9 @@
-import { useInfiniteQuery } from "@tanstack/react-query"
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useInfiniteQuery, type InfiniteData } from "@tanstack/react-query"
+
+import type { SearchCursor } from "../services/book-providers"
 
 import { bookService, type VolumeSearchResponse } from "../services/book-service"
 
@@ -43,21 +48,23 @@ interface UseInfiniteBooksByTitleOptions {
 export const useInfiniteBooksByTitle = (options: UseInfiniteBooksByTitleOptions) => {
   const { title, maxResults = 20, enabled } = options
 
-  return useInfiniteQuery<VolumeSearchResponse, Error>({
+  return useInfiniteQuery<
+    VolumeSearchResponse,
+    AppError,
+    InfiniteData<VolumeSearchResponse>,
+    readonly unknown[],
+    SearchCursor | undefined
+  >({
     queryKey: ["books", "title", "infinite", title, maxResults],
-    queryFn: async ({ pageParam }) => {
-      const result = await bookService.searchByTitle(title, {
+    queryFn: toQueryFn(({ pageParam }) =>
+      bookService.searchByTitle(title, {
         maxResults,
-        startIndex: pageParam as number,
-      })
-      if (!result.ok) throw result.error
-      return result.value
-    },
-    getNextPageParam: (lastPage, allPages) => {
-      const loadedItems = allPages.reduce((acc, page) => acc + (page.items?.length ?? 0), 0)
-      return loadedItems < lastPage.totalItems ? loadedItems : undefined
-    },
+        cursor: pageParam,
+      }),
+    ),
+    // The cursor pins the next page to the provider (and offset) that served the previous one
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: enabled !== false && title.length > 0,
-    initialPageParam: 0,
+    initialPageParam: undefined,
   })
 }
@@ -0,0 +1,39 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { type InfiniteData, useInfiniteQuery } from "@tanstack/react-query"
+
+import { bookService, type SubjectWorkList } from "../services/book-service"
+
+interface UseInfiniteSubjectWorksOptions {
+  readonly subjectId: string
+  readonly maxResults?: number
+}
+
+/**
+ * Hook for infinite scrolling through the works of a subject
+ *
+ * Pages are requested by offset until every work of the subject is loaded.
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfiniteSubjectWorks({ subjectId: "science_fiction" })
+ *
+ * return data?.pages.flatMap((page) => page.items).map((book) => <BookCard key={book.id} book={book} />)
+ * ```
+ */
+export const useInfiniteSubjectWorks = (options: UseInfiniteSubjectWorksOptions) => {
+  const { subjectId, maxResults = 24 } = options
+
+  return useInfiniteQuery<SubjectWorkList, AppError, InfiniteData<SubjectWorkList>, readonly unknown[], number>({
+    queryKey: ["subjects", subjectId, "works", maxResults],
+    queryFn: toQueryFn(({ pageParam }) =>
+      bookService.getSubjectWorks(subjectId, { maxResults, startIndex: pageParam }),
+    ),
+    getNextPageParam: (lastPage, allPages) => {
+      const loaded = allPages.reduce((count, page) => count + page.items.length, 0)
+      return lastPage.items.length > 0 && loaded < lastPage.totalItems ? loaded : undefined
+    },
+    initialPageParam: 0,
+  })
+}
@@ -0,0 +1,30 @@
+import { useSyncExternalStore } from "react"
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("online", onChange)
+  window.addEventListener("offline", onChange)
+
+  return () => {
+    window.removeEventListener("online", onChange)
+    window.removeEventListener("offline", onChange)
+  }
+}
+
+/**
+ * Hook tracking whether the browser is online
+ *
+ * @example
+ * ```tsx
+ * const isOnline = useOnlineStatus()
+ *
+ * return !isOnline && <Badge>Offline</Badge>
+ * ```
+ */
+export const useOnlineStatus = (): boolean => {
+  return useSyncExternalStore(
+    subscribe,
+    () => navigator.onLine,
+    // Assume online when rendering without a browser
+    () => true,
+  )
+}
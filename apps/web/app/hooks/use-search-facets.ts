@@ -0,0 +1,41 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { toQueryFn } from "@my-library-app/result"
+import { useQuery } from "@tanstack/react-query"
+
+import type { SearchFacets } from "../services/search-facets"
+
+import { bookService, type SearchOptions } from "../services/book-service"
+import { CACHE_TTL, withPersistentCache } from "../services/persistent-cache"
+import { hasSearchCriteria } from "./use-advanced-search-params"
+
+interface UseSearchFacetsOptions extends Pick<SearchOptions, "query" | "field" | "advanced" | "filters"> {
+  readonly enabled?: boolean
+}
+
+/**
+ * Hook for the facet counts of a search, counting every matching result
+ *
+ * Counts do not depend on the loaded pages, so they are fetched once per search and filter selection.
+ *
+ * @example
+ * ```tsx
+ * const { data: facets, isLoading } = useSearchFacets({ query: "dune", filters })
+ *
+ * return <FacetSidebar facets={facets} isLoading={isLoading} filters={filters} {...handlers} />
+ * ```
+ */
+export const useSearchFacets = (options: UseSearchFacetsOptions) => {
+  const { query, field, advanced, filters, enabled } = options
+
+  return useQuery<SearchFacets, AppError>({
+    queryKey: ["books", "search", "facets", query, field, advanced, filters],
+    // Counting takes many requests, so counts are also persisted
+    queryFn: toQueryFn(({ queryKey, signal }) =>
+      withPersistentCache(`search:${JSON.stringify(queryKey)}`, CACHE_TTL.SEARCH, () =>
+        bookService.getSearchFacets({ query, field, advanced, filters }, { signal }),
+      ),
+    ),
+    enabled: enabled !== false && (query.length > 0 || (advanced !== undefined && hasSearchCriteria(advanced))),
+  })
+}
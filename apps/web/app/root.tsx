@@ -1,19 +1,24 @@
 import "@my-library-app/ui/globals.css"
-import { Toaster } from "@my-library-app/ui"
+import { isRetryableError } from "@my-library-app/errors"
 
 import "./styles/geist-font.css"
+import { ThemeContextProvider, Toaster } from "@my-library-app/ui"
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools"
+import { useEffect } from "react"
 import { Links, Meta, Outlet, Scripts, ScrollRestoration, isRouteErrorResponse } from "react-router"
 
 import type { Route } from "./+types/root"
 
+import { offlineService } from "./services/offline-service"
+
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5, // 5 minutes
       gcTime: 1000 * 60 * 30, // 30 minutes
-      retry: 1,
+      // Only retry once, and only errors that may be transient (an invalid response or a signed-out user won't change)
+      retry: (failureCount, error) => failureCount < 1 && isRetryableError(error),
       refetchOnWindowFocus: false,
     },
   },
@@ -27,6 +32,9 @@ export function Layout({ children }: { children: React.ReactNode }) {
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="theme-color" content="#18181b" />
+        <link rel="manifest" href="/manifest.webmanifest" />
+        <link rel="apple-touch-icon" href="/icons/apple-touch-icon.png" />
         <Meta />
         <Links />
       </head>
@@ -42,11 +50,18 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 export default function App() {
+  useEffect(() => {
+    // The service worker caches aggressively, which would get in the way of HMR during development
+    if (import.meta.env.PROD) void offlineService.registerServiceWorker()
+  }, [])
+
   return (
-    <QueryClientProvider client={queryClient}>
-      <Outlet />
-      <ReactQueryDevtools initialIsOpen={false} />
-    </QueryClientProvider>
+    <ThemeContextProvider>
+      <QueryClientProvider client={queryClient}>
+        <Outlet />
+        <ReactQueryDevtools initialIsOpen={false} />
+      </QueryClientProvider>
+    </ThemeContextProvider>
   )
 }
 
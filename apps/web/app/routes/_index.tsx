@@ -1,12 +1,20 @@
-import { searchBookSortOptionsSchema, type SearchSort } from "@my-library-app/schemas"
 import {
+  iso6391LanguageOptionsSchema,
+  searchBookSortOptionsSchema,
+  type Iso6391Language,
+  type SearchSort,
+} from "@my-library-app/schemas"
+import {
+  Badge,
   Button,
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
   Empty,
   EmptyDescription,
   EmptyHeader,
   EmptyMedia,
   EmptyTitle,
-  Input,
   Select,
   SelectContent,
   SelectGroup,
@@ -14,21 +22,59 @@ import {
   SelectLabel,
   SelectTrigger,
   SelectValue,
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
   Spinner,
+  Toggle,
 } from "@my-library-app/ui"
-import { ArrowDownUpIcon, FilterIcon, SearchIcon } from "lucide-react"
-import { useState } from "react"
-import { redirect, useSearchParams } from "react-router"
+import {
+  ArrowDownUpIcon,
+  FilterIcon,
+  LanguagesIcon,
+  LayersIcon,
+  ScanBarcodeIcon,
+  SearchIcon,
+  SlidersHorizontalIcon,
+} from "lucide-react"
+import { useEffect, useState } from "react"
+import { redirect, useNavigate, useSearchParams } from "react-router"
 
+import { AdvancedSearchPanel } from "@/components/advanced-search-panel"
 import { BookCard } from "@/components/book-card"
+import { BookSuggestInput } from "@/components/book-suggest-input"
+import { ExportMenu } from "@/components/export-menu"
+import { FacetSidebar } from "@/components/facet-sidebar"
+import { IsbnScannerDialog } from "@/components/isbn-scanner-dialog"
 import { Navigation } from "@/components/layout/navigation"
+import { SearchErrorState } from "@/components/search-error-state"
+import { useBookReviews } from "@/hooks/library"
+import {
+  applyAdvancedSearchParams,
+  useAdvancedSearchParams,
+  type AdvancedSearchDraft,
+} from "@/hooks/use-advanced-search-params"
+import { clearFacetSearchParams, useFacetSearchParams } from "@/hooks/use-facet-search-params"
 import { useInfiniteBookSearch } from "@/hooks/use-infinite-book-search"
 import { useInfiniteScroll } from "@/hooks/use-infinite-scroll"
+import { useSearchFacets } from "@/hooks/use-search-facets"
 import { authService } from "@/services/auth-service"
+import { BOOK_PROVIDERS } from "@/services/book-providers"
 import { type SearchField, type Volume } from "@/services/book-service"
+import { recentSearchService } from "@/services/recent-search-service"
+import { hasFacetFilters } from "@/services/search-facets"
 
 import type { Route } from "./+types/_index"
 
+/**
+ * Labels of the languages results can be ranked by
+ */
+const PREFERRED_LANGUAGE_LABELS: Readonly<Record<Iso6391Language, string>> = {
+  en: "English",
+  es: "Spanish",
+  ca: "Catalan",
+}
+
 export function meta({}: Route.MetaArgs) {
   return [{ title: "Book Search" }, { name: "description", content: "Search for books in your library" }]
 }
@@ -41,22 +87,49 @@ export async function clientLoader() {
 
 export default function Dashboard() {
   const [searchParams, setSearchParams] = useSearchParams()
+  const navigate = useNavigate()
 
   // Read from URL params (source of truth)
   const query = searchParams.get("q") ?? ""
   const filterField = (searchParams.get("field") as SearchField | null) ?? undefined
   const sort = (searchParams.get("sort") as SearchSort | null) ?? undefined
+  const federated = searchParams.get("sources") === "all"
+  const langResult = iso6391LanguageOptionsSchema.safeParse(searchParams.get("lang"))
+  const lang = langResult.success ? langResult.data : undefined
+  const { advanced, draft, criteriaCount, setAdvancedSearch } = useAdvancedSearchParams()
+  const { filters, toggleFacetValue, setFirstPublishYear, clearFacets } = useFacetSearchParams()
+  const hasSearch = query.length > 0 || criteriaCount > 0
 
-  // Local state for the input field (before submission)
+  // Local state for the input fields (before submission)
   const [searchQuery, setSearchQuery] = useState(query)
+  const [advancedDraft, setAdvancedDraft] = useState<AdvancedSearchDraft>(draft)
+  const [isAdvancedOpen, setIsAdvancedOpen] = useState(criteriaCount > 0)
+  const [isScannerOpen, setIsScannerOpen] = useState(false)
 
-  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteBookSearch({
+  const { reviewsByBook } = useBookReviews()
+  const { data, isLoading, error, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteBookSearch({
     query,
     field: filterField,
     sort,
+    advanced: criteriaCount > 0 ? advanced : undefined,
+    lang,
+    filters: hasFacetFilters(filters) ? filters : undefined,
+    federated,
     maxResults: 20,
-    enabled: query.length > 0,
+    enabled: hasSearch,
   })
+  const { data: facets, isLoading: isLoadingFacets } = useSearchFacets({
+    query,
+    field: filterField,
+    advanced: criteriaCount > 0 ? advanced : undefined,
+    filters: hasFacetFilters(filters) ? filters : undefined,
+    enabled: hasSearch,
+  })
+
+  // Remember searches for the command palette, whether they were typed here or opened from a link
+  useEffect(() => {
+    if (query) recentSearchService.add(query)
+  }, [query])
 
   // Flatten all pages into a single array of books
   // No need to filter by language - the API already returns English books only
@@ -73,8 +146,8 @@ export default function Dashboard() {
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
 
-    // Update URL params
-    const newParams = new URLSearchParams(searchParams)
+    // Update URL params, including every advanced criterion
+    const newParams = applyAdvancedSearchParams(searchParams, advancedDraft)
     if (searchQuery) {
       newParams.set("q", searchQuery)
     } else {
@@ -119,9 +192,52 @@ export default function Dashboard() {
     setSearchParams(newParams, { replace: true })
   }
 
+  const handleLangChange = (value: string | null): void => {
+    const langValue = value === "any" ? undefined : (value as Iso6391Language | null)
+
+    // Update URL params immediately when the preferred language changes
+    const newParams = new URLSearchParams(searchParams)
+    if (langValue) {
+      newParams.set("lang", langValue)
+    } else {
+      newParams.delete("lang")
+    }
+    setSearchParams(newParams, { replace: true })
+  }
+
+  const handleFederatedChange = (pressed: boolean): void => {
+    // Update URL params immediately when the sources toggle changes
+    const newParams = new URLSearchParams(searchParams)
+    if (pressed) {
+      newParams.set("sources", "all")
+    } else {
+      newParams.delete("sources")
+    }
+    setSearchParams(newParams, { replace: true })
+  }
+
+  const handleAdvancedClear = (): void => {
+    setAdvancedDraft({})
+    setAdvancedSearch({})
+  }
+
+  const handleSearchReset = (): void => {
+    // Keep the text query, but drop every criterion that narrows it down
+    const newParams = clearFacetSearchParams(applyAdvancedSearchParams(searchParams, {}))
+    for (const param of ["field", "sort", "lang", "sources"]) {
+      newParams.delete(param)
+    }
+    setAdvancedDraft({})
+    setSearchParams(newParams, { replace: true })
+  }
+
   const handleBookClick = (book: Volume): void => {
-    // Open the book's Open Library page in a new tab
-    window.open(book.selfLink, "_blank", "noopener,noreferrer")
+    if (book.source === BOOK_PROVIDERS.OPEN_LIBRARY) {
+      navigate(`/books/${book.id}`)
+    } else {
+      // Only Open Library works have an in-app detail page
+      window.open(book.selfLink, "_blank", "noopener,noreferrer")
+    }
   }
 
   return (
@@ -129,134 +245,204 @@ export default function Dashboard() {
       {/* Header */}
       <Navigation />
 
-      <div className="container mx-auto px-4 py-6">
-        {/* Search Section */}
-        <form onSubmit={handleSearch} className="mb-6">
-          <div className="flex gap-2">
-            <div className="relative flex-1">
-              <SearchIcon className="text-muted-foreground absolute top-1/2 left-3 size-5 -translate-y-1/2" />
-              <Input
-                type="text"
-                placeholder="Search books by title, author, ISBN..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            <Select value={filterField ?? "all"} onValueChange={handleFilterChange}>
-              <SelectTrigger className="w-10 sm:w-[140px]">
-                <FilterIcon className="size-4 sm:hidden" />
-                <span className="hidden sm:inline">
-                  <SelectValue placeholder="Filter by" />
-                </span>
-                <span className="sr-only sm:not-sr-only sm:hidden">Filter by</span>
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Fields</SelectItem>
-                <SelectItem value="title">Title</SelectItem>
-                <SelectItem value="author">Author</SelectItem>
-                <SelectItem value="publisher">Publisher</SelectItem>
-                <SelectItem value="subject">Subject</SelectItem>
-                <SelectItem value="isbn">ISBN</SelectItem>
-              </SelectContent>
-            </Select>
-            <Select value={sort ?? "none"} onValueChange={handleSortChange}>
-              <SelectTrigger className="w-10 sm:w-[140px]">
-                <ArrowDownUpIcon className="size-4 sm:hidden" />
-                <span className="hidden sm:inline">
-                  <SelectValue placeholder="Sort by" />
-                </span>
-                <span className="sr-only sm:not-sr-only sm:hidden">Sort by</span>
-              </SelectTrigger>
-              <SelectContent>
-                <SelectGroup>
-                  <SelectLabel>Sort by</SelectLabel>
-                  <SelectItem value="none">Relevance</SelectItem>
-                  {searchBookSortOptionsSchema.options.map((option) => (
-                    <SelectItem key={option} value={option} className="capitalize">
-                      {option.replace(/_/g, " ").charAt(0).toUpperCase() + option.replace(/_/g, " ").slice(1)}
-                    </SelectItem>
-                  ))}
-                </SelectGroup>
-              </SelectContent>
-            </Select>
-            <Button type="submit" disabled={isLoading}>
-              {isLoading ? <Spinner className="size-4" /> : "Search"}
-            </Button>
-          </div>
-        </form>
-
-        {/* Results Section */}
-        {isLoading && (
-          <div className="flex items-center justify-center py-12">
-            <Spinner className="size-8" />
-          </div>
-        )}
-
-        {error && (
-          <Empty>
-            <EmptyHeader>
-              <EmptyMedia variant="icon">
-                <FilterIcon className="size-6" />
-              </EmptyMedia>
-              <EmptyTitle>Error loading books</EmptyTitle>
-              <EmptyDescription>{error.message}</EmptyDescription>
-            </EmptyHeader>
-          </Empty>
+      <SidebarProvider className="min-h-[calc(100svh-4rem)]">
+        {hasSearch && (
+          <FacetSidebar
+            facets={facets}
+            isLoading={isLoadingFacets}
+            filters={filters}
+            onToggle={toggleFacetValue}
+            onYearRangeChange={setFirstPublishYear}
+            onClear={clearFacets}
+          />
         )}
 
-        {!isLoading && !error && query && allBooks.length === 0 && (
-          <Empty>
-            <EmptyHeader>
-              <EmptyMedia variant="icon">
-                <SearchIcon className="size-6" />
-              </EmptyMedia>
-              <EmptyTitle>No books found</EmptyTitle>
-              <EmptyDescription>Try searching with different keywords</EmptyDescription>
-            </EmptyHeader>
-          </Empty>
-        )}
+        <SidebarInset>
+          <div className="container mx-auto px-4 py-6">
+            {/* Search Section */}
+            <Collapsible
+              open={isAdvancedOpen}
+              onOpenChange={setIsAdvancedOpen}
+              render={<form onSubmit={handleSearch} className="mb-6 space-y-2" />}
+            >
+              <div className="flex gap-2">
+                {hasSearch && <SidebarTrigger type="button" className="self-center" aria-label="Toggle filters" />}
+                <div className="relative flex-1">
+                  <SearchIcon className="text-muted-foreground absolute top-1/2 left-3 size-5 -translate-y-1/2" />
+                  <BookSuggestInput
+                    placeholder="Search books by title, author, ISBN..."
+                    value={searchQuery}
+                    onValueChange={setSearchQuery}
+                    onSelect={(suggestion) => navigate(`/books/${suggestion.id}`)}
+                    className="pl-10"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  aria-label="Scan ISBN barcode"
+                  title="Scan the ISBN barcode of a book"
+                  onClick={() => setIsScannerOpen(true)}
+                >
+                  <ScanBarcodeIcon className="size-4" />
+                </Button>
+                <Select value={filterField ?? "all"} onValueChange={handleFilterChange}>
+                  <SelectTrigger className="w-10 sm:w-[140px]">
+                    <FilterIcon className="size-4 sm:hidden" />
+                    <span className="hidden sm:inline">
+                      <SelectValue placeholder="Filter by" />
+                    </span>
+                    <span className="sr-only sm:not-sr-only sm:hidden">Filter by</span>
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Fields</SelectItem>
+                    <SelectItem value="title">Title</SelectItem>
+                    <SelectItem value="author">Author</SelectItem>
+                    <SelectItem value="publisher">Publisher</SelectItem>
+                    <SelectItem value="subject">Subject</SelectItem>
+                    <SelectItem value="isbn">ISBN</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={sort ?? "none"} onValueChange={handleSortChange}>
+                  <SelectTrigger className="w-10 sm:w-[140px]">
+                    <ArrowDownUpIcon className="size-4 sm:hidden" />
+                    <span className="hidden sm:inline">
+                      <SelectValue placeholder="Sort by" />
+                    </span>
+                    <span className="sr-only sm:not-sr-only sm:hidden">Sort by</span>
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectLabel>Sort by</SelectLabel>
+                      <SelectItem value="none">Relevance</SelectItem>
+                      {searchBookSortOptionsSchema.options.map((option) => (
+                        <SelectItem key={option} value={option} className="capitalize">
+                          {option.replace(/_/g, " ").charAt(0).toUpperCase() + option.replace(/_/g, " ").slice(1)}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+                <Select value={lang ?? "any"} onValueChange={handleLangChange}>
+                  <SelectTrigger className="w-10 sm:w-[140px]" aria-label="Preferred language">
+                    <LanguagesIcon className="size-4 sm:hidden" />
+                    <span className="hidden sm:inline">
+                      <SelectValue>
+                        {(value: string) =>
+                          value === "any" ? "Any language" : PREFERRED_LANGUAGE_LABELS[value as Iso6391Language]
+                        }
+                      </SelectValue>
+                    </span>
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectLabel>Prefer language</SelectLabel>
+                      <SelectItem value="any">Any language</SelectItem>
+                      {iso6391LanguageOptionsSchema.options.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {PREFERRED_LANGUAGE_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+                <Toggle
+                  variant="outline"
+                  pressed={federated}
+                  onPressedChange={handleFederatedChange}
+                  aria-label="Search all sources"
+                  title="Search Open Library and Google Books together"
+                >
+                  <LayersIcon className="size-4" />
+                  <span className="hidden sm:inline">All sources</span>
+                </Toggle>
+                <CollapsibleTrigger render={<Button type="button" variant="outline" aria-label="Advanced search" />}>
+                  <SlidersHorizontalIcon className="size-4" />
+                  <span className="hidden sm:inline">Advanced</span>
+                  {criteriaCount > 0 && <Badge variant="secondary">{criteriaCount}</Badge>}
+                </CollapsibleTrigger>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? <Spinner className="size-4" /> : "Search"}
+                </Button>
+              </div>
+              <CollapsibleContent>
+                <AdvancedSearchPanel value={advancedDraft} onChange={setAdvancedDraft} onClear={handleAdvancedClear} />
+              </CollapsibleContent>
+            </Collapsible>
+            <IsbnScannerDialog open={isScannerOpen} onOpenChange={setIsScannerOpen} />
 
-        {!isLoading && !error && allBooks.length > 0 && (
-          <>
-            <div className="text-muted-foreground mb-4 text-sm">
-              Found {totalItems} {totalItems === 1 ? "book" : "books"}
-              {allBooks.length < totalItems && ` (showing ${allBooks.length})`}
-            </div>
-            <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6">
-              {allBooks.map((book) => (
-                <BookCard key={book.id} book={book} onClick={handleBookClick} />
-              ))}
-            </div>
-            {/* Intersection observer target for infinite scroll */}
-            {hasNextPage && (
-              <div ref={sentinelRef} className="flex items-center justify-center py-8">
-                {isFetchingNextPage && <Spinner className="size-6" />}
+            {/* Results Section */}
+            {isLoading && (
+              <div className="flex items-center justify-center py-12">
+                <Spinner className="size-8" />
               </div>
             )}
-            {/* Load More button as fallback */}
-            {hasNextPage && !isFetchingNextPage && (
-              <div className="flex items-center justify-center py-4">
-                <Button onClick={() => fetchNextPage()} variant="outline">
-                  Load More
-                </Button>
-              </div>
+
+            {error && <SearchErrorState error={error} onRetry={() => refetch()} onResetSearch={handleSearchReset} />}
+
+            {!isLoading && !error && hasSearch && allBooks.length === 0 && (
+              <Empty>
+                <EmptyHeader>
+                  <EmptyMedia variant="icon">
+                    <SearchIcon className="size-6" />
+                  </EmptyMedia>
+                  <EmptyTitle>No books found</EmptyTitle>
+                  <EmptyDescription>Try searching with different keywords</EmptyDescription>
+                </EmptyHeader>
+              </Empty>
             )}
-          </>
-        )}
 
-        {!isLoading && !error && !query && (
-          <Empty>
-            <EmptyHeader>
-              <EmptyMedia variant="icon">
-                <SearchIcon className="size-6" />
-              </EmptyMedia>
-              <EmptyTitle>Search for books</EmptyTitle>
-              <EmptyDescription>Enter a search query above to find books</EmptyDescription>
-            </EmptyHeader>
-          </Empty>
-        )}
-      </div>
+            {!isLoading && !error && allBooks.length > 0 && (
+              <>
+                <div className="mb-4 flex items-center justify-between gap-2">
+                  <div className="text-muted-foreground text-sm">
+                    Found {totalItems} {totalItems === 1 ? "book" : "books"}
+                    {allBooks.length < totalItems && ` (showing ${allBooks.length})`}
+                  </div>
+                  <ExportMenu volumes={allBooks} filename="search-results" />
+                </div>
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6">
+                  {allBooks.map((book) => (
+                    <BookCard
+                      key={book.id}
+                      book={book}
+                      rating={reviewsByBook.get(book.id)?.rating}
+                      onClick={handleBookClick}
+                    />
+                  ))}
+                </div>
+                {/* Intersection observer target for infinite scroll */}
+                {hasNextPage && (
+                  <div ref={sentinelRef} className="flex items-center justify-center py-8">
+                    {isFetchingNextPage && <Spinner className="size-6" />}
+                  </div>
+                )}
+                {/* Load More button as fallback */}
+                {hasNextPage && !isFetchingNextPage && (
+                  <div className="flex items-center justify-center py-4">
+                    <Button onClick={() => fetchNextPage()} variant="outline">
+                      Load More
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+
+            {!isLoading && !error && !hasSearch && (
+              <Empty>
+                <EmptyHeader>
+                  <EmptyMedia variant="icon">
+                    <SearchIcon className="size-6" />
+                  </EmptyMedia>
+                  <EmptyTitle>Search for books</EmptyTitle>
+                  <EmptyDescription>Enter a search query above to find books</EmptyDescription>
+                </EmptyHeader>
+              </Empty>
+            )}
+          </div>
+        </SidebarInset>
+      </SidebarProvider>
     </div>
   )
 }
@@ -0,0 +1,171 @@
+import { Alert, AlertDescription, AlertTitle, Button, Separator, Spinner, Typography } from "@my-library-app/ui"
+import { ArrowLeftIcon, ExternalLinkIcon } from "lucide-react"
+import { data, Link, redirect, useNavigate } from "react-router"
+
+import { BookCard } from "@/components/book-card"
+import { Navigation } from "@/components/layout/navigation"
+import { useInfiniteAuthorWorks, useInfiniteScroll } from "@/hooks"
+import { authService } from "@/services/auth-service"
+import { bookService, type Volume } from "@/services/book-service"
+import { CACHE_TTL, withPersistentCache } from "@/services/persistent-cache"
+
+import type { Route } from "./+types/authors.$authorId"
+
+export function meta({ loaderData }: Route.MetaArgs) {
+  return [
+    { title: loaderData ? loaderData.author.name : "Author" },
+    { name: "description", content: loaderData?.author.bio ?? "Author details" },
+  ]
+}
+
+export async function clientLoader({ params }: Route.ClientLoaderArgs) {
+  const userResult = await authService.getUser()
+  if (!userResult.ok) return redirect("/login")
+
+  // Author records rarely change, so they are persisted across reloads
+  const authorResult = await withPersistentCache(`author:${params.authorId}`, CACHE_TTL.BOOK, () =>
+    bookService.getAuthor(params.authorId),
+  )
+  if (!authorResult.ok) {
+    // Let the error boundary show a not found page for unknown authors
+    if (authorResult.error.kind === "http" && authorResult.error.status === 404) {
+      throw data("Author not found", { status: 404 })
+    }
+    throw authorResult.error
+  }
+
+  return { author: authorResult.value }
+}
+
+export default function AuthorDetails({ loaderData }: Route.ComponentProps) {
+  const { author } = loaderData
+  const navigate = useNavigate()
+
+  const {
+    data: worksData,
+    error,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteAuthorWorks({
+    authorId: author.id,
+    authorName: author.name,
+  })
+
+  const sentinelRef = useInfiniteScroll({
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  })
+
+  const works = worksData?.pages.flatMap((page) => page.items) ?? []
+  const totalItems = worksData?.pages[0]?.totalItems ?? 0
+  const lifespan = [author.birthDate, author.deathDate].filter(Boolean).join(" – ")
+
+  const handleBookClick = (book: Volume): void => {
+    navigate(`/books/${book.id}`)
+  }
+
+  return (
+    <div className="bg-background min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto space-y-8 px-4 py-6">
+        <Button variant="ghost" size="sm" nativeButton={false} render={<Link to="/" />}>
+          <ArrowLeftIcon />
+          Back to search
+        </Button>
+
+        <div className="flex flex-col gap-6 md:flex-row">
+          {/* Photo */}
+          <div className="bg-muted aspect-3/4 w-full shrink-0 overflow-hidden md:w-48">
+            <img src={author.photoUrl ?? "/placeholder.png"} alt={author.name} className="h-full w-full object-cover" />
+          </div>
+
+          {/* Metadata */}
+          <div className="flex-1 space-y-4">
+            <div className="space-y-1">
+              <Typography variant="h3">{author.name}</Typography>
+              {lifespan && <Typography variant="muted">{lifespan}</Typography>}
+            </div>
+
+            {author.bio && <p className="text-sm leading-relaxed whitespace-pre-line">{author.bio}</p>}
+
+            {author.alternateNames.length > 0 && (
+              <dl className="text-muted-foreground grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+                <dt className="font-semibold">Also known as</dt>
+                <dd>{author.alternateNames.join(", ")}</dd>
+              </dl>
+            )}
+
+            <Button
+              variant="outline"
+              size="sm"
+              nativeButton={false}
+              render={<a href={author.selfLink} target="_blank" rel="noopener noreferrer" />}
+            >
+              <ExternalLinkIcon />
+              View on Open Library
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Works */}
+        <section className="space-y-4">
+          <Typography variant="h4">
+            Works
+            {totalItems > 0 && (
+              <span className="text-muted-foreground ml-2 text-sm font-normal">
+                {works.length < totalItems ? `(showing ${works.length} of ${totalItems})` : `(${totalItems})`}
+              </span>
+            )}
+          </Typography>
+
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <Spinner className="size-8" />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTitle>Could not load the works of this author</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          )}
+
+          {!isLoading && !error && works.length === 0 && (
+            <Typography variant="muted">No works found for this author.</Typography>
+          )}
+
+          {works.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6">
+                {works.map((book) => (
+                  <BookCard key={book.id} book={book} onClick={handleBookClick} />
+                ))}
+              </div>
+              {/* Intersection observer target for infinite scroll */}
+              {hasNextPage && (
+                <div ref={sentinelRef} className="flex items-center justify-center py-8">
+                  {isFetchingNextPage && <Spinner className="size-6" />}
+                </div>
+              )}
+              {/* Load More button as fallback */}
+              {hasNextPage && !isFetchingNextPage && (
+                <div className="flex items-center justify-center py-4">
+                  <Button onClick={() => fetchNextPage()} variant="outline">
+                    Load More
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+import { Badge, Button, Separator, Typography } from "@my-library-app/ui"
+import { ArrowLeftIcon, ExternalLinkIcon } from "lucide-react"
+import { Fragment, useState } from "react"
+import { data, Link, redirect } from "react-router"
+
+import { BookNotesPanel } from "@/components/book-notes-panel"
+import { BookReviewPanel } from "@/components/book-review-panel"
+import { EditionTable } from "@/components/edition-table"
+import { Navigation } from "@/components/layout/navigation"
+import { ReadingSessionsPanel } from "@/components/reading-sessions-panel"
+import { authService } from "@/services/auth-service"
+import { bookService, type Edition, getSubjectId } from "@/services/book-service"
+import { CACHE_TTL, withPersistentCache } from "@/services/persistent-cache"
+
+import type { Route } from "./+types/books.$workId"
+
+const EDITIONS_LIMIT = 50
+
+export function meta({ loaderData }: Route.MetaArgs) {
+  return [
+    { title: loaderData ? loaderData.work.title : "Book" },
+    { name: "description", content: loaderData?.work.description ?? "Book details" },
+  ]
+}
+
+export async function clientLoader({ params }: Route.ClientLoaderArgs) {
+  const userResult = await authService.getUser()
+  if (!userResult.ok) return redirect("/login")
+
+  // Book data rarely changes, so it is persisted across reloads
+  const workResult = await withPersistentCache(`work:${params.workId}`, CACHE_TTL.BOOK, () =>
+    bookService.getWork(params.workId),
+  )
+  if (!workResult.ok) {
+    // Let the error boundary show a not found page for unknown works
+    if (workResult.error.kind === "http" && workResult.error.status === 404) {
+      throw data("Book not found", { status: 404 })
+    }
+    throw workResult.error
+  }
+
+  const work = workResult.value
+
+  // Editions and authors are independent of each other, so fetch them in parallel
+  const [editionsResult, authorResults] = await Promise.all([
+    withPersistentCache(`editions:${work.id}:${EDITIONS_LIMIT}`, CACHE_TTL.BOOK, () =>
+      bookService.getEditions(work.id, { maxResults: EDITIONS_LIMIT }),
+    ),
+    Promise.all(
+      work.authorIds.map((authorId) =>
+        withPersistentCache(`author:${authorId}`, CACHE_TTL.BOOK, () => bookService.getAuthor(authorId)),
+      ),
+    ),
+  ])
+
+  return {
+    work,
+    editions: editionsResult.ok ? editionsResult.value : { totalItems: 0, items: [] },
+    authors: authorResults.flatMap((result) => (result.ok ? [result.value] : [])),
+  }
+}
+
+/**
+ * Gets the median page count of some editions, which skips abridged and omnibus outliers
+ */
+const getTypicalPageCount = (editions: readonly Edition[]): number | undefined => {
+  const pageCounts = editions.flatMap((edition) => (edition.pageCount ? [edition.pageCount] : [])).sort((a, b) => a - b)
+  return pageCounts[Math.floor(pageCounts.length / 2)]
+}
+
+export default function BookDetails({ loaderData }: Route.ComponentProps) {
+  const { work, editions, authors } = loaderData
+  const [selectedCover, setSelectedCover] = useState(0)
+
+  const coverUrl = work.covers[selectedCover] ?? "/placeholder.png"
+
+  return (
+    <div className="bg-background min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto space-y-8 px-4 py-6">
+        <Button variant="ghost" size="sm" nativeButton={false} render={<Link to="/" />}>
+          <ArrowLeftIcon />
+          Back to search
+        </Button>
+
+        <div className="flex flex-col gap-6 md:flex-row">
+          {/* Covers */}
+          <div className="flex w-full shrink-0 flex-col gap-2 md:w-64">
+            <div className="bg-muted aspect-3/5 w-full overflow-hidden">
+              <img src={coverUrl} alt={work.title} className="h-full w-full object-cover" />
+            </div>
+            {work.covers.length > 1 && (
+              <div className="flex flex-wrap gap-1">
+                {work.covers.map((cover, index) => (
+                  <button
+                    key={cover}
+                    type="button"
+                    onClick={() => setSelectedCover(index)}
+                    className="bg-muted aspect-3/5 w-10 overflow-hidden data-[selected=true]:ring-2"
+                    data-selected={index === selectedCover}
+                  >
+                    <img src={cover} alt={`${work.title} cover ${index + 1}`} className="h-full w-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Metadata */}
+          <div className="flex-1 space-y-4">
+            <div className="space-y-1">
+              <Typography variant="h3">{work.title}</Typography>
+              {work.subtitle && <Typography variant="lead">{work.subtitle}</Typography>}
+              <Typography variant="muted">
+                {authors.length > 0
+                  ? authors.map((author, index) => (
+                      <Fragment key={author.id}>
+                        {index > 0 && ", "}
+                        <Link to={`/authors/${author.id}`} className="hover:underline">
+                          {author.name}
+                        </Link>
+                      </Fragment>
+                    ))
+                  : "Unknown Author"}
+                {work.firstPublishDate && ` · First published ${work.firstPublishDate}`}
+              </Typography>
+            </div>
+
+            {work.description && <p className="text-sm leading-relaxed whitespace-pre-line">{work.description}</p>}
+
+            {work.subjects.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {work.subjects.map((subject) => (
+                  <Badge
+                    key={subject}
+                    variant="secondary"
+                    render={<Link to={`/subjects/${encodeURIComponent(getSubjectId(subject))}`} />}
+                  >
+                    {subject}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <dl className="text-muted-foreground grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+              <dt className="font-semibold">Open Library ID</dt>
+              <dd className="font-mono">{work.id}</dd>
+              <dt className="font-semibold">Editions</dt>
+              <dd>{editions.totalItems}</dd>
+            </dl>
+
+            <Button
+              variant="outline"
+              size="sm"
+              nativeButton={false}
+              render={<a href={work.selfLink} target="_blank" rel="noopener noreferrer" />}
+            >
+              <ExternalLinkIcon />
+              View on Open Library
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Rating and review */}
+        <section className="space-y-2">
+          <Typography variant="h4">Your review</Typography>
+          <BookReviewPanel bookId={work.id} />
+        </section>
+
+        <Separator />
+
+        {/* Reading progress */}
+        <section className="space-y-2">
+          <Typography variant="h4">Reading progress</Typography>
+          <ReadingSessionsPanel bookId={work.id} defaultPageCount={getTypicalPageCount(editions.items)} />
+        </section>
+
+        <Separator />
+
+        {/* Quotes and notes, linked to from note search results */}
+        <section id="notes" className="scroll-mt-20 space-y-2">
+          <Typography variant="h4">Notes</Typography>
+          <BookNotesPanel bookId={work.id} bookTitle={work.title} authors={authors.map((author) => author.name)} />
+        </section>
+
+        <Separator />
+
+        {/* Editions */}
+        <section className="space-y-2">
+          <Typography variant="h4">
+            Editions
+            <span className="text-muted-foreground ml-2 text-sm font-normal">
+              {editions.items.length < editions.totalItems
+                ? `(showing ${editions.items.length} of ${editions.totalItems})`
+                : `(${editions.totalItems})`}
+            </span>
+          </Typography>
+          {editions.items.length > 0 ? (
+            <EditionTable editions={editions.items} />
+          ) : (
+            <Typography variant="muted">No editions found for this work.</Typography>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import {
+  Button,
+  Input,
+  NativeSelect,
+  NativeSelectOption,
+  Spinner,
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from "@my-library-app/ui"
+import { FileUpIcon, PlusIcon, Trash2Icon } from "lucide-react"
+import { useState } from "react"
+import { Link, redirect, useNavigate, useSearchParams } from "react-router"
+
+import { ExportMenu } from "@/components/export-menu"
+import { Navigation } from "@/components/layout/navigation"
+import { ShelfBooksGrid } from "@/components/shelf-books-grid"
+import { useCreateShelf, useDeleteShelf, useShelfBooks, useShelves } from "@/hooks/library"
+import { authService } from "@/services/auth-service"
+import { BOOK_PROVIDERS } from "@/services/book-providers"
+import { type Volume } from "@/services/book-service"
+import { isStatusShelfKind, SHELF_KINDS, SHELF_SORTS, type ShelfSort } from "@/services/library-service"
+
+import type { Route } from "./+types/library"
+
+export function meta({}: Route.MetaArgs) {
+  return [{ title: "My Library" }, { name: "description", content: "Your bookshelves" }]
+}
+
+export async function clientLoader() {
+  const result = await authService.getUser()
+  if (!result.ok) return redirect("/login")
+  return { user: result.value }
+}
+
+export default function Library() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const { shelves, isLoading } = useShelves()
+  const { createShelf, isCreating } = useCreateShelf()
+  const { deleteShelf, isDeleting } = useDeleteShelf()
+  const [newShelfName, setNewShelfName] = useState("")
+
+  // Read the selected shelf from URL params (source of truth), defaulting to the first shelf
+  const selectedShelf = shelves.find((shelf) => shelf.id === searchParams.get("shelf")) ?? shelves[0]
+  const { books: selectedShelfBooks } = useShelfBooks(selectedShelf?.id)
+  const sort = searchParams.get("sort") === SHELF_SORTS.RATING ? SHELF_SORTS.RATING : SHELF_SORTS.ADDED
+
+  const handleShelfChange = (value: string): void => {
+    const newParams = new URLSearchParams(searchParams)
+    newParams.set("shelf", value)
+    setSearchParams(newParams, { replace: true })
+  }
+
+  const handleSortChange = (value: ShelfSort): void => {
+    const newParams = new URLSearchParams(searchParams)
+    if (value === SHELF_SORTS.ADDED) {
+      newParams.delete("sort")
+    } else {
+      newParams.set("sort", value)
+    }
+    setSearchParams(newParams, { replace: true })
+  }
+
+  const handleCreateShelf = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const name = newShelfName.trim()
+    if (!name) return
+
+    createShelf(name)
+    setNewShelfName("")
+  }
+
+  const handleDeleteShelf = (): void => {
+    if (!selectedShelf || isStatusShelfKind(selectedShelf.kind)) return
+
+    deleteShelf(selectedShelf.id)
+    handleShelfChange(shelves[0]?.id ?? "")
+  }
+
+  const handleBookClick = (book: Volume): void => {
+    if (book.source === BOOK_PROVIDERS.OPEN_LIBRARY) {
+      navigate(`/books/${book.id}`)
+    } else {
+      // Only Open Library works have an in-app detail page
+      window.open(book.selfLink, "_blank", "noopener,noreferrer")
+    }
+  }
+
+  return (
+    <div className="bg-background min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto px-4 py-6">
+        {isLoading || !selectedShelf ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="size-8" />
+          </div>
+        ) : (
+          <Tabs value={selectedShelf.id} onValueChange={handleShelfChange}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <TabsList className="flex-wrap">
+                {shelves.map((shelf) => (
+                  <TabsTrigger key={shelf.id} value={shelf.id}>
+                    {shelf.name}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              <div className="flex gap-2">
+                <NativeSelect
+                  aria-label="Sort books"
+                  value={sort}
+                  onChange={(e) => handleSortChange(e.target.value as ShelfSort)}
+                >
+                  <NativeSelectOption value={SHELF_SORTS.ADDED}>Recently added</NativeSelectOption>
+                  <NativeSelectOption value={SHELF_SORTS.RATING}>My rating</NativeSelectOption>
+                </NativeSelect>
+                <form onSubmit={handleCreateShelf} className="flex gap-2">
+                  <Input
+                    type="text"
+                    placeholder="New shelf name"
+                    value={newShelfName}
+                    onChange={(e) => setNewShelfName(e.target.value)}
+                    className="w-40"
+                  />
+                  <Button type="submit" variant="outline" disabled={isCreating || !newShelfName.trim()}>
+                    <PlusIcon />
+                    Create
+                  </Button>
+                </form>
+                <ExportMenu
+                  volumes={selectedShelfBooks.map((book) => book.volume)}
+                  filename={selectedShelf.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}
+                />
+                <Button variant="outline" nativeButton={false} render={<Link to="/library/import" />}>
+                  <FileUpIcon />
+                  Import
+                </Button>
+                {!isStatusShelfKind(selectedShelf.kind) && (
+                  <Button variant="destructive" onClick={handleDeleteShelf} disabled={isDeleting}>
+                    <Trash2Icon />
+                    Delete shelf
+                  </Button>
+                )}
+              </div>
+            </div>
+            {shelves.map((shelf) => (
+              <TabsContent key={shelf.id} value={shelf.id} className="pt-4">
+                <ShelfBooksGrid
+                  shelfId={shelf.id}
+                  onBookClick={handleBookClick}
+                  showProgress={shelf.kind === SHELF_KINDS.READING}
+                  sort={sort}
+                />
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </div>
+    </div>
+  )
+}
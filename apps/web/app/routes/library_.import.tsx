@@ -0,0 +1,137 @@
+import type { SchemaError } from "@my-library-app/errors"
+
+import { Alert, AlertDescription, AlertTitle, Button } from "@my-library-app/ui"
+import { ArrowLeftIcon, FileUpIcon } from "lucide-react"
+import { useRef, useState } from "react"
+import { Link, redirect, useNavigate } from "react-router"
+
+import { ImportReviewTable } from "@/components/import-review-table"
+import { Navigation } from "@/components/layout/navigation"
+import { useImportBooks } from "@/hooks/library"
+import { authService } from "@/services/auth-service"
+import { IMPORT_SOURCE_NAMES, type ImportFile, libraryImportService } from "@/services/library-import-service"
+
+import type { Route } from "./+types/library_.import"
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Import Library" },
+    { name: "description", content: "Import your reading history from Goodreads or StoryGraph" },
+  ]
+}
+
+export async function clientLoader() {
+  const result = await authService.getUser()
+  if (!result.ok) return redirect("/login")
+  return { user: result.value }
+}
+
+export default function LibraryImport() {
+  const navigate = useNavigate()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<ImportFile | null>(null)
+  const [parseError, setParseError] = useState<SchemaError | null>(null)
+  const { importBooks, isImporting, summary } = useImportBooks({
+    onSuccess: (summary) => {
+      if (summary.failed.length === 0) navigate("/library")
+    },
+  })
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const selected = e.target.files?.[0]
+    e.target.value = ""
+    if (!selected) return
+
+    const result = libraryImportService.parseExport(await selected.text())
+    setParseError(result.ok ? null : result.error)
+    setFile(result.ok ? result.value : null)
+  }
+
+  return (
+    <div className="bg-background min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto space-y-6 px-4 py-6">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Back to library"
+            render={<Link to="/library" />}
+            nativeButton={false}
+          >
+            <ArrowLeftIcon />
+          </Button>
+          <div>
+            <h1 className="text-lg font-medium">Import your library</h1>
+            <p className="text-muted-foreground text-xs">
+              {file
+                ? `${file.rows.length} books from your ${IMPORT_SOURCE_NAMES[file.source]} export`
+                : "Bring your reading history over from Goodreads or StoryGraph"}
+            </p>
+          </div>
+        </div>
+
+        {summary && summary.failed.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>{summary.failed.length} books could not be added to all their shelves</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-5">
+                {summary.failed.map(({ row, error, savedShelves }) => (
+                  <li key={row.line}>
+                    {row.title}: {error.message}
+                    {savedShelves.length > 0 && ` (added to ${savedShelves.join(", ")})`}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {file ? (
+          <ImportReviewTable
+            file={file}
+            isImporting={isImporting}
+            onImport={importBooks}
+            onCancel={() => setFile(null)}
+          />
+        ) : (
+          <div className="max-w-xl space-y-4">
+            <ul className="text-muted-foreground list-disc space-y-1 pl-5 text-xs">
+              <li>
+                Goodreads: open <strong>My Books</strong>, then <strong>Import and export</strong> and{" "}
+                <strong>Export Library</strong>.
+              </li>
+              <li>
+                StoryGraph: open <strong>Manage Account</strong>, then <strong>Export StoryGraph Library</strong>.
+              </li>
+            </ul>
+            <p className="text-muted-foreground text-xs">
+              Books are matched to Open Library by ISBN, or by title and author when there is none. You can review every
+              match before anything is added to your shelves.
+            </p>
+
+            {parseError && (
+              <Alert variant="destructive">
+                <AlertTitle>{parseError.message}</AlertTitle>
+                <AlertDescription>Choose the CSV file exported from Goodreads or StoryGraph.</AlertDescription>
+              </Alert>
+            )}
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button onClick={() => fileInputRef.current?.click()}>
+              <FileUpIcon />
+              Choose CSV export
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
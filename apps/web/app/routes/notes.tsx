@@ -0,0 +1,125 @@
+import {
+  Badge,
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  Input,
+  Spinner,
+  Typography,
+} from "@my-library-app/ui"
+import { NotebookPenIcon } from "lucide-react"
+import { Link, redirect, useSearchParams } from "react-router"
+
+import { Navigation } from "@/components/layout/navigation"
+import { useDebouncedValue } from "@/hooks"
+import { useNoteSearch } from "@/hooks/library"
+import { authService } from "@/services/auth-service"
+import { NOTE_KINDS } from "@/services/note-service"
+
+import type { Route } from "./+types/notes"
+
+/**
+ * Delay after the last keystroke before searching notes
+ */
+const SEARCH_DEBOUNCE_MS = 300
+
+export function meta({}: Route.MetaArgs) {
+  return [{ title: "Notes" }, { name: "description", content: "Search the quotes and notes you took while reading" }]
+}
+
+export async function clientLoader() {
+  const result = await authService.getUser()
+  if (!result.ok) return redirect("/login")
+  return { user: result.value }
+}
+
+export default function Notes() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  // Read the query from URL params (source of truth), so searches can be shared and survive reloads
+  const query = searchParams.get("q") ?? ""
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS)
+  const { notes, isLoading } = useNoteSearch({ query: debouncedQuery })
+
+  const handleQueryChange = (value: string): void => {
+    const newParams = new URLSearchParams(searchParams)
+    if (value) {
+      newParams.set("q", value)
+    } else {
+      newParams.delete("q")
+    }
+    setSearchParams(newParams, { replace: true })
+  }
+
+  return (
+    <div className="bg-background min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto max-w-3xl space-y-6 px-4 py-6">
+        <div className="space-y-1">
+          <Typography variant="h3">Notes</Typography>
+          <Typography variant="muted">
+            Search the text and tags of all your quotes and notes. Use &ldquo;quotes&rdquo; for exact phrases and -word
+            to exclude a word.
+          </Typography>
+        </div>
+
+        <Input
+          type="search"
+          aria-label="Search notes"
+          placeholder="Search notes..."
+          value={query}
+          onChange={(e) => handleQueryChange(e.target.value)}
+        />
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="size-8" />
+          </div>
+        ) : notes.length === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <NotebookPenIcon className="size-6" />
+              </EmptyMedia>
+              <EmptyTitle>{debouncedQuery ? "No matching notes" : "No notes yet"}</EmptyTitle>
+              <EmptyDescription>
+                {debouncedQuery
+                  ? "Try other words or fewer of them"
+                  : "Take notes and save quotes from the page of any book"}
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <ul className="space-y-4">
+            {notes.map((note) => (
+              <li key={note.id} className="space-y-2 border-b pb-4 last:border-b-0">
+                <Link to={`/books/${note.bookId}#notes`} className="text-sm font-semibold hover:underline">
+                  {note.bookTitle}
+                </Link>
+                {note.kind === NOTE_KINDS.QUOTE ? (
+                  <blockquote className="border-l-2 pl-4 text-sm leading-relaxed whitespace-pre-line italic">
+                    {note.content}
+                  </blockquote>
+                ) : (
+                  <p className="text-sm leading-relaxed whitespace-pre-line">{note.content}</p>
+                )}
+                <div className="text-muted-foreground flex flex-wrap items-center gap-2 text-xs">
+                  {note.page !== undefined && <span className="font-semibold">p. {note.page}</span>}
+                  {note.tags.map((tag) => (
+                    <Badge key={tag} variant="secondary">
+                      #{tag}
+                    </Badge>
+                  ))}
+                  <span>{new Date(note.createdAt).toLocaleDateString(undefined, { dateStyle: "medium" })}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
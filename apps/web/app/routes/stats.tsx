@@ -0,0 +1,245 @@
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+  NativeSelect,
+  NativeSelectOption,
+  Spinner,
+  Typography,
+} from "@my-library-app/ui"
+import { ChartColumnIcon } from "lucide-react"
+import { redirect, useSearchParams } from "react-router"
+
+import type { BookCount } from "@/services/reading-stats"
+
+import { ChartExportMenu } from "@/components/chart-export-menu"
+import { Navigation } from "@/components/layout/navigation"
+import { ReadingChallengesCard } from "@/components/reading-challenges-card"
+import { ReadingGoalCard } from "@/components/reading-goal-card"
+import { BookCountChart, ReadingPeriodsChart } from "@/components/reading-stats-charts"
+import { useReadingHistory, useShelfBooks, useShelves } from "@/hooks/library"
+import { authService } from "@/services/auth-service"
+import { SHELF_KINDS } from "@/services/library-service"
+import { computeReadingStats, getReadYears } from "@/services/reading-stats"
+
+import type { Route } from "./+types/stats"
+
+/**
+ * Value of the year selector summarising all the books read
+ */
+const ALL_YEARS = "all"
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: "Reading stats" },
+    { name: "description", content: "Statistics and goals of the books you have read" },
+  ]
+}
+
+export async function clientLoader() {
+  const result = await authService.getUser()
+  if (!result.ok) return redirect("/login")
+  return { user: result.value }
+}
+
+type StatCardProps = {
+  readonly label: string
+  readonly value: string
+  readonly description?: string
+}
+
+/**
+ * Card showing a single figure
+ */
+const StatCard = ({ label, value, description }: StatCardProps) => {
+  return (
+    <Card size="sm">
+      <CardHeader>
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+    </Card>
+  )
+}
+
+type ChartCardProps = {
+  readonly title: string
+  readonly description: string
+  /**
+   * Data points of the chart, which are exported
+   */
+  readonly rows: readonly object[]
+  /**
+   * Name of the file the chart data is exported to, without extension
+   */
+  readonly filename: string
+  readonly children: React.ReactNode
+}
+
+/**
+ * Card showing a chart, with a menu exporting its data
+ */
+const ChartCard = ({ title, description, rows, filename, children }: ChartCardProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+        <CardAction>
+          <ChartExportMenu rows={rows} filename={filename} />
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {rows.length > 0 ? children : <Typography variant="muted">Not enough data for this chart yet.</Typography>}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Converts book counts to rows named after the charted value, e.g. "subject", for export
+ */
+const toExportRows = (counts: readonly BookCount[], column: string): Record<string, string | number>[] => {
+  return counts.map(({ label, books }) => ({ [column]: label, books }))
+}
+
+export default function Stats() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { shelves, isLoading: isLoadingShelves } = useShelves()
+  const readShelf = shelves.find((shelf) => shelf.kind === SHELF_KINDS.READ)
+  const { books, isLoading: isLoadingBooks } = useShelfBooks(readShelf?.id)
+  const { sessions, isLoading: isLoadingSessions } = useReadingHistory()
+  const isLoading = isLoadingShelves || isLoadingBooks || isLoadingSessions
+
+  // Read the selected year from URL params (source of truth), defaulting to the current year
+  const years = getReadYears(books, sessions)
+  const currentYear = new Date().getFullYear()
+  const yearOptions = years.includes(currentYear) ? years : [currentYear, ...years]
+  const yearParam = searchParams.get("year") ?? currentYear.toString()
+  const year = yearParam === ALL_YEARS ? undefined : Number(yearParam)
+  const stats = computeReadingStats(books, sessions, year)
+  const filenamePrefix = `reading-stats-${year ?? ALL_YEARS}`
+
+  const handleYearChange = (value: string): void => {
+    const newParams = new URLSearchParams(searchParams)
+    newParams.set("year", value)
+    setSearchParams(newParams, { replace: true })
+  }
+
+  return (
+    <div className="bg-background min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto space-y-6 px-4 py-6">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <Typography variant="h3">Reading stats</Typography>
+            <Typography variant="muted">
+              Books count as read on the day you finished them, or added them to your Read shelf when unknown.
+            </Typography>
+          </div>
+          <NativeSelect aria-label="Year" value={yearParam} onChange={(e) => handleYearChange(e.target.value)}>
+            {yearOptions.map((option) => (
+              <NativeSelectOption key={option} value={option.toString()}>
+                {option}
+              </NativeSelectOption>
+            ))}
+            <NativeSelectOption value={ALL_YEARS}>All time</NativeSelectOption>
+          </NativeSelect>
+        </div>
+
+        {/* Goals are yearly, so they are only shown for a single year */}
+        {year !== undefined && !isLoading && (
+          <div className="grid gap-3 lg:grid-cols-2">
+            <ReadingGoalCard year={year} books={books} sessions={sessions} />
+            <ReadingChallengesCard year={year} books={books} sessions={sessions} />
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="size-8" />
+          </div>
+        ) : stats.totalBooks === 0 ? (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <ChartColumnIcon className="size-6" />
+              </EmptyMedia>
+              <EmptyTitle>No books read {year === undefined ? "yet" : `in ${year}`}</EmptyTitle>
+              <EmptyDescription>Add the books you finish to your Read shelf to see your stats here</EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              <StatCard label="Books read" value={stats.totalBooks.toLocaleString()} />
+              <StatCard label="Pages read" value={stats.totalPages.toLocaleString()} />
+              <StatCard
+                label="Average length"
+                value={stats.averagePages === undefined ? "–" : `${stats.averagePages.toLocaleString()} pages`}
+              />
+              <StatCard
+                label="Authors"
+                value={stats.distinctAuthors.toLocaleString()}
+                description={`${stats.repeatAuthors} read more than once`}
+              />
+            </div>
+
+            <div className="grid gap-3 lg:grid-cols-2">
+              <ChartCard
+                title={year === undefined ? "Books and pages per year" : "Books and pages per month"}
+                description="Pages come from your reading sessions, or the page count of books read without any"
+                rows={stats.periods}
+                filename={`${filenamePrefix}-books-and-pages`}
+              >
+                <ReadingPeriodsChart periods={stats.periods} className="max-h-72 w-full" />
+              </ChartCard>
+              <ChartCard
+                title="Subjects"
+                description="Books per subject, a book counting for each of its subjects"
+                rows={toExportRows(stats.subjects, "subject")}
+                filename={`${filenamePrefix}-subjects`}
+              >
+                <BookCountChart counts={stats.subjects} horizontal className="max-h-72 w-full" />
+              </ChartCard>
+              <ChartCard
+                title="Authors"
+                description={`Your most read authors, out of ${stats.distinctAuthors}`}
+                rows={toExportRows(stats.authors, "author")}
+                filename={`${filenamePrefix}-authors`}
+              >
+                <BookCountChart counts={stats.authors} horizontal className="max-h-72 w-full" />
+              </ChartCard>
+              <ChartCard
+                title="Publication decades"
+                description="When the books you read were published"
+                rows={toExportRows(stats.decades, "decade")}
+                filename={`${filenamePrefix}-publication-decades`}
+              >
+                <BookCountChart counts={stats.decades} className="max-h-72 w-full" />
+              </ChartCard>
+              <ChartCard
+                title="Book length"
+                description="Books per number of pages"
+                rows={toExportRows(stats.lengths, "pages")}
+                filename={`${filenamePrefix}-book-length`}
+              >
+                <BookCountChart counts={stats.lengths} className="max-h-72 w-full" />
+              </ChartCard>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
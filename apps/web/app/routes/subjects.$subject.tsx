@@ -0,0 +1,210 @@
+import { Alert, AlertDescription, AlertTitle, Badge, Button, Separator, Spinner, Typography } from "@my-library-app/ui"
+import { ArrowLeftIcon, ExternalLinkIcon } from "lucide-react"
+import { data, Link, redirect, useNavigate } from "react-router"
+
+import { BookCard } from "@/components/book-card"
+import { Navigation } from "@/components/layout/navigation"
+import { PublishYearChart } from "@/components/publish-year-chart"
+import { useInfiniteScroll, useInfiniteSubjectWorks } from "@/hooks"
+import { authService } from "@/services/auth-service"
+import { bookService, type Volume } from "@/services/book-service"
+import { CACHE_TTL, withPersistentCache } from "@/services/persistent-cache"
+
+import type { Route } from "./+types/subjects.$subject"
+
+const RELATED_SUBJECTS_LIMIT = 20
+const TOP_AUTHORS_LIMIT = 10
+
+export function meta({ loaderData }: Route.MetaArgs) {
+  return [
+    { title: loaderData ? loaderData.subject.name : "Subject" },
+    { name: "description", content: loaderData ? `Books about ${loaderData.subject.name}` : "Subject details" },
+  ]
+}
+
+export async function clientLoader({ params }: Route.ClientLoaderArgs) {
+  const userResult = await authService.getUser()
+  if (!userResult.ok) return redirect("/login")
+
+  // Subject figures change slowly, so they are persisted across reloads
+  const subjectResult = await withPersistentCache(`subject:${params.subject}`, CACHE_TTL.BOOK, () =>
+    bookService.getSubject(params.subject),
+  )
+  if (!subjectResult.ok) {
+    // Let the error boundary show a not found page for unknown subjects
+    if (subjectResult.error.kind === "http" && subjectResult.error.status === 404) {
+      throw data("Subject not found", { status: 404 })
+    }
+    throw subjectResult.error
+  }
+
+  return { subject: subjectResult.value }
+}
+
+export default function SubjectDetails({ loaderData }: Route.ComponentProps) {
+  const { subject } = loaderData
+  const navigate = useNavigate()
+
+  const {
+    data: worksData,
+    error,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteSubjectWorks({ subjectId: subject.id })
+
+  const sentinelRef = useInfiniteScroll({
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  })
+
+  const works = worksData?.pages.flatMap((page) => page.items) ?? []
+  const relatedSubjects = subject.relatedSubjects
+    .filter((related) => related.id !== subject.id)
+    .slice(0, RELATED_SUBJECTS_LIMIT)
+  const topAuthors = subject.topAuthors.slice(0, TOP_AUTHORS_LIMIT)
+
+  const handleBookClick = (book: Volume): void => {
+    navigate(`/books/${book.id}`)
+  }
+
+  return (
+    <div className="bg-background min-h-screen">
+      <Navigation />
+
+      <div className="container mx-auto space-y-8 px-4 py-6">
+        <Button variant="ghost" size="sm" nativeButton={false} render={<Link to="/" />}>
+          <ArrowLeftIcon />
+          Back to search
+        </Button>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Typography variant="h3" className="capitalize">
+              {subject.name}
+            </Typography>
+            <Typography variant="muted">
+              {subject.workCount} {subject.workCount === 1 ? "work" : "works"}
+            </Typography>
+          </div>
+
+          {relatedSubjects.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {relatedSubjects.map((related) => (
+                <Badge
+                  key={related.id}
+                  variant="secondary"
+                  render={<Link to={`/subjects/${encodeURIComponent(related.id)}`} />}
+                >
+                  {related.name}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            nativeButton={false}
+            render={<a href={subject.selfLink} target="_blank" rel="noopener noreferrer" />}
+          >
+            <ExternalLinkIcon />
+            View on Open Library
+          </Button>
+        </div>
+
+        <div className="grid gap-8 md:grid-cols-[2fr_1fr]">
+          {/* Publishing history */}
+          <section className="space-y-2">
+            <Typography variant="h4">Editions published</Typography>
+            {subject.publishingHistory.length > 0 ? (
+              <PublishYearChart history={subject.publishingHistory} className="max-h-64 w-full" />
+            ) : (
+              <Typography variant="muted">No publishing history for this subject.</Typography>
+            )}
+          </section>
+
+          {/* Top authors */}
+          <section className="space-y-2">
+            <Typography variant="h4">Top authors</Typography>
+            {topAuthors.length > 0 ? (
+              <ol className="space-y-1 text-sm">
+                {topAuthors.map((author) => (
+                  <li key={author.id} className="flex items-baseline justify-between gap-2">
+                    <Link to={`/authors/${author.id}`} className="truncate hover:underline">
+                      {author.name}
+                    </Link>
+                    <span className="text-muted-foreground shrink-0 text-xs">
+                      {author.count} {author.count === 1 ? "work" : "works"}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <Typography variant="muted">No authors found for this subject.</Typography>
+            )}
+          </section>
+        </div>
+
+        <Separator />
+
+        {/* Works */}
+        <section className="space-y-4">
+          <Typography variant="h4">
+            Works
+            {subject.workCount > 0 && (
+              <span className="text-muted-foreground ml-2 text-sm font-normal">
+                {works.length < subject.workCount
+                  ? `(showing ${works.length} of ${subject.workCount})`
+                  : `(${subject.workCount})`}
+              </span>
+            )}
+          </Typography>
+
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <Spinner className="size-8" />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTitle>Could not load the works of this subject</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          )}
+
+          {!isLoading && !error && works.length === 0 && (
+            <Typography variant="muted">No works found for this subject.</Typography>
+          )}
+
+          {works.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6">
+                {works.map((book) => (
+                  <BookCard key={book.id} book={book} onClick={handleBookClick} />
+                ))}
+              </div>
+              {/* Intersection observer target for infinite scroll */}
+              {hasNextPage && (
+                <div ref={sentinelRef} className="flex items-center justify-center py-8">
+                  {isFetchingNextPage && <Spinner className="size-6" />}
+                </div>
+              )}
+              {/* Load More button as fallback */}
+              {hasNextPage && !isFetchingNextPage && (
+                <div className="flex items-center justify-center py-4">
+                  <Button onClick={() => fetchNextPage()} variant="outline">
+                    Load More
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
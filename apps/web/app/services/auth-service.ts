@@ -1,8 +1,14 @@
-import { createClient, SupabaseClient, type Session, type User, type Provider } from "@supabase/supabase-js"
-
-type Result<TData, TError extends Error> =
-  | { readonly ok: true; readonly value: TData }
-  | { readonly ok: false; readonly error: TError }
+import { type AppError, AuthError, HttpError, NetworkError, RateLimitError, toAppError } from "@my-library-app/errors"
+import { err, ok, type Result } from "@my-library-app/result"
+import {
+  createClient,
+  isAuthRetryableFetchError,
+  SupabaseClient,
+  type AuthError as SupabaseAuthError,
+  type Session,
+  type User,
+  type Provider,
+} from "@supabase/supabase-js"
 
 type SignInWithOAuthOptions = {
   readonly provider: Provider
@@ -26,6 +32,19 @@ const getSupabaseClient = (): SupabaseClient => {
   return createClient(supabaseUrl, supabaseKey)
 }
 
+/**
+ * Creates the application error for a failed Supabase Auth request
+ *
+ * Auth requests that could not reach the server are network errors, throttled or failing servers keep their
+ * status, and every other failure means the user is not (or no longer) authenticated.
+ */
+const toAuthError = (message: string, error: SupabaseAuthError): AppError => {
+  if (isAuthRetryableFetchError(error)) return new NetworkError(message, { cause: error })
+  if (error.status === 429) return new RateLimitError(message, undefined, { cause: error })
+  if (error.status && error.status >= 500) return new HttpError(message, error.status, { cause: error })
+  return new AuthError(message, { cause: error })
+}
+
 /**
  * Builds the redirect URL for OAuth authentication
  */
@@ -40,61 +59,60 @@ export const authService = {
   /**
    * Gets the current session from Supabase
    */
-  async getSession(): Promise<Result<Session | null, Error>> {
+  async getSession(): Promise<Result<Session | null, AppError>> {
     try {
       const supabase = getSupabaseClient()
       const { data, error } = await supabase.auth.getSession()
 
       if (error) {
-        return {
-          ok: false,
-          error: new Error(`Failed to get session: ${error.message}`),
-        }
+        return err(toAuthError(`Failed to get session: ${error.message}`, error))
       }
 
-      return {
-        ok: true,
-        value: data.session,
-      }
+      return ok(data.session)
     } catch (error) {
-      return {
-        ok: false,
-        error: error instanceof Error ? error : new Error("Unknown error occurred while getting session"),
-      }
+      return err(toAppError(error, "Unknown error occurred while getting session"))
     }
   },
 
   /**
    * Gets the current user from Supabase
+   *
+   * Offline, the user of the locally stored session is returned, as verifying the user needs the network
    */
-  async getUser(): Promise<Result<User | null, Error>> {
+  async getUser(): Promise<Result<User | null, AppError>> {
     try {
       const supabase = getSupabaseClient()
-      const { data, error } = await supabase.auth.getUser()
 
-      if (error) {
-        return {
-          ok: false,
-          error: new Error(`Failed to get user: ${error.message}`),
+      if (!navigator.onLine) {
+        const { data, error } = await supabase.auth.getSession()
+
+        if (error) {
+          return err(toAuthError(`Failed to get user: ${error.message}`, error))
+        }
+
+        if (!data.session) {
+          return err(new NetworkError("Failed to get user: no stored session while offline"))
         }
+
+        return ok(data.session.user)
       }
 
-      return {
-        ok: true,
-        value: data.user,
+      const { data, error } = await supabase.auth.getUser()
+
+      if (error) {
+        return err(toAuthError(`Failed to get user: ${error.message}`, error))
       }
+
+      return ok(data.user)
     } catch (error) {
-      return {
-        ok: false,
-        error: error instanceof Error ? error : new Error("Unknown error occurred while getting user"),
-      }
+      return err(toAppError(error, "Unknown error occurred while getting user"))
     }
   },
 
   /**
    * Signs in with OAuth provider
    */
-  async signInWithOAuth(options: SignInWithOAuthOptions): Promise<Result<{ url: string } | null, Error>> {
+  async signInWithOAuth(options: SignInWithOAuthOptions): Promise<Result<{ url: string } | null, AppError>> {
     try {
       const supabase = getSupabaseClient()
       const redirectUrl = buildRedirectUrl(options.redirectTo)
@@ -107,48 +125,30 @@ export const authService = {
       })
 
       if (error) {
-        return {
-          ok: false,
-          error: new Error(`Failed to sign in with OAuth: ${error.message}`),
-        }
+        return err(toAuthError(`Failed to sign in with OAuth: ${error.message}`, error))
       }
 
-      return {
-        ok: true,
-        value: data,
-      }
+      return ok(data)
     } catch (error) {
-      return {
-        ok: false,
-        error: error instanceof Error ? error : new Error("Unknown error occurred while signing in with OAuth"),
-      }
+      return err(toAppError(error, "Unknown error occurred while signing in with OAuth"))
     }
   },
 
   /**
    * Signs out the current user
    */
-  async signOut(): Promise<Result<void, Error>> {
+  async signOut(): Promise<Result<void, AppError>> {
     try {
       const supabase = getSupabaseClient()
       const { error } = await supabase.auth.signOut()
 
       if (error) {
-        return {
-          ok: false,
-          error: new Error(`Failed to sign out: ${error.message}`),
-        }
+        return err(toAuthError(`Failed to sign out: ${error.message}`, error))
       }
 
-      return {
-        ok: true,
-        value: undefined,
-      }
+      return ok(undefined)
     } catch (error) {
-      return {
-        ok: false,
-        error: error instanceof Error ? error : new Error("Unknown error occurred while signing out"),
-      }
+      return err(toAppError(error, "Unknown error occurred while signing out"))
     }
   },
 
@@ -0,0 +1,151 @@
+import type { AppError } from "@my-library-app/errors"
+import type { Result } from "@my-library-app/result"
+
+import { toAppError, UnexpectedError } from "@my-library-app/errors"
+import { err, ok } from "@my-library-app/result"
+
+import { decodeEan13 } from "./ean13-decoder"
+
+/**
+ * Subset of the Barcode Detection API used by the scanner (not yet in the TypeScript DOM types)
+ */
+interface BarcodeDetector {
+  readonly detect: (source: ImageBitmapSource) => Promise<readonly { readonly rawValue: string }[]>
+}
+
+interface BarcodeDetectorConstructor {
+  new (options: { readonly formats: readonly string[] }): BarcodeDetector
+  readonly getSupportedFormats: () => Promise<string[]>
+}
+
+/**
+ * Image sources barcodes can be read from
+ */
+export type BarcodeSource = HTMLVideoElement | ImageBitmap
+
+/**
+ * Images are scaled down to this width before decoding, which is plenty for a barcode and keeps decoding fast
+ */
+const MAX_DECODE_WIDTH = 1280
+
+let detectorPromise: Promise<BarcodeDetector | undefined> | undefined
+
+/**
+ * Gets the native barcode detector, when the browser has one that reads EAN-13 barcodes
+ */
+const getNativeDetector = (): Promise<BarcodeDetector | undefined> => {
+  detectorPromise ??= (async () => {
+    const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+    if (!Detector) return undefined
+
+    try {
+      const formats = await Detector.getSupportedFormats()
+      return formats.includes("ean_13") ? new Detector({ formats: ["ean_13"] }) : undefined
+    } catch {
+      return undefined
+    }
+  })()
+
+  return detectorPromise
+}
+
+/**
+ * Gets the size of an image source
+ */
+const getSourceSize = (source: BarcodeSource): { readonly width: number; readonly height: number } => {
+  return source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.width, height: source.height }
+}
+
+/**
+ * Draws an image source on a canvas, scaled down if needed, and reads its pixels
+ */
+const readPixels = (source: BarcodeSource): ImageData | undefined => {
+  const size = getSourceSize(source)
+  if (size.width === 0 || size.height === 0) return undefined
+
+  const scale = Math.min(1, MAX_DECODE_WIDTH / size.width)
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(size.width * scale)
+  canvas.height = Math.round(size.height * scale)
+
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  if (!context) return undefined
+
+  context.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return context.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+/**
+ * Barcode service reading EAN-13 barcodes (which encode ISBN-13s on books) from the camera or photos
+ */
+export const barcodeService = {
+  /**
+   * Opens the rear camera, for scanning barcodes
+   */
+  async openCamera(): Promise<Result<MediaStream, AppError>> {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      return err(new UnexpectedError("This browser cannot access the camera"))
+    }
+
+    try {
+      return ok(
+        await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: { ideal: "environment" }, width: { ideal: 1280 } },
+          audio: false,
+        }),
+      )
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "NotAllowedError") {
+        return err(new UnexpectedError("Camera access was denied", { cause: error }))
+      }
+      if (error instanceof DOMException && error.name === "NotFoundError") {
+        return err(new UnexpectedError("No camera was found", { cause: error }))
+      }
+      return err(toAppError(error, "Unknown error occurred while opening the camera"))
+    }
+  },
+
+  /**
+   * Reads an EAN-13 barcode from a video frame or an image
+   *
+   * Uses the browser's barcode detector when available, falling back to decoding the pixels in JavaScript.
+   *
+   * @returns The 13 digits of the barcode, or null when none was found
+   */
+  async detectEan13(source: BarcodeSource): Promise<Result<string | null, AppError>> {
+    try {
+      const detector = await getNativeDetector()
+
+      if (detector) {
+        const barcodes = await detector.detect(source)
+        const code = barcodes.find((barcode) => /^\d{13}$/.test(barcode.rawValue))?.rawValue
+        if (code) return ok(code)
+      }
+
+      const pixels = readPixels(source)
+      return ok((pixels && decodeEan13(pixels)) ?? null)
+    } catch (error) {
+      return err(toAppError(error, "Unknown error occurred while reading the barcode"))
+    }
+  },
+
+  /**
+   * Reads an EAN-13 barcode from a photo file
+   *
+   * @returns The 13 digits of the barcode, or null when none was found
+   */
+  async detectEan13InFile(file: Blob): Promise<Result<string | null, AppError>> {
+    let bitmap: ImageBitmap | undefined
+
+    try {
+      bitmap = await createImageBitmap(file)
+      return await this.detectEan13(bitmap)
+    } catch (error) {
+      return err(toAppError(error, "Could not read the photo"))
+    } finally {
+      bitmap?.close()
+    }
+  },
+}
@@ -0,0 +1,281 @@
+import type { Book } from "@my-library-app/schemas"
+
+import { SchemaError } from "@my-library-app/errors"
+import { err, ok, type Result } from "@my-library-app/result"
+import { bookSchema, isbn13To10, toIsbn13 } from "@my-library-app/schemas"
+
+import type { Volume } from "./book-service"
+
+import { toCsv } from "./csv"
+import { normaliseText } from "./federated-search"
+import { downloadFile } from "./file-download"
+
+/**
+ * Formats books can be exported to
+ */
+export const EXPORT_FORMATS = {
+  CSV: "csv",
+  JSON: "json",
+  BIBTEX: "bibtex",
+  RIS: "ris",
+} as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[keyof typeof EXPORT_FORMATS]
+
+/**
+ * Display names of the export formats
+ */
+export const EXPORT_FORMAT_NAMES: Readonly<Record<ExportFormat, string>> = {
+  csv: "CSV (spreadsheet)",
+  json: "JSON",
+  bibtex: "BibTeX",
+  ris: "RIS (Zotero, EndNote, Mendeley)",
+}
+
+/**
+ * File extension and media type of each export format
+ */
+const EXPORT_FILE_TYPES: Readonly<Record<ExportFormat, { readonly extension: string; readonly mimeType: string }>> = {
+  csv: { extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  json: { extension: "json", mimeType: "application/json" },
+  bibtex: { extension: "bib", mimeType: "application/x-bibtex;charset=utf-8" },
+  ris: { extension: "ris", mimeType: "application/x-research-info-systems;charset=utf-8" },
+}
+
+/**
+ * Columns of the CSV export
+ */
+const CSV_COLUMNS = [
+  "Title",
+  "Authors",
+  "Year",
+  "Publisher",
+  "ISBN-13",
+  "ISBN-10",
+  "Pages",
+  "Language",
+  "Categories",
+  "Link",
+] as const
+
+/**
+ * Gets the publish year of a book from its publish date, which providers format in different ways
+ */
+const getYear = (book: Book): string | undefined => {
+  return book.publishedDate.match(/\d{4}/)?.[0]
+}
+
+/**
+ * Gets the ISBN-13 and ISBN-10 of a book, deriving either from the other when only one is known
+ */
+const getIsbns = (book: Book): { readonly isbn13?: string; readonly isbn10?: string } => {
+  const identifier =
+    book.industryIdentifiers?.find((candidate) => candidate.type === "ISBN_13") ?? book.industryIdentifiers?.[0]
+  const isbn13 = identifier && toIsbn13(identifier.identifier)
+
+  return {
+    isbn13,
+    isbn10: isbn13 && isbn13To10(isbn13),
+  }
+}
+
+/**
+ * Formats an author name as "Last, First", the form BibTeX and RIS parse reliably
+ *
+ * Names already containing a comma are kept, as are single names (e.g., organisations).
+ */
+const toLastFirst = (name: string): string => {
+  const parts = name.trim().split(/\s+/)
+  if (name.includes(",") || parts.length < 2) return name.trim()
+
+  return `${parts.at(-1)}, ${parts.slice(0, -1).join(" ")}`
+}
+
+/**
+ * Converts a volume to the portable book format of the JSON export
+ */
+const toBook = (volume: Volume): Book => {
+  const { volumeInfo } = volume
+
+  return {
+    id: volume.id,
+    selfLink: volume.selfLink,
+    title: volumeInfo.title,
+    authors: [...(volumeInfo.authors ?? [])],
+    publishedDate: volumeInfo.publishedDate,
+    categories: [...(volumeInfo.categories ?? [])],
+    publisher: volumeInfo.publisher,
+    language: volumeInfo.language,
+    pageCount: volumeInfo.pageCount,
+    imageLinks: volumeInfo.imageLinks,
+    industryIdentifiers: volumeInfo.industryIdentifiers?.map((identifier) => ({ ...identifier })),
+  }
+}
+
+/**
+ * Serialises books to CSV, one row per book with the authors and categories joined with semicolons
+ */
+const toCsvExport = (books: readonly Book[]): string => {
+  return toCsv([
+    CSV_COLUMNS,
+    ...books.map((book) => {
+      const { isbn13, isbn10 } = getIsbns(book)
+      return [
+        book.title,
+        book.authors.join("; "),
+        getYear(book) ?? "",
+        book.publisher ?? "",
+        isbn13 ?? "",
+        isbn10 ?? "",
+        book.pageCount?.toString() ?? "",
+        book.language ?? "",
+        book.categories.join("; "),
+        book.selfLink,
+      ]
+    }),
+  ])
+}
+
+/**
+ * Characters of BibTeX values escaped with a command rather than a backslash, which would start a command instead
+ */
+const BIBTEX_COMMANDS: Readonly<Record<string, string>> = {
+  "\\": "\\textbackslash{}",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+}
+
+/**
+ * Escapes the characters with a special meaning in BibTeX values
+ *
+ * Every character is escaped in a single pass, so the backslashes added are not escaped again.
+ */
+const escapeBibtex = (value: string): string => {
+  return value.replace(/[\\~^{}&%$#_]/g, (char) => BIBTEX_COMMANDS[char] ?? `\\${char}`)
+}
+
+/**
+ * Creates the BibTeX citation key of a book from its first author's last name, year and first significant title word
+ *
+ * Keys already taken get a letter suffix, as in "tolkien1954lord", "tolkien1954lorda".
+ */
+const getBibtexKey = (book: Book, taken: Set<string>): string => {
+  const lastName = book.authors[0] ? toLastFirst(book.authors[0]).split(",")[0] : "anonymous"
+  const titleWord = normaliseText(book.title)
+    .split(" ")
+    .find((word) => word.length > 3 && !["the", "with", "from"].includes(word))
+  const base = [normaliseText(lastName ?? "").replace(/ /g, ""), getYear(book) ?? "", titleWord ?? ""].join("")
+
+  let key = base
+  for (let index = 0; taken.has(key); index++) {
+    key = `${base}${index < 26 ? String.fromCharCode(97 + index) : index}`
+  }
+
+  taken.add(key)
+  return key
+}
+
+/**
+ * Serialises books to BibTeX `@book` entries
+ */
+const toBibtexExport = (books: readonly Book[]): string => {
+  const taken = new Set<string>()
+
+  return books
+    .map((book) => {
+      const { isbn13 } = getIsbns(book)
+      const fields: [string, string | undefined][] = [
+        ["title", book.title],
+        // BibTeX separates authors with "and"
+        ["author", book.authors.length > 0 ? book.authors.map(toLastFirst).join(" and ") : undefined],
+        ["year", getYear(book)],
+        ["publisher", book.publisher],
+        ["isbn", isbn13],
+        ["pagetotal", book.pageCount?.toString()],
+        ["language", book.language],
+        ["url", book.selfLink],
+      ]
+      const body = fields
+        .filter((field): field is [string, string] => Boolean(field[1]))
+        .map(([name, value]) => `  ${name} = {${name === "url" ? value : escapeBibtex(value)}}`)
+        .join(",\n")
+
+      return `@book{${getBibtexKey(book, taken)},\n${body}\n}\n`
+    })
+    .join("\n")
+}
+
+/**
+ * Serialises books to RIS records, with one `AU` tag per author and one `KW` tag per category
+ */
+const toRisExport = (books: readonly Book[]): string => {
+  return books
+    .map((book) => {
+      const { isbn13 } = getIsbns(book)
+      const tags: [string, string | undefined][] = [
+        ["TY", "BOOK"],
+        ["TI", book.title],
+        ...book.authors.map((author): [string, string] => ["AU", toLastFirst(author)]),
+        ["PY", getYear(book)],
+        ["PB", book.publisher],
+        ["SN", isbn13],
+        ["LA", book.language],
+        ...book.categories.map((category): [string, string] => ["KW", category]),
+        ["UR", book.selfLink],
+        ["ER", ""],
+      ]
+
+      return tags
+        .filter(([tag, value]) => tag === "ER" || Boolean(value))
+        .map(([tag, value]) => `${tag}  - ${value}`)
+        .join("\r\n")
+    })
+    .join("\r\n\r\n")
+    .concat("\r\n")
+}
+
+/**
+ * Book export service serialising volumes (e.g., a search page or a shelf) to citation and data formats
+ */
+export const bookExportService = {
+  /**
+   * Serialises volumes to an export format
+   *
+   * Volumes are first converted to the portable `Book` format and validated against its schema, so every format
+   * gets the same checked data.
+   */
+  serialize(volumes: readonly Volume[], format: ExportFormat): Result<string, SchemaError> {
+    const parseResult = bookSchema.array().safeParse(volumes.map(toBook))
+    if (!parseResult.success) {
+      return err(new SchemaError("Some books cannot be exported", parseResult.error.issues))
+    }
+
+    const books = parseResult.data
+
+    switch (format) {
+      case EXPORT_FORMATS.CSV:
+        return ok(toCsvExport(books))
+      case EXPORT_FORMATS.JSON:
+        return ok(`${JSON.stringify(books, null, 2)}\n`)
+      case EXPORT_FORMATS.BIBTEX:
+        return ok(toBibtexExport(books))
+      case EXPORT_FORMATS.RIS:
+        return ok(toRisExport(books))
+    }
+  },
+
+  /**
+   * Serialises volumes and downloads the export from the browser
+   *
+   * @param filename - File name without extension, which is added for the format
+   */
+  download(volumes: readonly Volume[], format: ExportFormat, filename: string): Result<void, SchemaError> {
+    const result = this.serialize(volumes, format)
+    if (!result.ok) return result
+
+    const { extension, mimeType } = EXPORT_FILE_TYPES[format]
+    downloadFile(result.value, `${filename}.${extension}`, mimeType)
+
+    return ok(undefined)
+  },
+}
@@ -0,0 +1,48 @@
+import type { AppError } from "@my-library-app/errors"
+import type { Result } from "@my-library-app/result"
+
+import type { SearchOptions, VolumeSearchResponse } from "../book-service"
+
+/**
+ * Identifiers of the available book catalogue providers
+ */
+export const BOOK_PROVIDERS = {
+  OPEN_LIBRARY: "openlibrary",
+  GOOGLE_BOOKS: "googlebooks",
+} as const
+
+export type BookProviderId = (typeof BOOK_PROVIDERS)[keyof typeof BOOK_PROVIDERS]
+
+/**
+ * Offsets to continue a search from, keyed by provider
+ *
+ * A cursor with a single provider pins pagination to that provider, while a cursor with several
+ * providers continues a federated search.
+ */
+export type SearchCursor = Readonly<Partial<Record<BookProviderId, number>>>
+
+/**
+ * Per-request options passed to a provider
+ */
+export interface BookProviderRequestOptions {
+  readonly signal?: AbortSignal
+}
+
+/**
+ * Book catalogue that can be searched and returns results in Volume format
+ */
+export interface BookProvider {
+  readonly id: BookProviderId
+  readonly name: string
+  readonly searchBooks: (
+    options: SearchOptions,
+    requestOptions?: BookProviderRequestOptions,
+  ) => Promise<Result<VolumeSearchResponse, AppError>>
+}
+
+/**
+ * Checks whether a string is a known book provider ID
+ */
+export const isBookProviderId = (value: string): value is BookProviderId => {
+  return Object.values(BOOK_PROVIDERS).includes(value as BookProviderId)
+}
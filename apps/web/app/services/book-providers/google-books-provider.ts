@@ -0,0 +1,267 @@
+import type { AppError } from "@my-library-app/errors"
+import type { Result } from "@my-library-app/result"
+import type {
+  GoogleBooksVolume,
+  GoogleBooksVolumesResponse,
+  Iso6391Language,
+  SearchBookLanguage,
+  SearchBookQuery,
+} from "@my-library-app/schemas"
+
+import { SchemaError, toAppError } from "@my-library-app/errors"
+import { getIsbnType, googleBooksVolumesResponseSchema, iso6391LanguageOptionsSchema } from "@my-library-app/schemas"
+
+import type { SearchField, SearchOptions, Volume, VolumeInfo, VolumeSearchResponse } from "../book-service"
+
+import { createRequestPipeline } from "../request-pipeline"
+import { hasFacetFilters } from "../search-facets"
+import { BOOK_PROVIDERS, type BookProvider } from "./book-provider"
+
+type IndustryIdentifier = NonNullable<VolumeInfo["industryIdentifiers"]>[number]
+
+const GOOGLE_BOOKS_BASE_URL = "https://www.googleapis.com/books/v1/volumes"
+
+/**
+ * Google Books caps `maxResults` at 40
+ */
+const GOOGLE_BOOKS_MAX_RESULTS = 40
+
+/**
+ * Request pipeline shared by every Google Books request, well under the API's per-user rate limit
+ */
+const googleBooksPipeline = createRequestPipeline({ requestsPerSecond: 5, burst: 5 })
+
+/**
+ * Google Books search keywords for each search field
+ */
+const GOOGLE_BOOKS_FIELD_KEYWORDS: Readonly<Record<SearchField, string>> = {
+  title: "intitle",
+  author: "inauthor",
+  publisher: "inpublisher",
+  subject: "subject",
+  isbn: "isbn",
+}
+
+/**
+ * Google Books returns ISO 639-1 language codes, while volumes use the Open Library (MARC) codes
+ */
+const GOOGLE_BOOKS_LANGUAGES: Readonly<Record<Iso6391Language, SearchBookLanguage>> = {
+  en: "eng",
+  es: "spa",
+  ca: "cat",
+}
+
+/**
+ * Criteria Google Books has no search keyword for
+ */
+const UNSUPPORTED_CRITERIA = [
+  "place",
+  "person",
+  "publish_year",
+  "first_publish_year",
+] as const satisfies readonly (keyof SearchBookQuery)[]
+
+/**
+ * Builds the Google Books query, combining the search field with the supported advanced criteria
+ */
+const buildSearchQuery = (options: SearchOptions): Result<string, AppError> => {
+  const { query, field, advanced = {} } = options
+  const unsupported = UNSUPPORTED_CRITERIA.filter((criterion) => advanced[criterion] !== undefined)
+
+  if (options.filters && hasFacetFilters(options.filters)) {
+    return {
+      ok: false,
+      error: new SchemaError("Google Books does not support facet filters"),
+    }
+  }
+
+  if (unsupported.length > 0) {
+    return {
+      ok: false,
+      error: new SchemaError(
+        `Google Books does not support searching by ${unsupported.join(", ")}`,
+        unsupported.map((criterion) => ({ path: ["advanced", criterion], message: "Not supported by Google Books" })),
+      ),
+    }
+  }
+
+  const text = query.trim()
+  const criteria: Partial<Record<SearchField, string>> = {
+    title: advanced.title,
+    author: advanced.author,
+    publisher: advanced.publisher,
+    subject: advanced.subject,
+    isbn: advanced.isbn,
+    ...(field && text ? { [field]: text } : {}),
+  }
+
+  const terms = [field ? "" : text, advanced.q ?? ""]
+  for (const [criterion, value] of Object.entries(criteria)) {
+    if (value) terms.push(`${GOOGLE_BOOKS_FIELD_KEYWORDS[criterion as SearchField]}:${value}`)
+  }
+
+  const searchQuery = terms.filter(Boolean).join(" ")
+
+  if (!searchQuery) {
+    return {
+      ok: false,
+      error: new SchemaError("Search request has no criteria"),
+    }
+  }
+
+  return {
+    ok: true,
+    value: searchQuery,
+  }
+}
+
+/**
+ * Builds the complete URL for the Google Books API request
+ *
+ * Google Books can only restrict results to a language, so the soft `lang` preference is ignored
+ */
+const buildApiUrl = (options: SearchOptions): Result<string, AppError> => {
+  const searchQuery = buildSearchQuery(options)
+
+  if (!searchQuery.ok) return searchQuery
+
+  const params = new URLSearchParams({
+    q: searchQuery.value,
+    printType: "books",
+  })
+
+  const language = Object.entries(GOOGLE_BOOKS_LANGUAGES).find(([, code]) => code === options.advanced?.language)
+  if (language) {
+    params.append("langRestrict", language[0])
+  }
+
+  // Google Books only supports relevance (default) and newest ordering
+  if (options.sort === "new") {
+    params.append("orderBy", "newest")
+  }
+
+  if (options.maxResults !== undefined) {
+    params.append("maxResults", Math.min(options.maxResults, GOOGLE_BOOKS_MAX_RESULTS).toString())
+  }
+
+  if (options.startIndex !== undefined) {
+    params.append("startIndex", options.startIndex.toString())
+  }
+
+  const apiKey = import.meta.env.VITE_GOOGLE_BOOKS_API_KEY
+  if (apiKey) {
+    params.append("key", apiKey)
+  }
+
+  return {
+    ok: true,
+    value: `${GOOGLE_BOOKS_BASE_URL}?${params.toString()}`,
+  }
+}
+
+/**
+ * Forces image links to HTTPS, as Google Books still returns plain HTTP URLs
+ */
+const toHttps = (url?: string): string | undefined => {
+  return url?.replace(/^http:\/\//, "https://")
+}
+
+/**
+ * Transforms Google Books volume to Volume format
+ */
+const transformGoogleBooksVolume = (volume: GoogleBooksVolume): Volume => {
+  const info = volume.volumeInfo
+  const language = iso6391LanguageOptionsSchema.safeParse(info.language)
+  const thumbnail = toHttps(info.imageLinks?.thumbnail)
+  const smallThumbnail = toHttps(info.imageLinks?.smallThumbnail)
+  const industryIdentifiers = info.industryIdentifiers?.flatMap(({ type, identifier }): IndustryIdentifier[] =>
+    // Google Books also returns ISSN and "OTHER" identifiers, which volumes do not model
+    (type === "ISBN_10" || type === "ISBN_13") && getIsbnType(identifier) === type ? [{ type, identifier }] : [],
+  )
+
+  const volumeInfo: VolumeInfo = {
+    title: info.subtitle ? `${info.title ?? "Untitled"}: ${info.subtitle}` : (info.title ?? "Untitled"),
+    authors: info.authors,
+    // Keep only the year to match Open Library's first publish year
+    publishedDate: info.publishedDate?.slice(0, 4) || "Unknown",
+    categories: info.categories,
+    publisher: info.publisher,
+    language: language.success ? GOOGLE_BOOKS_LANGUAGES[language.data] : undefined,
+    pageCount: info.pageCount,
+    imageLinks:
+      thumbnail || smallThumbnail
+        ? {
+            thumbnail,
+            smallThumbnail,
+          }
+        : undefined,
+    industryIdentifiers: industryIdentifiers?.length ? industryIdentifiers : undefined,
+  }
+
+  return {
+    id: volume.id,
+    source: BOOK_PROVIDERS.GOOGLE_BOOKS,
+    volumeInfo,
+    selfLink: info.infoLink ?? `https://books.google.com/books?id=${volume.id}`,
+  }
+}
+
+/**
+ * Transforms Google Books search response to VolumeSearchResponse format
+ */
+const transformGoogleBooksResponse = (
+  response: GoogleBooksVolumesResponse,
+  startIndex: number,
+): VolumeSearchResponse => {
+  const itemCount = response.items?.length ?? 0
+  const nextOffset = startIndex + itemCount
+
+  return {
+    kind: response.kind,
+    totalItems: response.totalItems,
+    items: response.items?.map(transformGoogleBooksVolume),
+    nextCursor:
+      itemCount > 0 && nextOffset < response.totalItems ? { [BOOK_PROVIDERS.GOOGLE_BOOKS]: nextOffset } : undefined,
+  }
+}
+
+/**
+ * Book provider backed by the Google Books API
+ *
+ * Works without an API key, but `VITE_GOOGLE_BOOKS_API_KEY` raises the rate limit
+ */
+export const googleBooksProvider: BookProvider = {
+  id: BOOK_PROVIDERS.GOOGLE_BOOKS,
+  name: "Google Books",
+
+  async searchBooks(options, requestOptions = {}): Promise<Result<VolumeSearchResponse, AppError>> {
+    try {
+      const url = buildApiUrl(options)
+
+      if (!url.ok) return url
+
+      const response = await googleBooksPipeline.fetchJson(url.value, { signal: requestOptions.signal })
+
+      if (!response.ok) return response
+
+      const parseResult = googleBooksVolumesResponseSchema.safeParse(response.value)
+
+      if (!parseResult.success) {
+        return {
+          ok: false,
+          error: new SchemaError("Invalid API response", parseResult.error.issues),
+        }
+      }
+
+      return {
+        ok: true,
+        value: transformGoogleBooksResponse(parseResult.data, options.startIndex ?? 0),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while searching books"),
+      }
+    }
+  },
+}
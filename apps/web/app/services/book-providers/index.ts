@@ -0,0 +1,5 @@
+export type { BookProvider, BookProviderId, BookProviderRequestOptions, SearchCursor } from "./book-provider"
+
+export { BOOK_PROVIDERS, isBookProviderId } from "./book-provider"
+export { googleBooksProvider } from "./google-books-provider"
+export { openLibraryProvider } from "./open-library-provider"
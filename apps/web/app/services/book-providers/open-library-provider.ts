@@ -0,0 +1,491 @@
+import type { AppError } from "@my-library-app/errors"
+import type { OpenLibraryText, SearchBookField, SearchBookLanguage, SearchBookRequest } from "@my-library-app/schemas"
+
+import { SchemaError, toAppError } from "@my-library-app/errors"
+import { all, map, type Result } from "@my-library-app/result"
+import {
+  getIsbnType,
+  normalizeIsbn,
+  searchBookLanguageOptionsSchema,
+  searchBookResponseSchema,
+} from "@my-library-app/schemas"
+
+import type { SearchOptions, Volume, VolumeInfo, VolumeSearchResponse } from "../book-service"
+
+import { createRequestPipeline } from "../request-pipeline"
+import {
+  type FacetCount,
+  type SearchFacetFilters,
+  type SearchFacets,
+  splitYearRange,
+  toFacetCounts,
+  type ValueFacet,
+  type YearRangeCount,
+} from "../search-facets"
+import { BOOK_PROVIDERS, type BookProvider, type BookProviderRequestOptions } from "./book-provider"
+import { buildSearchParams } from "./open-library-query-builder"
+
+/**
+ * Open Library document from search results
+ */
+interface OpenLibraryDoc {
+  readonly key: string
+  readonly title: string
+  readonly subtitle?: string
+  readonly author_name?: readonly string[]
+  readonly author_key?: readonly string[]
+  readonly first_publish_year?: number
+  readonly isbn?: readonly string[]
+  readonly cover_i?: number
+  readonly cover_edition_key?: string
+  readonly subject?: readonly string[]
+  readonly publisher?: readonly string[]
+  readonly language?: readonly (SearchBookLanguage | string)[]
+  readonly edition_count?: number
+  readonly number_of_pages_median?: number
+}
+
+/**
+ * Open Library search response matching the schema structure
+ */
+interface OpenLibrarySearchResponse {
+  readonly num_found: number
+  readonly start: number
+  readonly q: string
+  readonly documentation_url: string
+  readonly docs: readonly OpenLibraryDoc[]
+}
+
+export const OPEN_LIBRARY_BASE_URL = "https://openlibrary.org"
+
+/**
+ * Fields requested from the search API, to keep responses small and fast
+ */
+const SEARCH_FIELDS: SearchBookField[] = [
+  "key",
+  "title",
+  "subtitle",
+  "author_name",
+  "author_key",
+  "first_publish_year",
+  "isbn",
+  "cover_i",
+  "cover_edition_key",
+  "subject",
+  "publisher",
+  "language",
+  "edition_count",
+  "number_of_pages_median",
+]
+
+/**
+ * Number of top results whose values are the candidates of the facets
+ */
+const FACET_SAMPLE_SIZE = 40
+
+/**
+ * Fields requested for the facet candidates
+ */
+const FACET_SAMPLE_FIELDS: SearchBookField[] = [
+  "key",
+  "title",
+  "subject",
+  "author_name",
+  "publisher",
+  "language",
+  "first_publish_year",
+]
+
+/**
+ * Number of values counted per facet besides the selected ones, each costing a request
+ */
+const FACET_VALUE_LIMITS: Readonly<Record<ValueFacet, number>> = {
+  subjects: 6,
+  authors: 4,
+  publishers: 4,
+  languages: 4,
+}
+
+/**
+ * Number of ranges of the first publish year histogram, each costing a request
+ */
+const YEAR_RANGE_COUNT = 6
+
+/**
+ * Builds the search request for the given options, adding the single-field query to any advanced criteria
+ */
+const buildSearchRequest = (options: SearchOptions): SearchBookRequest => {
+  const { query, field, advanced } = options
+  const text = query.trim()
+
+  return {
+    query: {
+      ...advanced,
+      ...(text ? { [field ?? "q"]: text } : {}),
+    },
+    fields: SEARCH_FIELDS,
+    sort: options.sort,
+    lang: options.lang,
+    limit: options.maxResults,
+    offset: options.startIndex,
+  }
+}
+
+/**
+ * Builds the complete URL for the Open Library API request
+ */
+const buildApiUrl = (request: SearchBookRequest, filters?: SearchFacetFilters): Result<string, AppError> => {
+  const paramsResult = buildSearchParams(request, filters)
+
+  if (!paramsResult.ok) return paramsResult
+
+  const params = paramsResult.value
+  params.append("type", "work")
+
+  // Wildcards make the API return these fields for every document
+  for (const field of ["isbn", "oclc", "author", "title", "publisher"]) {
+    params.append(field, "*")
+  }
+
+  return {
+    ok: true,
+    value: `${OPEN_LIBRARY_BASE_URL}/search.json?${params.toString()}`,
+  }
+}
+
+/**
+ * Request pipeline shared by every Open Library request
+ *
+ * Open Library asks clients to identify themselves with a User-Agent including a contact, and allows identified
+ * clients up to 3 requests per second. The contact falls back to the app's origin when `VITE_OPEN_LIBRARY_CONTACT` is
+ * unset or empty.
+ *
+ * A custom header makes every cross-origin request send a CORS preflight first, and some browsers ignore a
+ * User-Agent set from scripts and send their own instead, in which case requests count as anonymous.
+ */
+const openLibraryPipeline = createRequestPipeline({
+  requestsPerSecond: 3,
+  burst: 3,
+  headers: {
+    "User-Agent": `My Library App (${import.meta.env.VITE_OPEN_LIBRARY_CONTACT || window.location.origin})`,
+  },
+})
+
+/**
+ * Fetches and decodes a JSON document from the Open Library API
+ *
+ * Requests are rate limited, retried on transient failures and de-duplicated while in flight.
+ */
+export const fetchOpenLibraryJson = (url: string, signal?: AbortSignal): Promise<Result<unknown, AppError>> => {
+  return openLibraryPipeline.fetchJson(url, { signal })
+}
+
+/**
+ * Fetches and validates the Open Library search results of a request
+ */
+const fetchSearchResponse = async (
+  request: SearchBookRequest,
+  filters: SearchFacetFilters | undefined,
+  signal: AbortSignal | undefined,
+): Promise<Result<OpenLibrarySearchResponse, AppError>> => {
+  const url = buildApiUrl(request, filters)
+
+  if (!url.ok) return url
+
+  const response = await fetchOpenLibraryJson(url.value, signal)
+
+  if (!response.ok) return response
+
+  // Validate the Open Library response data with Zod schema
+  const parseResult = searchBookResponseSchema.safeParse(response.value)
+
+  if (!parseResult.success) {
+    return {
+      ok: false,
+      error: new SchemaError("Invalid API response", parseResult.error.issues),
+    }
+  }
+
+  return {
+    ok: true,
+    value: parseResult.data,
+  }
+}
+
+/**
+ * Gets Open Library cover image URL
+ */
+export const getCoverImageUrl = (coverId?: number, size: "S" | "M" | "L" = "M"): string | undefined => {
+  // Open Library uses -1 as a placeholder for removed covers
+  if (!coverId || coverId < 0) return undefined
+
+  return `https://covers.openlibrary.org/b/id/${coverId}-${size}.jpg`
+}
+
+/**
+ * Gets Open Library author photo URL
+ */
+export const getAuthorPhotoUrl = (photoId?: number, size: "S" | "M" | "L" = "M"): string | undefined => {
+  if (!photoId || photoId < 0) return undefined
+
+  return `https://covers.openlibrary.org/a/id/${photoId}-${size}.jpg`
+}
+
+/**
+ * Extracts the Open Library ID from a key (e.g., "/works/OL123456W" -> "OL123456W")
+ */
+export const extractOpenLibraryId = (key: string): string => {
+  return key.split("/").pop() || key
+}
+
+/**
+ * Reads the value of an Open Library text field, which may be a plain string or a typed text object
+ */
+export const getTextValue = (text?: OpenLibraryText): string | undefined => {
+  if (text === undefined) return undefined
+
+  return typeof text === "string" ? text : text.value
+}
+
+/**
+ * Returns the first language of a list that is a supported SearchBookLanguage
+ */
+export const getValidLanguage = (
+  languages?: readonly (SearchBookLanguage | string)[],
+): SearchBookLanguage | undefined => {
+  for (const lang of languages ?? []) {
+    const parseResult = searchBookLanguageOptionsSchema.safeParse(lang)
+
+    if (parseResult.success) return parseResult.data
+  }
+
+  return undefined
+}
+
+/**
+ * Transforms Open Library document to Volume format
+ */
+const transformOpenLibraryDocToVolume = (doc: OpenLibraryDoc): Volume => {
+  const thumbnail = getCoverImageUrl(doc.cover_i, "L")
+  const smallThumbnail = getCoverImageUrl(doc.cover_i, "S")
+
+  const volumeInfo: VolumeInfo = {
+    title: doc.title,
+    authors: doc.author_name,
+    authorIds: doc.author_key,
+    publishedDate: doc.first_publish_year?.toString() || "Unknown",
+    categories: doc.subject?.slice(0, 5), // Limit subjects to first 5
+    publisher: doc.publisher?.[0],
+    language: getValidLanguage(doc.language),
+    pageCount: doc.number_of_pages_median,
+    imageLinks:
+      thumbnail || smallThumbnail
+        ? {
+            thumbnail,
+            smallThumbnail,
+          }
+        : undefined,
+    // Open Library lists every edition's ISBNs, including some with bad check digits
+    industryIdentifiers: doc.isbn
+      ?.flatMap((isbn) => {
+        const type = getIsbnType(isbn)
+        return type ? [{ type, identifier: normalizeIsbn(isbn) }] : []
+      })
+      .slice(0, 5),
+  }
+
+  return {
+    id: extractOpenLibraryId(doc.key),
+    source: BOOK_PROVIDERS.OPEN_LIBRARY,
+    volumeInfo,
+    selfLink: `${OPEN_LIBRARY_BASE_URL}${doc.key}`,
+  }
+}
+
+/**
+ * Transforms Open Library search response to VolumeSearchResponse format
+ */
+const transformOpenLibraryResponse = (response: OpenLibrarySearchResponse): VolumeSearchResponse => {
+  // Offsets count raw documents, including the untitled ones filtered out below
+  const nextOffset = response.start + response.docs.length
+
+  return {
+    kind: "openlibrary#volumes",
+    totalItems: response.num_found,
+    items: response.docs.filter((doc) => doc.title).map(transformOpenLibraryDocToVolume),
+    nextCursor:
+      response.docs.length > 0 && nextOffset < response.num_found
+        ? { [BOOK_PROVIDERS.OPEN_LIBRARY]: nextOffset }
+        : undefined,
+  }
+}
+
+/**
+ * Book provider backed by the Open Library search API
+ */
+export const openLibraryProvider: BookProvider = {
+  id: BOOK_PROVIDERS.OPEN_LIBRARY,
+  name: "Open Library",
+
+  async searchBooks(options, requestOptions = {}): Promise<Result<VolumeSearchResponse, AppError>> {
+    try {
+      const response = await fetchSearchResponse(buildSearchRequest(options), options.filters, requestOptions.signal)
+
+      // Transform Open Library response to VolumeSearchResponse format
+      return map(response, transformOpenLibraryResponse)
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while searching books"),
+      }
+    }
+  },
+}
+
+/**
+ * Checks whether a language of a search document is one the search can be narrowed to
+ */
+const isSearchBookLanguage = (language: string): language is SearchBookLanguage => {
+  return searchBookLanguageOptionsSchema.safeParse(language).success
+}
+
+/**
+ * Gets the most frequent values of a facet in some documents, each value counted once per document
+ */
+const getTopValues = <TValue extends string>(
+  valuesPerDoc: readonly (readonly TValue[] | undefined)[],
+  limit: number,
+): TValue[] => {
+  const counts = new Map<TValue, number>()
+  valuesPerDoc.forEach((values) => new Set(values).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1)))
+
+  return [...counts]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([value]) => value)
+}
+
+/**
+ * Gets the facet counts of an Open Library search, counting every matching result
+ *
+ * Open Library's search API does not return facet counts, so the candidate values are taken from the top results and
+ * each one is counted with a search narrowed to it that requests a single document. The selected values are always
+ * counted. Years are counted in ranges spanning the first publish years of the top results and the selected range.
+ */
+export const getOpenLibrarySearchFacets = async (
+  options: SearchOptions,
+  requestOptions: BookProviderRequestOptions = {},
+): Promise<Result<SearchFacets, AppError>> => {
+  try {
+    const { signal } = requestOptions
+    const filters = options.filters ?? {}
+    const request = { ...buildSearchRequest(options), offset: undefined }
+
+    const sample = await fetchSearchResponse(
+      { ...request, fields: FACET_SAMPLE_FIELDS, limit: FACET_SAMPLE_SIZE },
+      filters,
+      signal,
+    )
+
+    if (!sample.ok) return sample
+
+    const { docs } = sample.value
+
+    const countResults = async (narrowedFilters: SearchFacetFilters): Promise<Result<number, AppError>> =>
+      map(
+        await fetchSearchResponse(
+          { ...request, fields: ["key", "title"], sort: undefined, limit: 1 },
+          narrowedFilters,
+          signal,
+        ),
+        (response) => response.num_found,
+      )
+
+    // A facet's own selection is replaced by the counted value, since values of a facet are alternatives
+    const countValues = async <TValue extends string>(
+      facet: ValueFacet,
+      selected: readonly TValue[] = [],
+      candidates: readonly TValue[],
+    ): Promise<Result<FacetCount<TValue>[], AppError>> => {
+      const values = [...new Set([...selected, ...candidates])]
+      const counts = all(await Promise.all(values.map((value) => countResults({ ...filters, [facet]: [value] }))))
+
+      return map(counts, (counts) =>
+        toFacetCounts(values.map((value, index) => ({ value, count: counts[index] ?? 0 }))),
+      )
+    }
+
+    const countYears = async (): Promise<Result<YearRangeCount[], AppError>> => {
+      const years = [
+        ...docs.flatMap((doc) => (doc.first_publish_year === undefined ? [] : [doc.first_publish_year])),
+        ...(filters.firstPublishYear ? [filters.firstPublishYear.start, filters.firstPublishYear.end] : []),
+      ]
+      if (years.length === 0) return { ok: true, value: [] }
+
+      const ranges = splitYearRange({ start: Math.min(...years), end: Math.max(...years) }, YEAR_RANGE_COUNT)
+      const counts = all(
+        await Promise.all(ranges.map((range) => countResults({ ...filters, firstPublishYear: range }))),
+      )
+
+      return map(counts, (counts) => ranges.map((range, index) => ({ ...range, count: counts[index] ?? 0 })))
+    }
+
+    const [subjects, authors, publishers, languages, firstPublishYears] = await Promise.all([
+      countValues(
+        "subjects",
+        filters.subjects,
+        getTopValues(
+          docs.map((doc) => doc.subject),
+          FACET_VALUE_LIMITS.subjects,
+        ),
+      ),
+      countValues(
+        "authors",
+        filters.authors,
+        getTopValues(
+          docs.map((doc) => doc.author_name),
+          FACET_VALUE_LIMITS.authors,
+        ),
+      ),
+      countValues(
+        "publishers",
+        filters.publishers,
+        getTopValues(
+          docs.map((doc) => doc.publisher),
+          FACET_VALUE_LIMITS.publishers,
+        ),
+      ),
+      countValues(
+        "languages",
+        filters.languages,
+        getTopValues(
+          docs.map((doc) => doc.language?.filter(isSearchBookLanguage)),
+          FACET_VALUE_LIMITS.languages,
+        ),
+      ),
+      countYears(),
+    ])
+
+    if (!subjects.ok) return subjects
+    if (!authors.ok) return authors
+    if (!publishers.ok) return publishers
+    if (!languages.ok) return languages
+    if (!firstPublishYears.ok) return firstPublishYears
+
+    return {
+      ok: true,
+      value: {
+        subjects: subjects.value,
+        authors: authors.value,
+        publishers: publishers.value,
+        languages: languages.value,
+        firstPublishYears: firstPublishYears.value,
+      },
+    }
+  } catch (error) {
+    return {
+      ok: false,
+      error: toAppError(error, "Unknown error occurred while counting search facets"),
+    }
+  }
+}
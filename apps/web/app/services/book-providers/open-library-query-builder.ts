@@ -0,0 +1,206 @@
+import type { Result } from "@my-library-app/result"
+import type { SearchBookQuery, SearchBookRequest } from "@my-library-app/schemas"
+
+import { type AppError, SchemaError } from "@my-library-app/errors"
+import { searchBookRequestSchema } from "@my-library-app/schemas"
+
+import type { SearchFacetFilters } from "../search-facets"
+
+/**
+ * Token of a free-text criterion
+ */
+type QueryToken =
+  | { readonly type: "term"; readonly value: string; readonly negated: boolean }
+  | { readonly type: "phrase"; readonly value: string; readonly negated: boolean }
+  | { readonly type: "or" }
+
+/**
+ * Text criteria, in the order they are compiled
+ */
+const TEXT_FIELDS = [
+  "q",
+  "title",
+  "author",
+  "subject",
+  "place",
+  "person",
+  "publisher",
+  "isbn",
+  "title_suggest",
+] as const satisfies readonly (keyof SearchBookQuery)[]
+
+/**
+ * Characters with a special meaning in the Solr query syntax
+ */
+const SOLR_SPECIAL_CHARACTERS = /[+\-&|!(){}[\]^"~*?:\\/]/g
+
+/**
+ * Escapes a single term so Solr matches it literally
+ */
+export const escapeSolrTerm = (term: string): string => {
+  // Upper-case boolean keywords would be read as operators; Solr lower-cases terms anyway
+  if (/^(AND|OR|NOT)$/.test(term)) return term.toLowerCase()
+
+  return term.replace(SOLR_SPECIAL_CHARACTERS, "\\$&")
+}
+
+/**
+ * Quotes a phrase so Solr matches the words in order
+ */
+const quoteSolrPhrase = (phrase: string): string => {
+  return `"${phrase.replace(/["\\]/g, "\\$&")}"`
+}
+
+/**
+ * Splits free text into terms, quoted phrases and `OR` operators
+ *
+ * A leading `-` excludes a term or phrase (e.g., `tolkien -hobbit`, `-"short stories"`).
+ */
+const tokenize = (text: string): QueryToken[] => {
+  const tokens: QueryToken[] = []
+
+  for (const match of text.matchAll(/(-?)"([^"]*)"|(\S+)/g)) {
+    const [, negation, phrase, word] = match
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) tokens.push({ type: "phrase", value: phrase.trim(), negated: negation === "-" })
+    } else if (word === "OR") {
+      tokens.push({ type: "or" })
+    } else if (word !== undefined) {
+      const negated = word.startsWith("-") && word.length > 1
+      tokens.push({ type: "term", value: negated ? word.slice(1) : word, negated })
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Compiles free text into a parenthesised Solr boolean expression
+ *
+ * Terms are combined with `AND` unless separated by `OR`; excluded terms become `NOT`.
+ * Returns undefined when the text contains nothing searchable.
+ */
+export const compileText = (text: string): string | undefined => {
+  const parts: string[] = []
+  let pendingOperator: "AND" | "OR" = "AND"
+
+  for (const token of tokenize(text)) {
+    if (token.type === "or") {
+      pendingOperator = "OR"
+      continue
+    }
+
+    const operand = token.type === "phrase" ? quoteSolrPhrase(token.value) : escapeSolrTerm(token.value)
+
+    if (parts.length > 0) parts.push(pendingOperator)
+    parts.push(token.negated ? `NOT ${operand}` : operand)
+    pendingOperator = "AND"
+  }
+
+  return parts.length > 0 ? `(${parts.join(" ")})` : undefined
+}
+
+/**
+ * Compiles search criteria into an Open Library Solr query, combining every criterion with `AND`
+ *
+ * @example
+ * ```ts
+ * compileSearchQuery({ title: "lord rings", author: "tolkien", first_publish_year: { start: 1950, end: 1960 } })
+ * // => 'title:(lord AND rings) AND author:(tolkien) AND first_publish_year:[1950 TO 1960]'
+ * ```
+ */
+export const compileSearchQuery = (query: SearchBookQuery): string => {
+  const clauses: string[] = []
+
+  for (const field of TEXT_FIELDS) {
+    const value = query[field]
+    const compiled = value ? compileText(value) : undefined
+
+    if (compiled) {
+      // Free text is not bound to any field
+      clauses.push(field === "q" ? compiled : `${field}:${compiled}`)
+    }
+  }
+
+  if (query.language) {
+    clauses.push(`language:${query.language}`)
+  }
+
+  if (query.publish_year !== undefined) {
+    clauses.push(`publish_year:${query.publish_year}`)
+  }
+
+  if (query.first_publish_year) {
+    clauses.push(`first_publish_year:[${query.first_publish_year.start} TO ${query.first_publish_year.end}]`)
+  }
+
+  return clauses.join(" AND ")
+}
+
+/**
+ * Compiles facet filters into Solr clauses, one per facet, matching any of its selected values
+ *
+ * @example
+ * ```ts
+ * compileFacetFilters({ subjects: ["Fantasy", "Fiction"], languages: ["eng"] })
+ * // => ['subject:("Fantasy" OR "Fiction")', 'language:(eng)']
+ * ```
+ */
+export const compileFacetFilters = (filters: SearchFacetFilters): string[] => {
+  const facetFields = [
+    ["subject", filters.subjects],
+    ["author_name", filters.authors],
+    ["publisher", filters.publishers],
+    ["language", filters.languages],
+  ] as const
+  const clauses = facetFields.flatMap(([field, values = []]) =>
+    values.length > 0 ? [`${field}:(${values.map(quoteSolrPhrase).join(" OR ")})`] : [],
+  )
+
+  if (filters.firstPublishYear) {
+    clauses.push(`first_publish_year:[${filters.firstPublishYear.start} TO ${filters.firstPublishYear.end}]`)
+  }
+
+  return clauses
+}
+
+/**
+ * Validates a search request and compiles it into Open Library search parameters, narrowed by any facet filters
+ */
+export const buildSearchParams = (
+  request: SearchBookRequest,
+  filters: SearchFacetFilters = {},
+): Result<URLSearchParams, AppError> => {
+  const parseResult = searchBookRequestSchema.safeParse(request)
+
+  if (!parseResult.success) {
+    return {
+      ok: false,
+      error: new SchemaError("Invalid search request", parseResult.error.issues),
+    }
+  }
+
+  const { query, fields, sort, lang, offset, limit } = parseResult.data
+  const q = [compileSearchQuery(query), ...compileFacetFilters(filters)].filter(Boolean).join(" AND ")
+
+  if (!q) {
+    return {
+      ok: false,
+      error: new SchemaError("Search request has no criteria"),
+    }
+  }
+
+  const params = new URLSearchParams({ q })
+
+  if (fields) params.append("fields", fields.join(","))
+  if (sort) params.append("sort", sort)
+  if (lang) params.append("lang", lang)
+  if (limit !== undefined) params.append("limit", limit.toString())
+  if (offset !== undefined) params.append("offset", offset.toString())
+
+  return {
+    ok: true,
+    value: params,
+  }
+}
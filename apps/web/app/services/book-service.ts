@@ -1,10 +1,56 @@
-import type { SearchBookLanguage, SearchSort } from "@my-library-app/schemas"
-
-import { searchBookResponseSchema } from "@my-library-app/schemas"
-
-type Result<TData, TError extends Error> =
-  | { readonly ok: true; readonly value: TData }
-  | { readonly ok: false; readonly error: TError }
+import type { AppError } from "@my-library-app/errors"
+import type {
+  AuthorResponse,
+  EditionResponse,
+  Iso6391Language,
+  SearchBookField,
+  SearchBookLanguage,
+  SearchBookQuery,
+  SearchSort,
+  SubjectResponse,
+  SubjectWorkResponse,
+  WorkResponse,
+} from "@my-library-app/schemas"
+
+import { SchemaError, type SchemaIssue, toAppError, UnexpectedError } from "@my-library-app/errors"
+import { andThen, err, map, ok, type Result } from "@my-library-app/result"
+import {
+  authorResponseSchema,
+  authorWorksResponseSchema,
+  editionsResponseSchema,
+  isbnSchema,
+  isValidIsbn10,
+  isValidIsbn13,
+  normalizeIsbn,
+  searchBookResponseSchema,
+  subjectResponseSchema,
+  workResponseSchema,
+} from "@my-library-app/schemas"
+
+import type { SearchFacetFilters, SearchFacets } from "./search-facets"
+
+import {
+  BOOK_PROVIDERS,
+  googleBooksProvider,
+  isBookProviderId,
+  openLibraryProvider,
+  type BookProvider,
+  type BookProviderId,
+  type BookProviderRequestOptions,
+  type SearchCursor,
+} from "./book-providers"
+import {
+  extractOpenLibraryId,
+  fetchOpenLibraryJson,
+  getAuthorPhotoUrl,
+  getCoverImageUrl,
+  getOpenLibrarySearchFacets,
+  getTextValue,
+  getValidLanguage,
+  OPEN_LIBRARY_BASE_URL,
+} from "./book-providers/open-library-provider"
+import { buildSearchParams } from "./book-providers/open-library-query-builder"
+import { mergeSearchResponses } from "./federated-search"
 
 /**
  * Search field type for book searches
@@ -20,6 +66,32 @@ export interface SearchOptions {
   readonly sort?: SearchSort
   readonly maxResults?: number
   readonly startIndex?: number
+  /**
+   * Structured criteria combined with `query`; all of them must match
+   */
+  readonly advanced?: SearchBookQuery
+  /**
+   * Preferred language: ranks books in this language first without excluding the others
+   *
+   * Use `advanced.language` to exclude books in other languages instead.
+   */
+  readonly lang?: Iso6391Language
+  /**
+   * Facet values narrowing the results
+   */
+  readonly filters?: SearchFacetFilters
+  /**
+   * Provider to search; when omitted, providers are tried in fallback order
+   */
+  readonly provider?: BookProviderId
+  /**
+   * Searches all configured providers in parallel and merges their results
+   */
+  readonly federated?: boolean
+  /**
+   * Continues a previous search from the per-provider offsets of its `nextCursor`, overriding the options above
+   */
+  readonly cursor?: SearchCursor
 }
 
 /**
@@ -28,6 +100,10 @@ export interface SearchOptions {
 export interface VolumeInfo {
   readonly title: string
   readonly authors?: readonly string[]
+  /**
+   * Open Library IDs of the authors (e.g., "OL23919A"), in the same order as `authors`
+   */
+  readonly authorIds?: readonly string[]
   readonly publishedDate: string
   readonly categories?: readonly string[]
   readonly publisher?: string
@@ -48,6 +124,7 @@ export interface VolumeInfo {
  */
 export interface Volume {
   readonly id: string
+  readonly source: BookProviderId
   readonly volumeInfo: VolumeInfo
   readonly selfLink: string
 }
@@ -59,37 +136,148 @@ export interface VolumeSearchResponse {
   readonly kind: string
   readonly totalItems: number
   readonly items?: readonly Volume[]
+  /**
+   * Cursor for the next page, or undefined when every provider is exhausted
+   */
+  readonly nextCursor: SearchCursor | undefined
+}
+
+/**
+ * Options for listing the editions of a work
+ */
+export interface EditionOptions {
+  readonly maxResults?: number
+  readonly startIndex?: number
 }
 
 /**
- * Open Library document from search results
+ * Work containing the edition-independent metadata of a book
  */
-interface OpenLibraryDoc {
-  readonly key: string
+export interface Work {
+  readonly id: string
   readonly title: string
   readonly subtitle?: string
-  readonly author_name?: readonly string[]
-  readonly author_key?: readonly string[]
-  readonly first_publish_year?: number
-  readonly isbn?: readonly string[]
-  readonly cover_i?: number
-  readonly cover_edition_key?: string
-  readonly subject?: readonly string[]
-  readonly publisher?: readonly string[]
-  readonly language?: readonly (SearchBookLanguage | string)[]
-  readonly edition_count?: number
-  readonly number_of_pages_median?: number
+  readonly description?: string
+  readonly subjects: readonly string[]
+  readonly covers: readonly string[]
+  readonly authorIds: readonly string[]
+  readonly firstPublishDate?: string
+  readonly selfLink: string
+}
+
+/**
+ * Edition representing a specific published version of a work
+ */
+export interface Edition {
+  readonly id: string
+  readonly title: string
+  readonly publisher?: string
+  readonly publishedDate: string
+  readonly pageCount?: number
+  readonly language?: SearchBookLanguage
+  readonly format?: string
+  readonly imageLinks?: VolumeInfo["imageLinks"]
+  readonly industryIdentifiers?: VolumeInfo["industryIdentifiers"]
+  readonly selfLink: string
+}
+
+/**
+ * Paginated list of editions of a work
+ */
+export interface EditionList {
+  readonly totalItems: number
+  readonly items: readonly Edition[]
+}
+
+/**
+ * Options for listing the works of an author
+ */
+export interface AuthorWorksOptions {
+  readonly maxResults?: number
+  readonly startIndex?: number
+  /**
+   * Name shown as the author of the works, which the works list does not include
+   */
+  readonly authorName?: string
+}
+
+/**
+ * Paginated list of the works of an author
+ */
+export interface AuthorWorkList {
+  readonly totalItems: number
+  readonly items: readonly Volume[]
+}
+
+/**
+ * Author with biographical information
+ */
+export interface Author {
+  readonly id: string
+  readonly name: string
+  readonly alternateNames: readonly string[]
+  readonly bio?: string
+  readonly birthDate?: string
+  readonly deathDate?: string
+  readonly photoUrl?: string
+  readonly selfLink: string
 }
 
 /**
- * Open Library search response matching the schema structure
+ * Subject, person, place or time with its number of works
  */
-interface OpenLibrarySearchResponse {
-  readonly num_found: number
-  readonly start: number
-  readonly q: string
-  readonly documentation_url: string
-  readonly docs: readonly OpenLibraryDoc[]
+export interface SubjectCount {
+  /**
+   * Open Library subject ID (e.g., "science_fiction") or author ID (e.g., "OL23919A")
+   */
+  readonly id: string
+  readonly name: string
+  readonly count: number
+}
+
+/**
+ * Subject with the figures describing its works
+ */
+export interface Subject {
+  readonly id: string
+  readonly name: string
+  readonly workCount: number
+  readonly relatedSubjects: readonly SubjectCount[]
+  readonly topAuthors: readonly SubjectCount[]
+  /**
+   * Number of editions published each year, in ascending year order
+   */
+  readonly publishingHistory: readonly { readonly year: number; readonly count: number }[]
+  readonly selfLink: string
+}
+
+/**
+ * Options for listing the works of a subject
+ */
+export interface SubjectWorksOptions {
+  readonly maxResults?: number
+  readonly startIndex?: number
+}
+
+/**
+ * Paginated list of the works of a subject
+ */
+export interface SubjectWorkList {
+  readonly totalItems: number
+  readonly items: readonly Volume[]
+}
+
+/**
+ * Title suggested while the user types a search
+ */
+export interface BookSuggestion {
+  /**
+   * Open Library work ID (e.g., "OL45804W")
+   */
+  readonly id: string
+  readonly title: string
+  readonly authors: readonly string[]
+  readonly thumbnail?: string
 }
 
 /**
@@ -104,97 +292,309 @@ export const SEARCH_FIELDS = {
 } as const
 
 /**
- * Builds a search query string with optional field specifier
+ * Gets the Open Library subject ID of a subject name or category (e.g., "Science Fiction" is "science_fiction")
+ */
+export const getSubjectId = (name: string): string => {
+  return name.trim().toLowerCase().replace(/\s+/g, "_")
+}
+
+/**
+ * Converts a work and its authors to a volume, the format books are saved to shelves in
  */
-const buildSearchQuery = (options: SearchOptions): string => {
-  const { query, field } = options
+export const getWorkVolume = (work: Work, authors: readonly Author[]): Volume => {
+  const cover = work.covers[0]
 
-  if (field) {
-    // Open Library uses field:value format
-    return `${field}:${query}`
+  return {
+    id: work.id,
+    source: BOOK_PROVIDERS.OPEN_LIBRARY,
+    volumeInfo: {
+      title: work.subtitle ? `${work.title}: ${work.subtitle}` : work.title,
+      authors: authors.length > 0 ? authors.map(({ name }) => name) : undefined,
+      authorIds: authors.length > 0 ? authors.map(({ id }) => id) : undefined,
+      publishedDate: work.firstPublishDate ?? "Unknown",
+      categories: work.subjects.slice(0, 5),
+      imageLinks: cover ? { thumbnail: cover } : undefined,
+    },
+    selfLink: work.selfLink,
   }
+}
+
+/**
+ * Fields requested for suggestions, only what the suggestion list shows
+ */
+const SUGGEST_FIELDS = ["key", "title", "author_name", "cover_i"] as const satisfies readonly SearchBookField[]
 
-  return query
+/**
+ * Providers tried in order when no provider is requested explicitly
+ */
+const DEFAULT_PROVIDER_ORDER: readonly BookProviderId[] = [BOOK_PROVIDERS.OPEN_LIBRARY, BOOK_PROVIDERS.GOOGLE_BOOKS]
+
+const PROVIDERS_BY_ID: Readonly<Record<BookProviderId, BookProvider>> = {
+  openlibrary: openLibraryProvider,
+  googlebooks: googleBooksProvider,
 }
 
 /**
- * Builds the complete URL for the Open Library API request
+ * Time after which a provider is considered too slow and the next one is tried
  */
-const buildApiUrl = (options: SearchOptions): string => {
-  const baseUrl = "https://openlibrary.org/search.json"
-  const searchQuery = buildSearchQuery(options)
-  const params = new URLSearchParams({
-    q: searchQuery,
-    type: "work",
-    isbn: "*",
-    oclc: "*",
-    author: "*",
-    title: "*",
-    publisher: "*",
+const PROVIDER_TIMEOUT_MS = 8000
 
-    // Request specific fields to optimize response size and speed
-    fields:
-      "key,title,subtitle,author_name,author_key,first_publish_year,isbn,cover_i,cover_edition_key,subject,publisher,language,edition_count,number_of_pages_median",
-  })
+/**
+ * Page size of federated searches when `maxResults` is not given
+ */
+const FEDERATED_PAGE_SIZE = 20
 
-  if (options.sort) {
-    params.append("sort", options.sort)
-  }
+/**
+ * Gets the providers to try for a search, in order
+ *
+ * The fallback order can be configured with `VITE_BOOK_PROVIDERS` (comma-separated provider IDs)
+ */
+const getProviders = (provider?: BookProviderId): readonly BookProvider[] => {
+  if (provider) return [PROVIDERS_BY_ID[provider]]
 
-  if (options.maxResults !== undefined) {
-    params.append("limit", options.maxResults.toString())
+  const configuredOrder =
+    import.meta.env.VITE_BOOK_PROVIDERS?.split(",")
+      .map((id) => id.trim())
+      .filter(isBookProviderId) ?? []
+
+  return (configuredOrder.length > 0 ? configuredOrder : DEFAULT_PROVIDER_ORDER).map((id) => PROVIDERS_BY_ID[id])
+}
+
+/**
+ * Combines the caller's signal with the provider timeout
+ */
+const getProviderSignal = (signal?: AbortSignal): AbortSignal => {
+  const timeout = AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+  return signal ? AbortSignal.any([signal, timeout]) : timeout
+}
+
+/**
+ * Schema validating an API response, such as the Zod schemas of `@my-library-app/schemas`
+ */
+interface ResponseSchema<TData> {
+  readonly safeParse: (
+    value: unknown,
+  ) => { success: true; data: TData } | { success: false; error: { issues: readonly SchemaIssue[] } }
+}
+
+/**
+ * Validates an API response against its schema
+ */
+const parseApiResponse = <TData>(schema: ResponseSchema<TData>, value: unknown): Result<TData, SchemaError> => {
+  const parseResult = schema.safeParse(value)
+  return parseResult.success
+    ? ok(parseResult.data)
+    : err(new SchemaError("Invalid API response", parseResult.error.issues))
+}
+
+/**
+ * Searches providers in order, falling back to the next one when a provider fails or times out
+ *
+ * Aborting the caller's signal stops the search instead of falling back.
+ */
+const searchWithFallback = async (
+  providers: readonly BookProvider[],
+  options: SearchOptions,
+  requestOptions: BookProviderRequestOptions,
+): Promise<Result<VolumeSearchResponse, AppError>> => {
+  let lastError: AppError = new UnexpectedError("No book providers configured")
+
+  for (const provider of providers) {
+    const result = await provider.searchBooks(options, { signal: getProviderSignal(requestOptions.signal) })
+
+    if (result.ok || requestOptions.signal?.aborted) return result
+
+    lastError = result.error
   }
 
-  if (options.startIndex !== undefined) {
-    params.append("offset", options.startIndex.toString())
+  return err(lastError)
+}
+
+/**
+ * Searches providers in parallel, each from its own offset, and merges their results
+ *
+ * The page size is split between providers so a merged page stays close to `maxResults`. Providers that fail
+ * are left out of the page as long as at least one succeeds, but keep their offset in the next cursor so the next page
+ * retries them. Providers only leave the cursor once their own results are exhausted.
+ */
+const searchFederated = async (
+  offsets: readonly { readonly provider: BookProvider; readonly startIndex: number }[],
+  options: SearchOptions,
+  requestOptions: BookProviderRequestOptions,
+): Promise<Result<VolumeSearchResponse, AppError>> => {
+  const maxResults = Math.ceil((options.maxResults ?? FEDERATED_PAGE_SIZE) / Math.max(offsets.length, 1))
+
+  const results = await Promise.all(
+    offsets.map(({ provider, startIndex }) =>
+      provider.searchBooks(
+        { ...options, startIndex, maxResults },
+        { signal: getProviderSignal(requestOptions.signal) },
+      ),
+    ),
+  )
+
+  const responses = results.flatMap((result) => (result.ok ? [result.value] : []))
+  const firstError = results.find((result) => !result.ok)
+
+  if (responses.length === 0) {
+    return firstError ?? err(new UnexpectedError("No book providers configured"))
   }
 
-  //searchBookLanguageOptionsSchema.options.forEach((language) => params.append("language", language))
+  const merged = mergeSearchResponses(responses, options.sort)
+  const failedOffsets = offsets.flatMap(({ provider, startIndex }, index) =>
+    results[index]?.ok === false ? [[provider.id, startIndex] as const] : [],
+  )
 
-  return `${baseUrl}?${params.toString()}`
+  return ok(
+    failedOffsets.length > 0
+      ? { ...merged, nextCursor: { ...merged.nextCursor, ...Object.fromEntries(failedOffsets) } }
+      : merged,
+  )
 }
 
 /**
- * Gets Open Library cover image URL
+ * Searches the providers selected by the options: a cursor's providers, every provider, or the fallback chain
  */
-const getCoverImageUrl = (coverId?: number, size: "S" | "M" | "L" = "M"): string | undefined => {
-  if (!coverId) return undefined
+const searchProviders = (
+  options: SearchOptions,
+  requestOptions: BookProviderRequestOptions,
+): Promise<Result<VolumeSearchResponse, AppError>> => {
+  if (options.cursor) {
+    const offsets = Object.entries(options.cursor) as [BookProviderId, number][]
+
+    return offsets.length === 1
+      ? searchWithFallback(
+          offsets.map(([id]) => PROVIDERS_BY_ID[id]),
+          { ...options, startIndex: offsets[0]?.[1] },
+          requestOptions,
+        )
+      : searchFederated(
+          offsets.map(([id, startIndex]) => ({ provider: PROVIDERS_BY_ID[id], startIndex })),
+          options,
+          requestOptions,
+        )
+  }
+
+  if (options.federated) {
+    return searchFederated(
+      getProviders().map((provider) => ({ provider, startIndex: options.startIndex ?? 0 })),
+      options,
+      requestOptions,
+    )
+  }
 
-  return `https://covers.openlibrary.org/b/id/${coverId}-${size}.jpg`
+  return searchWithFallback(getProviders(options.provider), options, requestOptions)
 }
 
 /**
- * Filters and returns the first valid SearchBookLanguage from a list
+ * Transforms Open Library work response to Work format
  */
-const getValidLanguage = (languages?: readonly (SearchBookLanguage | string)[]): SearchBookLanguage | undefined => {
-  if (!languages) return undefined
+const transformOpenLibraryWork = (work: WorkResponse): Work => {
+  return {
+    id: extractOpenLibraryId(work.key),
+    title: work.title,
+    subtitle: work.subtitle,
+    description: getTextValue(work.description),
+    subjects: work.subjects ?? [],
+    covers: (work.covers ?? []).flatMap((coverId) => getCoverImageUrl(coverId, "L") ?? []),
+    authorIds: (work.authors ?? []).map(({ author }) => extractOpenLibraryId(author.key)),
+    firstPublishDate: work.first_publish_date,
+    selfLink: `${OPEN_LIBRARY_BASE_URL}${work.key}`,
+  }
+}
 
-  const validLanguages: SearchBookLanguage[] = ["eng", "spa", "cat", "mul"]
+/**
+ * Transforms an Open Library work of an author's works list to Volume format
+ */
+const transformOpenLibraryAuthorWork = (work: WorkResponse, authorId: string, authorName?: string): Volume => {
+  const coverId = work.covers?.[0]
+  const thumbnail = getCoverImageUrl(coverId, "M")
+  const smallThumbnail = getCoverImageUrl(coverId, "S")
 
-  for (const lang of languages) {
-    if (validLanguages.includes(lang as SearchBookLanguage)) {
-      return lang as SearchBookLanguage
-    }
+  return {
+    id: extractOpenLibraryId(work.key),
+    source: BOOK_PROVIDERS.OPEN_LIBRARY,
+    volumeInfo: {
+      title: work.subtitle ? `${work.title}: ${work.subtitle}` : work.title,
+      authors: authorName ? [authorName] : undefined,
+      authorIds: [authorId],
+      publishedDate: work.first_publish_date || "Unknown",
+      categories: work.subjects?.slice(0, 5),
+      imageLinks: thumbnail || smallThumbnail ? { thumbnail, smallThumbnail } : undefined,
+    },
+    selfLink: `${OPEN_LIBRARY_BASE_URL}${work.key}`,
   }
+}
+
+/**
+ * Transforms an Open Library work of a subject's works list to Volume format
+ */
+const transformOpenLibrarySubjectWork = (work: SubjectWorkResponse): Volume => {
+  const coverId = work.cover_id ?? undefined
+  const thumbnail = getCoverImageUrl(coverId, "M")
+  const smallThumbnail = getCoverImageUrl(coverId, "S")
+
+  return {
+    id: extractOpenLibraryId(work.key),
+    source: BOOK_PROVIDERS.OPEN_LIBRARY,
+    volumeInfo: {
+      title: work.title,
+      authors: work.authors?.map(({ name }) => name),
+      authorIds: work.authors?.map(({ key }) => extractOpenLibraryId(key)),
+      publishedDate: work.first_publish_year?.toString() ?? "Unknown",
+      categories: work.subject?.slice(0, 5),
+      imageLinks: thumbnail || smallThumbnail ? { thumbnail, smallThumbnail } : undefined,
+    },
+    selfLink: `${OPEN_LIBRARY_BASE_URL}${work.key}`,
+  }
+}
 
-  return undefined
+/**
+ * Transforms an Open Library subject response with details to Subject format
+ */
+const transformOpenLibrarySubject = (subject: SubjectResponse): Subject => {
+  const toCount = ({ key, name, count }: { key: string; name: string; count: number }): SubjectCount => ({
+    id: extractOpenLibraryId(key),
+    name,
+    count,
+  })
+
+  return {
+    id: extractOpenLibraryId(subject.key),
+    name: subject.name,
+    workCount: subject.work_count,
+    relatedSubjects: (subject.subjects ?? []).map(toCount),
+    topAuthors: (subject.authors ?? []).map(toCount),
+    publishingHistory: (subject.publishing_history ?? [])
+      // Some editions have placeholder years such as 0 or 9999
+      .filter(([year]) => year > 0 && year <= new Date().getFullYear())
+      .map(([year, count]) => ({ year, count }))
+      .sort((a, b) => a.year - b.year),
+    selfLink: `${OPEN_LIBRARY_BASE_URL}${subject.key}`,
+  }
 }
 
 /**
- * Transforms Open Library document to Volume format
+ * Transforms Open Library edition to Edition format
  */
-const transformOpenLibraryDocToVolume = (doc: OpenLibraryDoc): Volume => {
-  const thumbnail = getCoverImageUrl(doc.cover_i, "L")
-  const smallThumbnail = getCoverImageUrl(doc.cover_i, "S")
+const transformOpenLibraryEdition = (edition: EditionResponse): Edition => {
+  const coverId = edition.covers?.[0]
+  const thumbnail = getCoverImageUrl(coverId, "L")
+  const smallThumbnail = getCoverImageUrl(coverId, "S")
+  const industryIdentifiers = [
+    ...(edition.isbn_13 ?? []).filter(isValidIsbn13).map((isbn) => ({ type: "ISBN_13" as const, identifier: isbn })),
+    ...(edition.isbn_10 ?? []).filter(isValidIsbn10).map((isbn) => ({ type: "ISBN_10" as const, identifier: isbn })),
+  ]
 
-  const volumeInfo: VolumeInfo = {
-    title: doc.title,
-    authors: doc.author_name,
-    publishedDate: doc.first_publish_year?.toString() || "Unknown",
-    categories: doc.subject?.slice(0, 5), // Limit subjects to first 5
-    publisher: doc.publisher?.[0],
-    language: getValidLanguage(doc.language),
-    pageCount: doc.number_of_pages_median,
+  return {
+    id: extractOpenLibraryId(edition.key),
+    title: edition.subtitle ? `${edition.title}: ${edition.subtitle}` : edition.title,
+    publisher: edition.publishers?.[0],
+    publishedDate: edition.publish_date || "Unknown",
+    pageCount: edition.number_of_pages,
+    // Languages are references such as "/languages/eng"
+    language: getValidLanguage(edition.languages?.map(({ key }) => extractOpenLibraryId(key))),
+    format: edition.physical_format,
     imageLinks:
       thumbnail || smallThumbnail
         ? {
@@ -202,80 +602,246 @@ const transformOpenLibraryDocToVolume = (doc: OpenLibraryDoc): Volume => {
             smallThumbnail,
           }
         : undefined,
-    industryIdentifiers: doc.isbn?.slice(0, 5).map((isbn) => ({
-      type: isbn.length === 13 ? "ISBN_13" : "ISBN_10",
-      identifier: isbn,
-    })),
-  }
-
-  // Extract Open Library ID from key (e.g., "/works/OL123456W" -> "OL123456W")
-  const id = doc.key.split("/").pop() || doc.key
-
-  return {
-    id,
-    volumeInfo,
-    selfLink: `https://openlibrary.org${doc.key}`,
+    industryIdentifiers: industryIdentifiers.length > 0 ? industryIdentifiers : undefined,
+    selfLink: `${OPEN_LIBRARY_BASE_URL}${edition.key}`,
   }
 }
 
 /**
- * Transforms Open Library search response to VolumeSearchResponse format
+ * Transforms Open Library author response to Author format
  */
-const transformOpenLibraryResponse = (response: OpenLibrarySearchResponse): VolumeSearchResponse => {
+const transformOpenLibraryAuthor = (author: AuthorResponse): Author => {
   return {
-    kind: "openlibrary#volumes",
-    totalItems: response.num_found,
-    items: response.docs.filter((doc) => doc.title).map(transformOpenLibraryDocToVolume),
+    id: extractOpenLibraryId(author.key),
+    name: author.name,
+    alternateNames: author.alternate_names ?? [],
+    bio: getTextValue(author.bio),
+    birthDate: author.birth_date,
+    deathDate: author.death_date,
+    photoUrl: getAuthorPhotoUrl(author.photos?.[0], "L"),
+    selfLink: `${OPEN_LIBRARY_BASE_URL}${author.key}`,
   }
 }
 
 /**
- * Book service for searching books using the Open Library API
+ * Book service for searching books across catalogue providers and reading Open Library works
  */
 export const bookService = {
   /**
-   * Searches for books using the Open Library API
+   * Searches for books
+   *
+   * By default providers are tried in fallback order until one succeeds or the fallback chain is exhausted.
+   * Pass `provider` to search a single provider, `federated` to search every provider in parallel, or the
+   * `nextCursor` of a previous page as `cursor` to continue that search. Pass `filters` to narrow the results to
+   * some facet values. Aborting `requestOptions.signal` cancels the provider requests.
+   */
+  searchBooks(
+    options: SearchOptions,
+    requestOptions: BookProviderRequestOptions = {},
+  ): Promise<Result<VolumeSearchResponse, AppError>> {
+    return searchProviders(options, requestOptions)
+  },
+
+  /**
+   * Gets the facet counts of a search over every matching result, from Open Library
+   *
+   * Counting takes a request per counted value, so facets are fetched apart from the pages of results. Paging options
+   * are ignored.
    */
-  async searchBooks(options: SearchOptions): Promise<Result<VolumeSearchResponse, Error>> {
+  getSearchFacets(
+    options: SearchOptions,
+    requestOptions: BookProviderRequestOptions = {},
+  ): Promise<Result<SearchFacets, AppError>> {
+    return getOpenLibrarySearchFacets(options, requestOptions)
+  },
+
+  /**
+   * Gets a work by its Open Library ID (e.g., "OL45804W")
+   */
+  async getWork(workId: string): Promise<Result<Work, AppError>> {
     try {
-      const url = buildApiUrl(options)
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": "My Library App (contact: your-email@example.com)",
-        },
-      })
+      const response = await fetchOpenLibraryJson(`${OPEN_LIBRARY_BASE_URL}/works/${encodeURIComponent(workId)}.json`)
 
-      if (!response.ok) {
-        return {
-          ok: false,
-          error: new Error(`API request failed with status ${response.status}: ${response.statusText}`),
-        }
-      }
+      return map(
+        andThen(response, (json) => parseApiResponse(workResponseSchema, json)),
+        transformOpenLibraryWork,
+      )
+    } catch (error) {
+      return err(toAppError(error, "Unknown error occurred while getting work"))
+    }
+  },
 
-      const rawData = await response.json()
+  /**
+   * Gets the editions of a work by its Open Library ID
+   */
+  async getEditions(workId: string, options: EditionOptions = {}): Promise<Result<EditionList, AppError>> {
+    try {
+      const params = new URLSearchParams()
 
-      // Validate the Open Library response data with Zod schema
-      const parseResult = searchBookResponseSchema.safeParse(rawData)
+      if (options.maxResults !== undefined) {
+        params.append("limit", options.maxResults.toString())
+      }
 
-      if (!parseResult.success) {
-        return {
-          ok: false,
-          error: new Error(`Invalid API response: ${parseResult.error.message}`),
-        }
+      if (options.startIndex !== undefined) {
+        params.append("offset", options.startIndex.toString())
       }
 
-      // Transform Open Library response to VolumeSearchResponse format
-      const transformedResponse = transformOpenLibraryResponse(parseResult.data)
+      const response = await fetchOpenLibraryJson(
+        `${OPEN_LIBRARY_BASE_URL}/works/${encodeURIComponent(workId)}/editions.json?${params.toString()}`,
+      )
+
+      return map(
+        andThen(response, (json) => parseApiResponse(editionsResponseSchema, json)),
+        (editions) => ({
+          totalItems: editions.size,
+          items: editions.entries.map(transformOpenLibraryEdition),
+        }),
+      )
+    } catch (error) {
+      return err(toAppError(error, "Unknown error occurred while getting editions"))
+    }
+  },
+
+  /**
+   * Gets an author by their Open Library ID (e.g., "OL23919A")
+   */
+  async getAuthor(authorId: string): Promise<Result<Author, AppError>> {
+    try {
+      const response = await fetchOpenLibraryJson(
+        `${OPEN_LIBRARY_BASE_URL}/authors/${encodeURIComponent(authorId)}.json`,
+      )
+
+      return map(
+        andThen(response, (json) => parseApiResponse(authorResponseSchema, json)),
+        transformOpenLibraryAuthor,
+      )
+    } catch (error) {
+      return err(toAppError(error, "Unknown error occurred while getting author"))
+    }
+  },
+
+  /**
+   * Gets the works of an author by their Open Library ID, as volumes
+   */
+  async getAuthorWorks(authorId: string, options: AuthorWorksOptions = {}): Promise<Result<AuthorWorkList, AppError>> {
+    try {
+      const params = new URLSearchParams()
+
+      if (options.maxResults !== undefined) {
+        params.append("limit", options.maxResults.toString())
+      }
 
-      return {
-        ok: true,
-        value: transformedResponse,
+      if (options.startIndex !== undefined) {
+        params.append("offset", options.startIndex.toString())
       }
+
+      const response = await fetchOpenLibraryJson(
+        `${OPEN_LIBRARY_BASE_URL}/authors/${encodeURIComponent(authorId)}/works.json?${params.toString()}`,
+      )
+
+      return map(
+        andThen(response, (json) => parseApiResponse(authorWorksResponseSchema, json)),
+        (works) => ({
+          totalItems: works.size,
+          items: works.entries.map((work) => transformOpenLibraryAuthorWork(work, authorId, options.authorName)),
+        }),
+      )
+    } catch (error) {
+      return err(toAppError(error, "Unknown error occurred while getting author works"))
+    }
+  },
+
+  /**
+   * Gets a subject by its Open Library ID (e.g., "science_fiction"), with its related subjects, top authors and
+   * publishing history
+   */
+  async getSubject(subjectId: string): Promise<Result<Subject, AppError>> {
+    try {
+      // The details are only included on request, and the works are listed with `getSubjectWorks`
+      const response = await fetchOpenLibraryJson(
+        `${OPEN_LIBRARY_BASE_URL}/subjects/${encodeURIComponent(subjectId)}.json?details=true&limit=0`,
+      )
+
+      return map(
+        andThen(response, (json) => parseApiResponse(subjectResponseSchema, json)),
+        transformOpenLibrarySubject,
+      )
     } catch (error) {
-      return {
-        ok: false,
-        error: error instanceof Error ? error : new Error("Unknown error occurred while searching books"),
+      return err(toAppError(error, "Unknown error occurred while getting subject"))
+    }
+  },
+
+  /**
+   * Gets the works of a subject by its Open Library ID, as volumes
+   */
+  async getSubjectWorks(
+    subjectId: string,
+    options: SubjectWorksOptions = {},
+  ): Promise<Result<SubjectWorkList, AppError>> {
+    try {
+      const params = new URLSearchParams()
+
+      if (options.maxResults !== undefined) {
+        params.append("limit", options.maxResults.toString())
       }
+
+      if (options.startIndex !== undefined) {
+        params.append("offset", options.startIndex.toString())
+      }
+
+      const response = await fetchOpenLibraryJson(
+        `${OPEN_LIBRARY_BASE_URL}/subjects/${encodeURIComponent(subjectId)}.json?${params.toString()}`,
+      )
+
+      return map(
+        andThen(response, (json) => parseApiResponse(subjectResponseSchema, json)),
+        (subject) => ({
+          totalItems: subject.work_count,
+          items: subject.works.map(transformOpenLibrarySubjectWork),
+        }),
+      )
+    } catch (error) {
+      return err(toAppError(error, "Unknown error occurred while getting subject works"))
+    }
+  },
+
+  /**
+   * Suggests titles starting with the text typed so far, using Open Library's `title_suggest` field
+   *
+   * Only the fields shown in the suggestions are requested, to keep responses fast while typing. Aborting
+   * `requestOptions.signal` cancels the request.
+   */
+  async suggest(
+    text: string,
+    options: { readonly maxResults?: number } = {},
+    requestOptions: BookProviderRequestOptions = {},
+  ): Promise<Result<readonly BookSuggestion[], AppError>> {
+    try {
+      const params = buildSearchParams({
+        query: { title_suggest: text.trim() },
+        fields: [...SUGGEST_FIELDS],
+        limit: options.maxResults,
+      })
+      if (!params.ok) return params
+      params.value.append("type", "work")
+
+      const response = await fetchOpenLibraryJson(
+        `${OPEN_LIBRARY_BASE_URL}/search.json?${params.value.toString()}`,
+        requestOptions.signal,
+      )
+
+      return map(
+        andThen(response, (json) => parseApiResponse(searchBookResponseSchema, json)),
+        (search) =>
+          search.docs.map((doc) => ({
+            id: extractOpenLibraryId(doc.key),
+            title: doc.title,
+            authors: doc.author_name ?? [],
+            thumbnail: getCoverImageUrl(doc.cover_i, "S"),
+          })),
+      )
+    } catch (error) {
+      return err(toAppError(error, "Unknown error occurred while getting suggestions"))
     }
   },
 
@@ -285,7 +851,7 @@ export const bookService = {
   async searchByTitle(
     title: string,
     options?: Omit<SearchOptions, "query" | "field">,
-  ): Promise<Result<VolumeSearchResponse, Error>> {
+  ): Promise<Result<VolumeSearchResponse, AppError>> {
     return this.searchBooks({
       query: title,
       field: SEARCH_FIELDS.TITLE,
@@ -299,7 +865,7 @@ export const bookService = {
   async searchByAuthor(
     author: string,
     options?: Omit<SearchOptions, "query" | "field">,
-  ): Promise<Result<VolumeSearchResponse, Error>> {
+  ): Promise<Result<VolumeSearchResponse, AppError>> {
     return this.searchBooks({
       query: author,
       field: SEARCH_FIELDS.AUTHOR,
@@ -313,7 +879,7 @@ export const bookService = {
   async searchByPublisher(
     publisher: string,
     options?: Omit<SearchOptions, "query" | "field">,
-  ): Promise<Result<VolumeSearchResponse, Error>> {
+  ): Promise<Result<VolumeSearchResponse, AppError>> {
     return this.searchBooks({
       query: publisher,
       field: SEARCH_FIELDS.PUBLISHER,
@@ -327,7 +893,7 @@ export const bookService = {
   async searchBySubject(
     subject: string,
     options?: Omit<SearchOptions, "query" | "field">,
-  ): Promise<Result<VolumeSearchResponse, Error>> {
+  ): Promise<Result<VolumeSearchResponse, AppError>> {
     return this.searchBooks({
       query: subject,
       field: SEARCH_FIELDS.SUBJECT,
@@ -337,15 +903,26 @@ export const bookService = {
 
   /**
    * Searches for books by ISBN
+   *
+   * The ISBN may contain hyphens or spaces; ISBNs with a wrong length or check digit fail without calling the API.
    */
   async searchByIsbn(
     isbn: string,
     options?: Omit<SearchOptions, "query" | "field">,
-  ): Promise<Result<VolumeSearchResponse, Error>> {
-    return this.searchBooks({
-      query: isbn,
-      field: SEARCH_FIELDS.ISBN,
-      ...options,
-    })
+    requestOptions?: BookProviderRequestOptions,
+  ): Promise<Result<VolumeSearchResponse, AppError>> {
+    const parseResult = isbnSchema.safeParse(isbn)
+    if (!parseResult.success) {
+      return err(new SchemaError("Invalid ISBN", parseResult.error.issues))
+    }
+
+    return this.searchBooks(
+      {
+        query: normalizeIsbn(parseResult.data),
+        field: SEARCH_FIELDS.ISBN,
+        ...options,
+      },
+      requestOptions,
+    )
   },
 }
@@ -0,0 +1,77 @@
+/**
+ * Parses CSV text (RFC 4180) into rows of cells
+ *
+ * Handles quoted cells containing commas, line breaks and doubled quotes, both line ending styles and a leading byte
+ * order mark. Blank lines are skipped.
+ *
+ * @example
+ * ```typescript
+ * parseCsv('Title,Author\n"Dune, Part One",Frank Herbert')
+ * // [["Title", "Author"], ["Dune, Part One", "Frank Herbert"]]
+ * ```
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  const endRow = (): void => {
+    row.push(cell)
+    if (row.length > 1 || row[0] !== "") rows.push(row)
+    row = []
+    cell = ""
+  }
+
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index]
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") index++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== "" || row.length > 0) endRow()
+
+  return rows
+}
+
+/**
+ * Serialises rows of cells to CSV text (RFC 4180)
+ *
+ * Cells containing commas, quotes or line breaks are quoted, and lines end with CRLF as spreadsheets expect. Cells
+ * starting like a formula (`=`, `+`, `-`, `@`, a tab or a carriage return) are prefixed with `'` so spreadsheets show
+ * them as text instead of running them, since exported values come from remote catalogues. Numbers are kept as is.
+ *
+ * @example
+ * ```typescript
+ * toCsv([["Title", "Author"], ["Dune, Part One", "Frank Herbert"], ["=HYPERLINK(\"x\")", "-1"]])
+ * // 'Title,Author\r\n"Dune, Part One",Frank Herbert\r\n"\'=HYPERLINK(""x"")",-1\r\n'
+ * ```
+ */
+export const toCsv = (rows: readonly (readonly string[])[]): string => {
+  const neutralise = (cell: string): string =>
+    /^[=+\-@\t\r]/.test(cell) && !/^[+-]?\d+(\.\d+)?$/.test(cell) ? `'${cell}` : cell
+  const quote = (cell: string): string => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)
+
+  return rows.map((row) => `${row.map((cell) => quote(neutralise(cell))).join(",")}\r\n`).join("")
+}
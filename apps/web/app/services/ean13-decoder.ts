@@ -0,0 +1,211 @@
+/**
+ * Widths (in modules) of the four alternating elements encoding each digit with the L and R codes
+ *
+ * L codes start with a space and R codes with a bar, but both use the same widths; G codes use them reversed.
+ */
+const DIGIT_WIDTHS: readonly (readonly number[])[] = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+]
+
+/**
+ * Parity (L or G code) of the six left-hand digits, which encodes the first digit of the barcode
+ */
+const FIRST_DIGIT_PARITIES = [
+  "LLLLLL",
+  "LLGLGG",
+  "LLGGLG",
+  "LLGGGL",
+  "LGLLGG",
+  "LGGLLG",
+  "LGGGLG",
+  "LGLGLG",
+  "LGLGGL",
+  "LGGLGL",
+]
+
+/**
+ * Number of bar and space elements in an EAN-13 barcode: start guard (3), 6 digits (24), middle guard (5),
+ * 6 digits (24) and end guard (3)
+ */
+const EAN13_ELEMENTS = 59
+
+/**
+ * Number of modules (narrowest bar width) in an EAN-13 barcode
+ */
+const EAN13_MODULES = 95
+
+/**
+ * Largest average deviation from the expected widths, in modules, for a digit to be accepted
+ */
+const MAX_DIGIT_ERROR = 0.5
+
+/**
+ * Rows scanned per image, spread over its middle
+ */
+const SCAN_ROWS = 24
+
+/**
+ * Checks whether 13 digits have a valid EAN-13 check digit
+ */
+export const isValidEan13 = (code: string): boolean => {
+  if (!/^\d{13}$/.test(code)) return false
+
+  const sum = [...code].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0)
+  return sum % 10 === 0
+}
+
+/**
+ * Finds the digit whose widths best match four element widths
+ *
+ * @returns The digit and its average deviation in modules
+ */
+const matchDigit = (
+  widths: readonly number[],
+  reversed: boolean,
+): { readonly digit: number; readonly error: number } | undefined => {
+  const total = widths.reduce((sum, width) => sum + width, 0)
+  let best: { digit: number; error: number } | undefined
+
+  DIGIT_WIDTHS.forEach((pattern, digit) => {
+    const expected = reversed ? [...pattern].reverse() : pattern
+    const error = widths.reduce((sum, width, index) => sum + Math.abs((width / total) * 7 - expected[index]), 0) / 4
+
+    if (!best || error < best.error) best = { digit, error }
+  })
+
+  return best && best.error <= MAX_DIGIT_ERROR ? best : undefined
+}
+
+/**
+ * Checks that guard elements are about one module wide each
+ */
+const isGuard = (widths: readonly number[], moduleWidth: number): boolean => {
+  return widths.every((width) => width > moduleWidth * 0.4 && width < moduleWidth * 2)
+}
+
+/**
+ * Decodes an EAN-13 barcode from the run lengths of a scanline, starting at the first bar of the start guard
+ */
+const decodeRuns = (runs: readonly number[], start: number): string | undefined => {
+  const elements = runs.slice(start, start + EAN13_ELEMENTS)
+  if (elements.length < EAN13_ELEMENTS) return undefined
+
+  const moduleWidth = elements.reduce((sum, width) => sum + width, 0) / EAN13_MODULES
+
+  if (
+    !isGuard(elements.slice(0, 3), moduleWidth) ||
+    !isGuard(elements.slice(27, 32), moduleWidth) ||
+    !isGuard(elements.slice(56, 59), moduleWidth)
+  ) {
+    return undefined
+  }
+
+  let parities = ""
+  let digits = ""
+
+  for (let index = 0; index < 6; index++) {
+    const widths = elements.slice(3 + index * 4, 7 + index * 4)
+    const l = matchDigit(widths, false)
+    const g = matchDigit(widths, true)
+    const match = l && (!g || l.error <= g.error) ? { ...l, parity: "L" } : g && { ...g, parity: "G" }
+
+    if (!match) return undefined
+    parities += match.parity
+    digits += match.digit
+  }
+
+  for (let index = 0; index < 6; index++) {
+    const match = matchDigit(elements.slice(32 + index * 4, 36 + index * 4), false)
+
+    if (!match) return undefined
+    digits += match.digit
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITIES.indexOf(parities)
+  if (firstDigit === -1) return undefined
+
+  const code = `${firstDigit}${digits}`
+  return isValidEan13(code) ? code : undefined
+}
+
+/**
+ * Decodes an EAN-13 barcode from the luminance of one scanline
+ *
+ * The scanline is binarised at the midpoint between its darkest and lightest pixels, then every bar is tried as the
+ * start of the barcode, reading the line both ways so upside-down barcodes are found too.
+ */
+export const decodeEan13Scanline = (luminance: ArrayLike<number>): string | undefined => {
+  let min = 255
+  let max = 0
+  for (let index = 0; index < luminance.length; index++) {
+    min = Math.min(min, luminance[index])
+    max = Math.max(max, luminance[index])
+  }
+
+  // Not enough contrast to tell bars from spaces
+  if (max - min < 48) return undefined
+
+  const threshold = (min + max) / 2
+  const runs: number[] = []
+  const isBar: boolean[] = []
+
+  for (let index = 0; index < luminance.length; index++) {
+    const dark = luminance[index] < threshold
+    if (isBar.length > 0 && isBar[isBar.length - 1] === dark) {
+      runs[runs.length - 1] += 1
+    } else {
+      runs.push(1)
+      isBar.push(dark)
+    }
+  }
+
+  for (const [lineRuns, lineIsBar] of [
+    [runs, isBar],
+    [[...runs].reverse(), [...isBar].reverse()],
+  ] as const) {
+    for (let start = 0; start + EAN13_ELEMENTS <= lineRuns.length; start++) {
+      if (!lineIsBar[start]) continue
+
+      const code = decodeRuns(lineRuns, start)
+      if (code) return code
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Decodes an EAN-13 barcode from image pixels by scanning rows across the middle of the image
+ *
+ * @returns The 13 digits of the first barcode found with a valid check digit
+ */
+export const decodeEan13 = (image: ImageData): string | undefined => {
+  const { data, width, height } = image
+  const luminance = new Uint8ClampedArray(width)
+
+  for (let row = 0; row < SCAN_ROWS; row++) {
+    // Start from the centre, where the barcode is most likely to be, and move outwards
+    const offset = Math.ceil(row / 2) * (row % 2 === 0 ? 1 : -1)
+    const y = Math.round(height / 2 + (offset * height * 0.8) / SCAN_ROWS)
+    if (y < 0 || y >= height) continue
+
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4
+      luminance[x] = 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2]
+    }
+
+    const code = decodeEan13Scanline(luminance)
+    if (code) return code
+  }
+
+  return undefined
+}
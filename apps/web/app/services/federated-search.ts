@@ -0,0 +1,162 @@
+import type { SearchSort } from "@my-library-app/schemas"
+
+import { toIsbn13 } from "@my-library-app/schemas"
+
+import type { SearchCursor } from "./book-providers"
+import type { Volume, VolumeInfo, VolumeSearchResponse } from "./book-service"
+
+/**
+ * Constant dampening the weight of top ranks in reciprocal rank fusion
+ */
+const RANK_FUSION_K = 60
+
+/**
+ * Normalises text for comparison: lowercase, no diacritics, no punctuation, single spaces
+ */
+export const normaliseText = (text: string): string => {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+}
+
+/**
+ * Gets the keys identifying a volume across providers
+ *
+ * ISBNs (compared in their ISBN-13 form) identify editions exactly, while the normalised main title and first author catch the same work
+ * catalogued under different editions (titles are cut at the subtitle, author names ignore spacing and initials'
+ * punctuation)
+ */
+const getDedupeKeys = (volume: Volume): string[] => {
+  const isbnKeys = (volume.volumeInfo.industryIdentifiers ?? []).flatMap((identifier) => {
+    const isbn13 = toIsbn13(identifier.identifier)
+    return isbn13 ? [`isbn:${isbn13}`] : []
+  })
+
+  const title = normaliseText(volume.volumeInfo.title.split(":")[0] ?? "")
+  const author = normaliseText(volume.volumeInfo.authors?.[0] ?? "").replace(/ /g, "")
+
+  return title && author ? [...isbnKeys, `work:${title}|${author}`] : isbnKeys
+}
+
+/**
+ * Merges two volumes describing the same book, keeping the primary's values and filling gaps from the secondary
+ */
+const mergeVolume = (primary: Volume, secondary: Volume): Volume => {
+  const a = primary.volumeInfo
+  const b = secondary.volumeInfo
+  const identifiers = [...(a.industryIdentifiers ?? []), ...(b.industryIdentifiers ?? [])].filter(
+    (identifier, index, all) => all.findIndex((other) => other.identifier === identifier.identifier) === index,
+  )
+
+  // Author IDs follow the order of the author names, so they are kept from the same volume
+  const authorSource = a.authors?.length ? a : b
+
+  const volumeInfo: VolumeInfo = {
+    title: a.title,
+    authors: authorSource.authors,
+    authorIds: authorSource.authorIds,
+    publishedDate: a.publishedDate !== "Unknown" ? a.publishedDate : b.publishedDate,
+    categories: a.categories?.length ? a.categories : b.categories,
+    publisher: a.publisher ?? b.publisher,
+    language: a.language ?? b.language,
+    pageCount: a.pageCount ?? b.pageCount,
+    imageLinks: a.imageLinks ?? b.imageLinks,
+    industryIdentifiers: identifiers.length > 0 ? identifiers : undefined,
+  }
+
+  return { ...primary, volumeInfo }
+}
+
+/**
+ * Gets the publication year of a volume for sorting, or undefined when unknown
+ */
+const getPublishedYear = (volume: Volume): number | undefined => {
+  const year = Number.parseInt(volume.volumeInfo.publishedDate, 10)
+  return Number.isNaN(year) ? undefined : year
+}
+
+/**
+ * Orders ranked volumes by the explicitly requested sort, if it can be applied across providers
+ */
+const applySort = (volumes: Volume[], sort?: SearchSort): Volume[] => {
+  switch (sort) {
+    case "new":
+    case "old": {
+      const direction = sort === "new" ? -1 : 1
+      return volumes.sort((a, b) => {
+        const yearA = getPublishedYear(a)
+        const yearB = getPublishedYear(b)
+        // Unknown years go last
+        if (yearA === undefined) return yearB === undefined ? 0 : 1
+        if (yearB === undefined) return -1
+        return (yearA - yearB) * direction
+      })
+    }
+    case "title":
+      return volumes.sort((a, b) => a.volumeInfo.title.localeCompare(b.volumeInfo.title))
+    default:
+      // Other sorts (ratings, editions, scans) are provider-specific, so keep the fused ranking
+      return volumes
+  }
+}
+
+/**
+ * Merges the responses of several providers into a single page
+ *
+ * Duplicates are merged into one volume, preferring the data of the provider listed first. Volumes are ranked with
+ * reciprocal rank fusion, so books returned by several providers rise to the top. The next cursor keeps a separate
+ * offset for every provider that still has results, so pagination stays correct despite the different totals.
+ */
+export const mergeSearchResponses = (
+  responses: readonly VolumeSearchResponse[],
+  sort?: SearchSort,
+): VolumeSearchResponse => {
+  const entries: { volume: Volume; score: number; keys: Set<string> }[] = []
+
+  for (const response of responses) {
+    for (const [rank, volume] of (response.items ?? []).entries()) {
+      const keys = getDedupeKeys(volume)
+      const score = 1 / (RANK_FUSION_K + rank + 1)
+      const existing = entries.find((entry) => keys.some((key) => entry.keys.has(key)))
+
+      if (existing) {
+        existing.volume = mergeVolume(existing.volume, volume)
+        existing.score += score
+        keys.forEach((key) => existing.keys.add(key))
+      } else {
+        entries.push({ volume, score, keys: new Set(keys) })
+      }
+    }
+  }
+
+  const ranked = entries.sort((a, b) => b.score - a.score).map((entry) => entry.volume)
+  const nextCursor = responses.reduce<SearchCursor>((cursor, response) => ({ ...cursor, ...response.nextCursor }), {})
+
+  return {
+    kind: "federated#volumes",
+    // Upper bound: the same book may be counted by several providers
+    totalItems: responses.reduce((total, response) => total + response.totalItems, 0),
+    items: applySort(ranked, sort),
+    nextCursor: Object.keys(nextCursor).length > 0 ? nextCursor : undefined,
+  }
+}
+
+/**
+ * Removes volumes already shown on earlier pages, so federated pages never repeat a book
+ */
+export const dedupeVolumePages = (pages: readonly VolumeSearchResponse[]): VolumeSearchResponse[] => {
+  const seenKeys = new Set<string>()
+
+  return pages.map((page) => ({
+    ...page,
+    items: page.items?.filter((volume) => {
+      const keys = [`id:${volume.id}`, ...getDedupeKeys(volume)]
+      if (keys.some((key) => seenKeys.has(key))) return false
+      keys.forEach((key) => seenKeys.add(key))
+      return true
+    }),
+  }))
+}
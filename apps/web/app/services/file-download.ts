@@ -0,0 +1,14 @@
+/**
+ * Downloads text content as a file from the browser
+ *
+ * @param filename - File name with its extension
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  // Let the download start before releasing the file
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,497 @@
+import type { AppError } from "@my-library-app/errors"
+import type { Result } from "@my-library-app/result"
+
+import { SchemaError, type SchemaIssue, toAppError } from "@my-library-app/errors"
+
+import type { Volume } from "./book-service"
+import type { ShelfBook } from "./library-service"
+import type { ReadingSession } from "./reading-service"
+
+import { authService } from "./auth-service"
+import { toLibraryError } from "./library-service"
+import { computeReadingStats, getPublishYear, getReadYear, getSessionFinishDates } from "./reading-stats"
+
+/**
+ * Units a yearly goal can be counted in
+ */
+export const GOAL_UNITS = {
+  BOOKS: "books",
+  PAGES: "pages",
+} as const
+
+export type GoalUnit = (typeof GOAL_UNITS)[keyof typeof GOAL_UNITS]
+
+/**
+ * Criteria a challenge can match finished books on
+ */
+export const CHALLENGE_CRITERIA = {
+  LANGUAGE: "language",
+  PUBLISHED_BEFORE: "published_before",
+  PUBLISHED_AFTER: "published_after",
+  SUBJECT: "subject",
+} as const
+
+export type ChallengeCriterion = (typeof CHALLENGE_CRITERIA)[keyof typeof CHALLENGE_CRITERIA]
+
+/**
+ * Position of a goal's progress relative to an even pace through its year
+ */
+export const SCHEDULE_STATUSES = {
+  AHEAD: "ahead",
+  ON_TRACK: "on_track",
+  BEHIND: "behind",
+} as const
+
+export type ScheduleStatus = (typeof SCHEDULE_STATUSES)[keyof typeof SCHEDULE_STATUSES]
+
+/**
+ * Yearly reading goal of the current user
+ */
+export interface ReadingGoal {
+  readonly id: string
+  readonly year: number
+  readonly unit: GoalUnit
+  readonly target: number
+  readonly createdAt: string
+}
+
+/**
+ * Options for setting the reading goal of a year
+ */
+export interface SetReadingGoalOptions {
+  readonly year: number
+  readonly unit: GoalUnit
+  readonly target: number
+}
+
+/**
+ * Themed challenge counting the books of a year matching a criterion, e.g. 5 books in Spanish
+ */
+export interface ReadingChallenge {
+  readonly id: string
+  readonly year: number
+  readonly criterion: ChallengeCriterion
+  /**
+   * Language code, publish year or subject, depending on the criterion
+   */
+  readonly value: string
+  readonly target: number
+  readonly createdAt: string
+}
+
+/**
+ * Options for creating a reading challenge
+ */
+export interface CreateReadingChallengeOptions {
+  readonly year: number
+  readonly criterion: ChallengeCriterion
+  readonly value: string
+  readonly target: number
+}
+
+/**
+ * Progress towards a yearly goal
+ */
+export interface GoalProgress {
+  /**
+   * Books or pages read so far, in the goal's unit
+   */
+  readonly current: number
+  readonly target: number
+  /**
+   * Percent of the target reached, from 0 to 100
+   */
+  readonly percent: number
+  readonly isComplete: boolean
+  /**
+   * Books or pages that should have been read by today at an even pace
+   */
+  readonly expected: number
+  readonly status: ScheduleStatus
+  /**
+   * Books or pages read ahead of (positive) or behind (negative) the even pace
+   */
+  readonly difference: number
+}
+
+/**
+ * Progress towards a challenge
+ */
+export interface ChallengeProgress {
+  /**
+   * Books read in the challenge's year matching its criterion
+   */
+  readonly current: number
+  readonly target: number
+  readonly percent: number
+  readonly isComplete: boolean
+}
+
+/**
+ * Row of the `reading_goals` table
+ */
+interface ReadingGoalRow {
+  readonly id: string
+  readonly year: number
+  readonly unit: GoalUnit
+  readonly target: number
+  readonly created_at: string
+}
+
+/**
+ * Row of the `reading_challenges` table
+ */
+interface ReadingChallengeRow {
+  readonly id: string
+  readonly year: number
+  readonly criterion: ChallengeCriterion
+  readonly value: string
+  readonly target: number
+  readonly created_at: string
+}
+
+const GOAL_COLUMNS = "id, year, unit, target, created_at"
+
+const CHALLENGE_COLUMNS = "id, year, criterion, value, target, created_at"
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+/**
+ * Transforms a `reading_goals` row to ReadingGoal format
+ */
+const transformReadingGoalRow = (row: ReadingGoalRow): ReadingGoal => {
+  return {
+    id: row.id,
+    year: row.year,
+    unit: row.unit,
+    target: row.target,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Transforms a `reading_challenges` row to ReadingChallenge format
+ */
+const transformReadingChallengeRow = (row: ReadingChallengeRow): ReadingChallenge => {
+  return {
+    id: row.id,
+    year: row.year,
+    criterion: row.criterion,
+    value: row.value,
+    target: row.target,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Checks the year and target shared by goals and challenges, mirroring the table constraints
+ */
+const validateYearAndTarget = (year: number, target: number): SchemaIssue[] => {
+  const issues: SchemaIssue[] = []
+
+  if (!Number.isInteger(year) || year < 1900 || year > 2999) {
+    issues.push({ path: ["year"], message: "Year must be between 1900 and 2999" })
+  }
+  if (!Number.isInteger(target) || target < 1) {
+    issues.push({ path: ["target"], message: "Target must be a positive whole number" })
+  }
+
+  return issues
+}
+
+/**
+ * Checks the criterion value of a challenge, publish years having to be whole years
+ */
+const validateChallenge = (options: CreateReadingChallengeOptions): SchemaIssue[] => {
+  const { year, criterion, value, target } = options
+  const issues = validateYearAndTarget(year, target)
+
+  if (!value.trim()) {
+    issues.push({ path: ["value"], message: "Challenge value is required" })
+  } else if (
+    (criterion === CHALLENGE_CRITERIA.PUBLISHED_BEFORE || criterion === CHALLENGE_CRITERIA.PUBLISHED_AFTER) &&
+    !/^\d{1,4}$/.test(value.trim())
+  ) {
+    issues.push({ path: ["value"], message: "Publish year must be a year, e.g. 1950" })
+  }
+
+  return issues
+}
+
+/**
+ * Checks whether a book matches the criterion of a challenge
+ *
+ * Subjects match case-insensitively and partially, so "fantasy" matches "Fantasy fiction".
+ */
+export const matchesChallenge = (challenge: ReadingChallenge, volume: Volume): boolean => {
+  const { volumeInfo } = volume
+
+  switch (challenge.criterion) {
+    case CHALLENGE_CRITERIA.LANGUAGE:
+      return volumeInfo.language === challenge.value
+    case CHALLENGE_CRITERIA.PUBLISHED_BEFORE: {
+      const publishYear = getPublishYear(volume)
+      return publishYear !== undefined && publishYear < Number(challenge.value)
+    }
+    case CHALLENGE_CRITERIA.PUBLISHED_AFTER: {
+      const publishYear = getPublishYear(volume)
+      return publishYear !== undefined && publishYear > Number(challenge.value)
+    }
+    case CHALLENGE_CRITERIA.SUBJECT: {
+      const subject = challenge.value.trim().toLowerCase()
+      return (volumeInfo.categories ?? []).some((category) => category.toLowerCase().includes(subject))
+    }
+  }
+}
+
+/**
+ * Computes the progress towards a yearly goal from the books on the "Read" shelf
+ *
+ * Books count in the year they were finished in and pages in the year they were read in, as in the reading
+ * statistics. The even pace spreads the target over the days of the goal's year, so a past year expects the whole
+ * target and a future year expects nothing yet.
+ *
+ * @param books - Books on the "Read" shelf
+ * @param sessions - All the user's reading sessions
+ * @param today - Day the schedule is computed for
+ */
+export const evaluateGoal = (
+  goal: ReadingGoal,
+  books: readonly ShelfBook[],
+  sessions: readonly ReadingSession[],
+  today: Date = new Date(),
+): GoalProgress => {
+  const finishDates = getSessionFinishDates(sessions)
+  const current =
+    goal.unit === GOAL_UNITS.BOOKS
+      ? books.filter((book) => getReadYear(book, finishDates) === goal.year).length
+      : computeReadingStats(books, sessions, goal.year).totalPages
+
+  const yearStart = new Date(goal.year, 0, 1)
+  const yearEnd = new Date(goal.year + 1, 0, 1)
+  // Today counts as elapsed, and rounding absorbs daylight saving changes
+  const daysInYear = Math.round((yearEnd.getTime() - yearStart.getTime()) / MS_PER_DAY)
+  const elapsedDays = Math.min(
+    daysInYear,
+    Math.max(0, Math.floor((today.getTime() - yearStart.getTime()) / MS_PER_DAY) + 1),
+  )
+  const expected = Math.round((goal.target * elapsedDays) / daysInYear)
+  const difference = current - expected
+  const isComplete = current >= goal.target
+
+  return {
+    current,
+    target: goal.target,
+    percent: Math.min(100, Math.round((current / goal.target) * 100)),
+    isComplete,
+    expected,
+    status:
+      isComplete || difference > 0
+        ? SCHEDULE_STATUSES.AHEAD
+        : difference < 0
+          ? SCHEDULE_STATUSES.BEHIND
+          : SCHEDULE_STATUSES.ON_TRACK,
+    difference,
+  }
+}
+
+/**
+ * Computes the progress towards a challenge from the books on the "Read" shelf finished in its year
+ *
+ * @param books - Books on the "Read" shelf
+ * @param sessions - All the user's reading sessions, telling when books were finished
+ */
+export const evaluateChallenge = (
+  challenge: ReadingChallenge,
+  books: readonly ShelfBook[],
+  sessions: readonly ReadingSession[],
+): ChallengeProgress => {
+  const finishDates = getSessionFinishDates(sessions)
+  const current = books.filter(
+    (book) => getReadYear(book, finishDates) === challenge.year && matchesChallenge(challenge, book.volume),
+  ).length
+
+  return {
+    current,
+    target: challenge.target,
+    percent: Math.min(100, Math.round((current / challenge.target) * 100)),
+    isComplete: current >= challenge.target,
+  }
+}
+
+/**
+ * Goal service for managing the current user's yearly reading goals and challenges in Supabase
+ */
+export const goalService = {
+  /**
+   * Gets the reading goal of a year, or undefined when none is set
+   */
+  async getGoal(year: number): Promise<Result<ReadingGoal | undefined, AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("reading_goals")
+        .select(GOAL_COLUMNS)
+        .eq("year", year)
+        .maybeSingle()
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to get reading goal: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: data ? transformReadingGoalRow(data as ReadingGoalRow) : undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while getting reading goal"),
+      }
+    }
+  },
+
+  /**
+   * Sets the reading goal of a year, replacing any previous goal of that year
+   */
+  async setGoal(options: SetReadingGoalOptions): Promise<Result<ReadingGoal, AppError>> {
+    try {
+      const issues = validateYearAndTarget(options.year, options.target)
+      if (issues.length > 0) {
+        return {
+          ok: false,
+          error: new SchemaError(issues[0]?.message ?? "Invalid reading goal", issues),
+        }
+      }
+
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("reading_goals")
+        .upsert({ year: options.year, unit: options.unit, target: options.target }, { onConflict: "user_id,year" })
+        .select(GOAL_COLUMNS)
+        .single()
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to set reading goal: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: transformReadingGoalRow(data as ReadingGoalRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while setting reading goal"),
+      }
+    }
+  },
+
+  /**
+   * Gets the reading challenges of a year, oldest first
+   */
+  async getChallenges(year: number): Promise<Result<ReadingChallenge[], AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("reading_challenges")
+        .select(CHALLENGE_COLUMNS)
+        .eq("year", year)
+        .order("created_at", { ascending: true })
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to get reading challenges: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: (data as ReadingChallengeRow[]).map(transformReadingChallengeRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while getting reading challenges"),
+      }
+    }
+  },
+
+  /**
+   * Creates a reading challenge
+   */
+  async createChallenge(options: CreateReadingChallengeOptions): Promise<Result<ReadingChallenge, AppError>> {
+    try {
+      const issues = validateChallenge(options)
+      if (issues.length > 0) {
+        return {
+          ok: false,
+          error: new SchemaError(issues[0]?.message ?? "Invalid reading challenge", issues),
+        }
+      }
+
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("reading_challenges")
+        .insert({
+          year: options.year,
+          criterion: options.criterion,
+          value: options.value.trim(),
+          target: options.target,
+        })
+        .select(CHALLENGE_COLUMNS)
+        .single()
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to create reading challenge: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: transformReadingChallengeRow(data as ReadingChallengeRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while creating reading challenge"),
+      }
+    }
+  },
+
+  /**
+   * Deletes a reading challenge
+   */
+  async deleteChallenge(challengeId: string): Promise<Result<void, AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { error, status } = await supabase.from("reading_challenges").delete().eq("id", challengeId)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to delete reading challenge: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while deleting reading challenge"),
+      }
+    }
+  },
+}
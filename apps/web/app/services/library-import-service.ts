@@ -0,0 +1,429 @@
+import type { AppError } from "@my-library-app/errors"
+
+import { SchemaError } from "@my-library-app/errors"
+import { err, ok, type Result } from "@my-library-app/result"
+import { isValidIsbn, normalizeIsbn } from "@my-library-app/schemas"
+
+import { BOOK_PROVIDERS, type BookProviderRequestOptions } from "./book-providers"
+import { bookService, type Volume } from "./book-service"
+import { parseCsv } from "./csv"
+import { normaliseText } from "./federated-search"
+import { libraryService, SHELF_KINDS, type Shelf, type StatusShelfKind } from "./library-service"
+
+/**
+ * Services whose CSV exports can be imported
+ */
+export const IMPORT_SOURCES = {
+  GOODREADS: "goodreads",
+  STORYGRAPH: "storygraph",
+} as const
+
+export type ImportSource = (typeof IMPORT_SOURCES)[keyof typeof IMPORT_SOURCES]
+
+/**
+ * Display names of the import sources
+ */
+export const IMPORT_SOURCE_NAMES: Readonly<Record<ImportSource, string>> = {
+  goodreads: "Goodreads",
+  storygraph: "StoryGraph",
+}
+
+/**
+ * How a row was matched to an Open Library work
+ */
+export const MATCH_METHODS = {
+  ISBN: "isbn",
+  TITLE_AUTHOR: "title_author",
+} as const
+
+export type MatchMethod = (typeof MATCH_METHODS)[keyof typeof MATCH_METHODS]
+
+/**
+ * Confidence levels of a match, from its score
+ */
+export const MATCH_CONFIDENCES = {
+  HIGH: "high",
+  MEDIUM: "medium",
+  LOW: "low",
+} as const
+
+export type MatchConfidence = (typeof MATCH_CONFIDENCES)[keyof typeof MATCH_CONFIDENCES]
+
+/**
+ * Book read from a row of an export
+ */
+export interface ImportRow {
+  /**
+   * Line of the row in the file, for reference in the review
+   */
+  readonly line: number
+  readonly title: string
+  readonly author?: string
+  /**
+   * ISBN of the row, only set when it has a valid check digit
+   */
+  readonly isbn?: string
+  /**
+   * Status shelf of the book, when the export has a reading status matching one
+   */
+  readonly status?: StatusShelfKind
+  /**
+   * Names of the custom shelves (or tags) of the book
+   */
+  readonly shelves: readonly string[]
+  /**
+   * When the book was shelved on the other service, as an ISO timestamp
+   */
+  readonly addedAt?: string
+  /**
+   * When the book was last finished, as an ISO timestamp
+   */
+  readonly finishedAt?: string
+}
+
+/**
+ * Rows read from an export
+ */
+export interface ImportFile {
+  readonly source: ImportSource
+  readonly rows: readonly ImportRow[]
+}
+
+/**
+ * Open Library work matched to an import row
+ */
+export interface ImportMatch {
+  readonly volume: Volume
+  readonly method: MatchMethod
+  /**
+   * Score from 0 to 1, 1 meaning an exact ISBN match
+   */
+  readonly score: number
+}
+
+/**
+ * Import row confirmed for adding to the library
+ */
+export interface ConfirmedImport {
+  readonly row: ImportRow
+  readonly volume: Volume
+}
+
+/**
+ * Import row that could not be added to all its shelves
+ */
+export interface ImportFailure {
+  readonly row: ImportRow
+  /**
+   * Error of the first shelf the book could not be added to
+   */
+  readonly error: AppError
+  /**
+   * Names of the shelves the book was added to anyway, where it stays
+   */
+  readonly savedShelves: readonly string[]
+}
+
+/**
+ * Outcome of an import, listing the rows that could not be fully saved
+ */
+export interface ImportSummary {
+  /**
+   * Number of rows added to all their shelves
+   */
+  readonly imported: number
+  readonly failed: readonly ImportFailure[]
+}
+
+/**
+ * Columns identifying each export
+ */
+const REQUIRED_COLUMNS: Readonly<Record<ImportSource, readonly string[]>> = {
+  goodreads: ["Title", "Author", "ISBN", "ISBN13", "Exclusive Shelf", "Bookshelves"],
+  storygraph: ["Title", "Authors", "ISBN/UID", "Read Status", "Tags"],
+}
+
+/**
+ * Status shelves of the reading statuses used by both services
+ *
+ * Other statuses (e.g., Goodreads custom exclusive shelves or StoryGraph's "did-not-finish") become custom shelves.
+ */
+const STATUS_SHELVES: Readonly<Record<string, StatusShelfKind>> = {
+  "to-read": SHELF_KINDS.WANT_TO_READ,
+  "currently-reading": SHELF_KINDS.READING,
+  read: SHELF_KINDS.READ,
+}
+
+/**
+ * Lowest score of a title and author match worth reviewing, below it the row is reported as unmatched
+ */
+const MIN_MATCH_SCORE = 0.35
+
+/**
+ * Number of title and author search results compared with a row
+ */
+const MATCH_CANDIDATES = 5
+
+/**
+ * Splits a comma-separated cell into trimmed values
+ */
+const splitList = (value: string | undefined): string[] => {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Reads an ISBN cell, which Goodreads wraps in a spreadsheet formula (`="0439023483"`)
+ */
+const readIsbn = (value: string | undefined): string | undefined => {
+  const isbn = normalizeIsbn((value ?? "").replace(/^="?|"$/g, ""))
+  return isValidIsbn(isbn) ? isbn : undefined
+}
+
+/**
+ * Reads a date cell, which both services write as "2019/03/14", as the start of that day in the user's time zone
+ *
+ * Local time keeps books read on New Year's Day in the right year for the user.
+ */
+const readDate = (value: string | undefined): string | undefined => {
+  const match = value?.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/)
+  if (!match) return undefined
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Removes the series Goodreads appends to titles, e.g. "Catching Fire (The Hunger Games, #2)"
+ */
+const removeSeries = (title: string): string => {
+  return title.replace(/\s*\([^()]*#[\d.]+\)$/, "").trim()
+}
+
+/**
+ * Reads the status shelf and custom shelves of a row from its reading status and shelf names
+ */
+const readShelves = (status: string, shelves: readonly string[]): Pick<ImportRow, "status" | "shelves"> => {
+  const statusShelf = STATUS_SHELVES[status]
+  const custom = [...(statusShelf || !status ? [] : [status]), ...shelves.filter((shelf) => !STATUS_SHELVES[shelf])]
+
+  return {
+    status: statusShelf,
+    shelves: [...new Set(custom)],
+  }
+}
+
+/**
+ * Maps a row of a Goodreads export
+ */
+const readGoodreadsRow = (cell: (column: string) => string | undefined): Omit<ImportRow, "line"> => {
+  return {
+    title: removeSeries(cell("Title") ?? ""),
+    author: cell("Author") || undefined,
+    isbn: readIsbn(cell("ISBN13")) ?? readIsbn(cell("ISBN")),
+    ...readShelves(cell("Exclusive Shelf") ?? "", splitList(cell("Bookshelves"))),
+    addedAt: readDate(cell("Date Added")),
+    finishedAt: readDate(cell("Date Read")),
+  }
+}
+
+/**
+ * Maps a row of a StoryGraph export
+ */
+const readStoryGraphRow = (cell: (column: string) => string | undefined): Omit<ImportRow, "line"> => {
+  return {
+    title: cell("Title") ?? "",
+    author: splitList(cell("Authors"))[0],
+    // Books without an ISBN have a StoryGraph ID in this column instead
+    isbn: readIsbn(cell("ISBN/UID")),
+    ...readShelves(cell("Read Status") ?? "", splitList(cell("Tags"))),
+    addedAt: readDate(cell("Date Added")),
+    finishedAt: readDate(cell("Last Date Read")),
+  }
+}
+
+/**
+ * Splits a name into normalised words
+ */
+const toWords = (text: string): string[] => {
+  return normaliseText(text).split(" ").filter(Boolean)
+}
+
+/**
+ * Computes the similarity of two texts from the words they share (Dice coefficient), from 0 to 1
+ */
+const getSimilarity = (a: string, b: string): number => {
+  const wordsA = toWords(a)
+  const wordsB = new Set(toWords(b))
+  if (wordsA.length === 0 || wordsB.size === 0) return 0
+
+  const shared = new Set(wordsA.filter((word) => wordsB.has(word))).size
+  return (2 * shared) / (new Set(wordsA).size + wordsB.size)
+}
+
+/**
+ * Scores how well a search result matches a row, weighting the main title over the author
+ *
+ * Authors match fully on their last name, so initials and middle names do not lower the score.
+ */
+const scoreCandidate = (row: ImportRow, volume: Volume): number => {
+  const title = getSimilarity(row.title.split(":")[0] ?? "", volume.volumeInfo.title.split(":")[0] ?? "")
+  if (!row.author) return title
+
+  const lastName = toWords(row.author).at(-1)
+  const author = Math.max(
+    0,
+    ...(volume.volumeInfo.authors ?? []).map((name) =>
+      lastName && toWords(name).at(-1) === lastName ? 1 : getSimilarity(row.author ?? "", name),
+    ),
+  )
+
+  return title * 0.7 + author * 0.3
+}
+
+/**
+ * Gets the confidence level of a match
+ */
+export const getMatchConfidence = (match: ImportMatch): MatchConfidence => {
+  if (match.score >= 0.9) return MATCH_CONFIDENCES.HIGH
+  if (match.score >= 0.6) return MATCH_CONFIDENCES.MEDIUM
+  return MATCH_CONFIDENCES.LOW
+}
+
+/**
+ * Library import service reading Goodreads and StoryGraph exports and adding their books to the user's shelves
+ */
+export const libraryImportService = {
+  /**
+   * Parses a Goodreads or StoryGraph CSV export, detecting which one it is from its columns
+   *
+   * Rows without a title are skipped.
+   */
+  parseExport(text: string): Result<ImportFile, SchemaError> {
+    const [header, ...lines] = parseCsv(text)
+    const columns = (header ?? []).map((column) => column.trim())
+    const source = (Object.keys(REQUIRED_COLUMNS) as ImportSource[]).find((candidate) =>
+      REQUIRED_COLUMNS[candidate].every((column) => columns.includes(column)),
+    )
+
+    if (!source) {
+      return err(
+        new SchemaError("The file is not a Goodreads or StoryGraph export", [
+          { path: [], message: `Expected the columns of a Goodreads or StoryGraph CSV export` },
+        ]),
+      )
+    }
+
+    const readRow = source === IMPORT_SOURCES.GOODREADS ? readGoodreadsRow : readStoryGraphRow
+    const rows = lines.flatMap((cells, index): ImportRow[] => {
+      const row = readRow((column) => cells[columns.indexOf(column)]?.trim())
+      // The header is line 1
+      return row.title ? [{ line: index + 2, ...row }] : []
+    })
+
+    return ok({ source, rows })
+  },
+
+  /**
+   * Finds the Open Library work of an import row
+   *
+   * Looks the row up by ISBN first, then falls back to searching its title and author and keeping the closest result.
+   *
+   * @returns The match, or undefined when no work is close enough
+   */
+  async matchRow(
+    row: ImportRow,
+    requestOptions?: BookProviderRequestOptions,
+  ): Promise<Result<ImportMatch | undefined, AppError>> {
+    if (row.isbn) {
+      const result = await bookService.searchByIsbn(
+        row.isbn,
+        { maxResults: 1, provider: BOOK_PROVIDERS.OPEN_LIBRARY },
+        requestOptions,
+      )
+      if (!result.ok) return result
+
+      const volume = result.value.items?.[0]
+      if (volume) return ok({ volume, method: MATCH_METHODS.ISBN, score: 1 })
+    }
+
+    const result = await bookService.searchBooks(
+      {
+        query: "",
+        advanced: { title: row.title, author: row.author },
+        maxResults: MATCH_CANDIDATES,
+        provider: BOOK_PROVIDERS.OPEN_LIBRARY,
+      },
+      requestOptions,
+    )
+    if (!result.ok) return result
+
+    const best = (result.value.items ?? [])
+      .map((volume) => ({ volume, method: MATCH_METHODS.TITLE_AUTHOR, score: scoreCandidate(row, volume) }))
+      .sort((a, b) => b.score - a.score)[0]
+
+    return ok(best && best.score >= MIN_MATCH_SCORE ? best : undefined)
+  },
+
+  /**
+   * Adds confirmed imports to the user's shelves, creating the custom shelves they need
+   *
+   * Books without any shelf go to "Want to read" and keep the dates they were shelved and finished on. A book or
+   * shelf failing to save does not stop the others; the rows missing from some of their shelves are returned in the
+   * summary with the shelves they did get added to.
+   */
+  async importBooks(imports: readonly ConfirmedImport[]): Promise<Result<ImportSummary, AppError>> {
+    const shelvesResult = await libraryService.getShelves()
+    if (!shelvesResult.ok) return shelvesResult
+
+    const shelves = [...shelvesResult.value]
+    const findShelf = (name: string): Shelf | undefined =>
+      shelves.find((shelf) => shelf.kind === SHELF_KINDS.CUSTOM && shelf.name.toLowerCase() === name.toLowerCase())
+
+    // Shelves that could not be created fail the rows needing them, not the whole import
+    const shelfErrors = new Map<string, AppError>()
+    for (const name of new Set(imports.flatMap(({ row }) => row.shelves))) {
+      if (findShelf(name)) continue
+
+      const result = await libraryService.createShelf(name)
+      if (result.ok) {
+        shelves.push(result.value)
+      } else {
+        shelfErrors.set(name, result.error)
+      }
+    }
+
+    const failed: ImportFailure[] = []
+
+    for (const { row, volume } of imports) {
+      const status = row.status ?? (row.shelves.length === 0 ? SHELF_KINDS.WANT_TO_READ : undefined)
+      const targets = [
+        ...shelves.filter((shelf) => status && shelf.kind === status),
+        ...row.shelves.flatMap((name) => findShelf(name) ?? []),
+      ]
+      const savedShelves: string[] = []
+      let error = row.shelves.flatMap((name) => shelfErrors.get(name) ?? [])[0]
+
+      for (const shelf of targets) {
+        const result = await libraryService.addBookToShelf({
+          shelf,
+          volume,
+          addedAt: row.addedAt,
+          finishedAt: shelf.kind === SHELF_KINDS.READ ? row.finishedAt : undefined,
+        })
+
+        if (result.ok) {
+          savedShelves.push(shelf.name)
+        } else {
+          error ??= result.error
+        }
+      }
+
+      if (error) failed.push({ row, error, savedShelves })
+    }
+
+    return ok({ imported: imports.length - failed.length, failed })
+  },
+}
@@ -0,0 +1,442 @@
+import type { AppError } from "@my-library-app/errors"
+import type { Result } from "@my-library-app/result"
+
+import { fromHttpStatus, NetworkError, toAppError } from "@my-library-app/errors"
+
+import type { Volume } from "./book-service"
+
+import { authService } from "./auth-service"
+
+/**
+ * Kinds of shelves a user can own
+ *
+ * Status shelves are created for every user and a book can only be on one of them at a time.
+ */
+export const SHELF_KINDS = {
+  WANT_TO_READ: "want_to_read",
+  READING: "reading",
+  READ: "read",
+  CUSTOM: "custom",
+} as const
+
+export type ShelfKind = (typeof SHELF_KINDS)[keyof typeof SHELF_KINDS]
+
+export type StatusShelfKind = Exclude<ShelfKind, typeof SHELF_KINDS.CUSTOM>
+
+/**
+ * Default names of the status shelves, in display order
+ */
+export const STATUS_SHELF_NAMES: Readonly<Record<StatusShelfKind, string>> = {
+  want_to_read: "Want to read",
+  reading: "Reading",
+  read: "Read",
+}
+
+/**
+ * Orders the books of a shelf can be shown in
+ *
+ * Sorting by rating uses the user's own ratings, unlike the `rating` search sort which uses Open Library's average.
+ */
+export const SHELF_SORTS = {
+  ADDED: "added",
+  RATING: "rating",
+} as const
+
+export type ShelfSort = (typeof SHELF_SORTS)[keyof typeof SHELF_SORTS]
+
+/**
+ * Shelf owned by the current user
+ */
+export interface Shelf {
+  readonly id: string
+  readonly name: string
+  readonly kind: ShelfKind
+  readonly createdAt: string
+}
+
+/**
+ * Book stored on a shelf with a snapshot of its volume data
+ */
+export interface ShelfBook {
+  readonly id: string
+  readonly shelfId: string
+  readonly bookId: string
+  readonly volume: Volume
+  readonly addedAt: string
+  /**
+   * When the book was finished, only known for books imported with their reading history
+   */
+  readonly finishedAt?: string
+}
+
+/**
+ * Options for adding a book to a shelf
+ */
+export interface AddBookToShelfOptions {
+  readonly shelf: Shelf
+  readonly volume: Volume
+  /**
+   * When the book was shelved, defaults to now (e.g., the date an imported book was shelved on another service)
+   */
+  readonly addedAt?: string
+  /**
+   * When the book was finished, e.g. the date read of an imported book
+   */
+  readonly finishedAt?: string
+}
+
+/**
+ * Options for removing a book from a shelf
+ */
+export interface RemoveBookFromShelfOptions {
+  readonly shelfId: string
+  readonly bookId: string
+}
+
+/**
+ * Row of the `shelves` table
+ */
+interface ShelfRow {
+  readonly id: string
+  readonly name: string
+  readonly kind: ShelfKind
+  readonly created_at: string
+}
+
+/**
+ * Row of the `shelf_books` table
+ */
+interface ShelfBookRow {
+  readonly id: string
+  readonly shelf_id: string
+  readonly book_id: string
+  readonly volume: Volume
+  readonly added_at: string
+  readonly finished_at: string | null
+}
+
+const SHELF_COLUMNS = "id, name, kind, created_at"
+
+const SHELF_BOOK_COLUMNS = "id, shelf_id, book_id, volume, added_at, finished_at"
+
+const STATUS_SHELF_KINDS = Object.keys(STATUS_SHELF_NAMES) as StatusShelfKind[]
+
+/**
+ * Checks whether a shelf kind is one of the status shelves
+ */
+export const isStatusShelfKind = (kind: ShelfKind): kind is StatusShelfKind => {
+  return kind !== SHELF_KINDS.CUSTOM
+}
+
+/**
+ * Transforms a `shelves` row to Shelf format
+ */
+const transformShelfRow = (row: ShelfRow): Shelf => {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Transforms a `shelf_books` row to ShelfBook format
+ */
+const transformShelfBookRow = (row: ShelfBookRow): ShelfBook => {
+  return {
+    id: row.id,
+    shelfId: row.shelf_id,
+    bookId: row.book_id,
+    volume: row.volume,
+    addedAt: row.added_at,
+    finishedAt: row.finished_at ?? undefined,
+  }
+}
+
+/**
+ * Sorts shelves with status shelves first (in their canonical order), then custom shelves by creation date
+ */
+const sortShelves = (shelves: readonly Shelf[]): Shelf[] => {
+  const rank = (shelf: Shelf): number => {
+    const index = STATUS_SHELF_KINDS.indexOf(shelf.kind as StatusShelfKind)
+    return index === -1 ? STATUS_SHELF_KINDS.length : index
+  }
+
+  return [...shelves].sort((a, b) => rank(a) - rank(b) || a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * Creates the application error for a failed Supabase query from the status of its response
+ *
+ * Supabase reports requests that never reached the server (e.g., offline) with status 0.
+ */
+export const toLibraryError = (message: string, status: number): AppError => {
+  return status === 0 ? new NetworkError(message) : fromHttpStatus(message, status)
+}
+
+/**
+ * Library service for managing the current user's shelves in Supabase
+ */
+export const libraryService = {
+  /**
+   * Gets the current user's shelves, creating any missing status shelves
+   */
+  async getShelves(): Promise<Result<Shelf[], AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase.from("shelves").select(SHELF_COLUMNS)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to get shelves: ${error.message}`, status),
+        }
+      }
+
+      const rows = data as ShelfRow[]
+      const missingKinds = STATUS_SHELF_KINDS.filter((kind) => !rows.some((row) => row.kind === kind))
+
+      if (missingKinds.length === 0) {
+        return {
+          ok: true,
+          value: sortShelves(rows.map(transformShelfRow)),
+        }
+      }
+
+      const {
+        data: createdData,
+        error: createError,
+        status: createStatus,
+      } = await supabase
+        .from("shelves")
+        .insert(missingKinds.map((kind) => ({ kind, name: STATUS_SHELF_NAMES[kind] })))
+        .select(SHELF_COLUMNS)
+
+      // Another tab or request created the default shelves first, which the unique index on status kinds rejects
+      if (createStatus === 409) {
+        const {
+          data: currentData,
+          error: currentError,
+          status: currentStatus,
+        } = await supabase.from("shelves").select(SHELF_COLUMNS)
+
+        if (currentError) {
+          return {
+            ok: false,
+            error: toLibraryError(`Failed to get shelves: ${currentError.message}`, currentStatus),
+          }
+        }
+
+        return {
+          ok: true,
+          value: sortShelves((currentData as ShelfRow[]).map(transformShelfRow)),
+        }
+      }
+
+      if (createError) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to create default shelves: ${createError.message}`, createStatus),
+        }
+      }
+
+      return {
+        ok: true,
+        value: sortShelves([...rows, ...(createdData as ShelfRow[])].map(transformShelfRow)),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while getting shelves"),
+      }
+    }
+  },
+
+  /**
+   * Creates a custom shelf
+   */
+  async createShelf(name: string): Promise<Result<Shelf, AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("shelves")
+        .insert({ name: name.trim(), kind: SHELF_KINDS.CUSTOM })
+        .select(SHELF_COLUMNS)
+        .single()
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to create shelf: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: transformShelfRow(data as ShelfRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while creating shelf"),
+      }
+    }
+  },
+
+  /**
+   * Deletes a custom shelf and all the books on it
+   */
+  async deleteShelf(shelfId: string): Promise<Result<void, AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { error, status } = await supabase.from("shelves").delete().eq("id", shelfId).eq("kind", SHELF_KINDS.CUSTOM)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to delete shelf: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while deleting shelf"),
+      }
+    }
+  },
+
+  /**
+   * Gets the books on a shelf, most recently added first
+   */
+  async getShelfBooks(shelfId: string): Promise<Result<ShelfBook[], AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("shelf_books")
+        .select(SHELF_BOOK_COLUMNS)
+        .eq("shelf_id", shelfId)
+        .order("added_at", { ascending: false })
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to get shelf books: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: (data as ShelfBookRow[]).map(transformShelfBookRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while getting shelf books"),
+      }
+    }
+  },
+
+  /**
+   * Gets the IDs of the shelves a book is on
+   */
+  async getBookShelfIds(bookId: string): Promise<Result<string[], AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase.from("shelf_books").select("shelf_id").eq("book_id", bookId)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to get book shelves: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: (data as Pick<ShelfBookRow, "shelf_id">[]).map((row) => row.shelf_id),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while getting book shelves"),
+      }
+    }
+  },
+
+  /**
+   * Adds a book to a shelf
+   *
+   * Adding a book to a status shelf removes it from the other status shelves. The move runs in a single database
+   * function, so a failure leaves the book on the shelves it was on.
+   */
+  async addBookToShelf(options: AddBookToShelfOptions): Promise<Result<ShelfBook, AppError>> {
+    try {
+      const { shelf, volume, addedAt, finishedAt } = options
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .rpc("add_book_to_shelf", {
+          p_shelf_id: shelf.id,
+          p_book_id: volume.id,
+          p_volume: volume,
+          p_added_at: addedAt ?? null,
+          p_finished_at: finishedAt ?? null,
+        })
+        .select(SHELF_BOOK_COLUMNS)
+        .single()
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to add book to shelf: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: transformShelfBookRow(data as ShelfBookRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while adding book to shelf"),
+      }
+    }
+  },
+
+  /**
+   * Removes a book from a shelf
+   */
+  async removeBookFromShelf(options: RemoveBookFromShelfOptions): Promise<Result<void, AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { error, status } = await supabase
+        .from("shelf_books")
+        .delete()
+        .eq("shelf_id", options.shelfId)
+        .eq("book_id", options.bookId)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to remove book from shelf: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while removing book from shelf"),
+      }
+    }
+  },
+}
@@ -0,0 +1,410 @@
+import type { AppError } from "@my-library-app/errors"
+import type { Result } from "@my-library-app/result"
+
+import { SchemaError, type SchemaIssue, toAppError } from "@my-library-app/errors"
+
+import { authService } from "./auth-service"
+import { downloadFile } from "./file-download"
+import { toLibraryError } from "./library-service"
+
+/**
+ * Kinds of notes taken while reading
+ */
+export const NOTE_KINDS = {
+  QUOTE: "quote",
+  NOTE: "note",
+} as const
+
+export type NoteKind = (typeof NOTE_KINDS)[keyof typeof NOTE_KINDS]
+
+/**
+ * Longest note, in characters
+ */
+export const NOTE_MAX_LENGTH = 10000
+
+/**
+ * Quote or note taken while reading a book
+ */
+export interface BookNote {
+  readonly id: string
+  /**
+   * Book the note is about, an Open Library work ID
+   */
+  readonly bookId: string
+  readonly bookTitle: string
+  readonly kind: NoteKind
+  readonly content: string
+  readonly page?: number
+  /**
+   * Lowercase tags, e.g. "love" or "chapter-3"
+   */
+  readonly tags: readonly string[]
+  readonly createdAt: string
+  readonly updatedAt: string
+}
+
+/**
+ * Options for taking a note
+ */
+export interface CreateBookNoteOptions {
+  readonly bookId: string
+  readonly bookTitle: string
+  readonly kind: NoteKind
+  readonly content: string
+  readonly page?: number
+  readonly tags: readonly string[]
+}
+
+/**
+ * Options for editing a note, the book of a note being fixed
+ */
+export interface UpdateBookNoteOptions {
+  readonly id: string
+  readonly kind: NoteKind
+  readonly content: string
+  readonly page?: number
+  readonly tags: readonly string[]
+}
+
+/**
+ * Options for searching notes
+ */
+export interface SearchBookNotesOptions {
+  readonly query: string
+  readonly maxResults?: number
+}
+
+/**
+ * Row of the `book_notes` table
+ */
+interface BookNoteRow {
+  readonly id: string
+  readonly book_id: string
+  readonly book_title: string
+  readonly kind: NoteKind
+  readonly content: string
+  readonly page: number | null
+  readonly tags: string[]
+  readonly created_at: string
+  readonly updated_at: string
+}
+
+const NOTE_COLUMNS = "id, book_id, book_title, kind, content, page, tags, created_at, updated_at"
+
+const DEFAULT_SEARCH_RESULTS = 50
+
+/**
+ * Transforms a `book_notes` row to BookNote format
+ */
+const transformBookNoteRow = (row: BookNoteRow): BookNote => {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    bookTitle: row.book_title,
+    kind: row.kind,
+    content: row.content,
+    page: row.page ?? undefined,
+    tags: row.tags,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Checks the content and page of a note, mirroring the table constraints so mistakes are reported per field
+ */
+const validateNote = (content: string, page: number | undefined): SchemaIssue[] => {
+  const issues: SchemaIssue[] = []
+
+  if (!content.trim()) {
+    issues.push({ path: ["content"], message: "Note must not be empty" })
+  } else if (content.length > NOTE_MAX_LENGTH) {
+    issues.push({ path: ["content"], message: `Note must not be longer than ${NOTE_MAX_LENGTH} characters` })
+  }
+  if (page !== undefined && (!Number.isInteger(page) || page < 1)) {
+    issues.push({ path: ["page"], message: "Page must be a positive whole number" })
+  }
+
+  return issues
+}
+
+/**
+ * Parses comma-separated tags, lowercased and without duplicates
+ *
+ * @example
+ * ```typescript
+ * parseTags("Love, war , love") // ["love", "war"]
+ * ```
+ */
+export const parseTags = (input: string): string[] => {
+  const tags = input
+    .split(",")
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, "-"))
+    .filter(Boolean)
+
+  return [...new Set(tags)]
+}
+
+/**
+ * Sorts notes in reading order: by page, notes without a page last, then by creation date
+ */
+export const sortNotesByPage = (notes: readonly BookNote[]): BookNote[] => {
+  return [...notes].sort(
+    (a, b) =>
+      (a.page ?? Number.MAX_SAFE_INTEGER) - (b.page ?? Number.MAX_SAFE_INTEGER) ||
+      a.createdAt.localeCompare(b.createdAt),
+  )
+}
+
+/**
+ * Formats the page, tags and date of a note, e.g. "p. 42 · #love · 2026-10-18"
+ */
+const formatNoteDetails = (note: BookNote): string => {
+  return [
+    note.page === undefined ? undefined : `p. ${note.page}`,
+    note.tags.length > 0 ? note.tags.map((tag) => `#${tag}`).join(" ") : undefined,
+    note.createdAt.slice(0, 10),
+  ]
+    .filter(Boolean)
+    .join(" · ")
+}
+
+/**
+ * Serialises the notes of a book to Markdown, quotes first as block quotes, then notes, each in reading order
+ *
+ * @example
+ * ```typescript
+ * toNotesMarkdown({ title: "Dune", authors: ["Frank Herbert"] }, notes)
+ * // "# Dune\n\n_Frank Herbert_\n\n## Quotes\n\n> Fear is the mind-killer.\n>\n> — p. 8 · 2026-10-18\n"
+ * ```
+ */
+export const toNotesMarkdown = (
+  book: { readonly title: string; readonly authors: readonly string[] },
+  notes: readonly BookNote[],
+): string => {
+  const sortedNotes = sortNotesByPage(notes)
+  const quotes = sortedNotes.filter((note) => note.kind === NOTE_KINDS.QUOTE)
+  const otherNotes = sortedNotes.filter((note) => note.kind === NOTE_KINDS.NOTE)
+  const sections = [`# ${book.title}`]
+
+  if (book.authors.length > 0) sections.push(`_${book.authors.join(", ")}_`)
+
+  if (quotes.length > 0) {
+    sections.push(
+      "## Quotes",
+      ...quotes.map((quote) =>
+        [...quote.content.trim().split("\n"), "", `— ${formatNoteDetails(quote)}`]
+          .map((line) => (line ? `> ${line}` : ">"))
+          .join("\n"),
+      ),
+    )
+  }
+
+  if (otherNotes.length > 0) {
+    sections.push("## Notes", ...otherNotes.map((note) => `${note.content.trim()}\n\n_${formatNoteDetails(note)}_`))
+  }
+
+  return `${sections.join("\n\n")}\n`
+}
+
+/**
+ * Note service for managing the current user's quotes and notes in Supabase
+ */
+export const noteService = {
+  /**
+   * Gets the notes of a book, in reading order
+   */
+  async getBookNotes(bookId: string): Promise<Result<BookNote[], AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase.from("book_notes").select(NOTE_COLUMNS).eq("book_id", bookId)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to get notes: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: sortNotesByPage((data as BookNoteRow[]).map(transformBookNoteRow)),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while getting notes"),
+      }
+    }
+  },
+
+  /**
+   * Searches the text and tags of all the user's notes, most recent first
+   *
+   * Queries use web search syntax: words must all match, `"quoted phrases"` match in order, `or` matches either
+   * word and a leading `-` excludes a word. A blank query lists the most recent notes.
+   */
+  async searchNotes(options: SearchBookNotesOptions): Promise<Result<BookNote[], AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const query = supabase
+        .from("book_notes")
+        .select(NOTE_COLUMNS)
+        .order("created_at", { ascending: false })
+        .limit(options.maxResults ?? DEFAULT_SEARCH_RESULTS)
+
+      const { data, error, status } = options.query.trim()
+        ? await query.textSearch("search", options.query.trim(), { type: "websearch", config: "simple" })
+        : await query
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to search notes: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: (data as BookNoteRow[]).map(transformBookNoteRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while searching notes"),
+      }
+    }
+  },
+
+  /**
+   * Takes a note
+   */
+  async createNote(options: CreateBookNoteOptions): Promise<Result<BookNote, AppError>> {
+    try {
+      const issues = validateNote(options.content, options.page)
+      if (issues.length > 0) {
+        return {
+          ok: false,
+          error: new SchemaError(issues[0]?.message ?? "Invalid note", issues),
+        }
+      }
+
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("book_notes")
+        .insert({
+          book_id: options.bookId,
+          book_title: options.bookTitle,
+          kind: options.kind,
+          content: options.content.trim(),
+          page: options.page ?? null,
+          tags: options.tags,
+        })
+        .select(NOTE_COLUMNS)
+        .single()
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to save note: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: transformBookNoteRow(data as BookNoteRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while saving note"),
+      }
+    }
+  },
+
+  /**
+   * Edits a note
+   */
+  async updateNote(options: UpdateBookNoteOptions): Promise<Result<BookNote, AppError>> {
+    try {
+      const issues = validateNote(options.content, options.page)
+      if (issues.length > 0) {
+        return {
+          ok: false,
+          error: new SchemaError(issues[0]?.message ?? "Invalid note", issues),
+        }
+      }
+
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("book_notes")
+        .update({
+          kind: options.kind,
+          content: options.content.trim(),
+          page: options.page ?? null,
+          tags: options.tags,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", options.id)
+        .select(NOTE_COLUMNS)
+        .single()
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to update note: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: transformBookNoteRow(data as BookNoteRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while updating note"),
+      }
+    }
+  },
+
+  /**
+   * Deletes a note
+   */
+  async deleteNote(noteId: string): Promise<Result<void, AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { error, status } = await supabase.from("book_notes").delete().eq("id", noteId)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to delete note: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while deleting note"),
+      }
+    }
+  },
+
+  /**
+   * Downloads the notes of a book as a Markdown file from the browser
+   *
+   * @param filename - File name without extension
+   */
+  downloadMarkdown(
+    book: { readonly title: string; readonly authors: readonly string[] },
+    notes: readonly BookNote[],
+    filename: string,
+  ): void {
+    downloadFile(toNotesMarkdown(book, notes), `${filename}.md`, "text/markdown;charset=utf-8")
+  },
+}
@@ -0,0 +1,42 @@
+import type { AppError } from "@my-library-app/errors"
+import type { Result } from "@my-library-app/result"
+
+import { toAppError } from "@my-library-app/errors"
+
+const SERVICE_WORKER_URL = "/sw.js"
+
+/**
+ * Offline service for the service worker that caches the app shell, covers and the user's shelves
+ */
+export const offlineService = {
+  /**
+   * Registers the service worker, if the browser supports it
+   */
+  async registerServiceWorker(): Promise<Result<ServiceWorkerRegistration | null, AppError>> {
+    try {
+      if (!("serviceWorker" in navigator)) {
+        return {
+          ok: true,
+          value: null,
+        }
+      }
+
+      return {
+        ok: true,
+        value: await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: "/" }),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while registering service worker"),
+      }
+    }
+  },
+
+  /**
+   * Asks the service worker to drop the saved books it keeps for offline use
+   */
+  clearLibraryCache(): void {
+    navigator.serviceWorker?.controller?.postMessage({ type: "CLEAR_LIBRARY_CACHE" })
+  },
+}
@@ -0,0 +1,289 @@
+import type { Result } from "@my-library-app/result"
+
+import { type AppError, toAppError } from "@my-library-app/errors"
+
+/**
+ * Version of the stored data
+ *
+ * Bump it whenever the shape of cached values changes (e.g., `Volume` or `Work`): entries written by another version
+ * are dropped the next time the cache is opened.
+ */
+export const CACHE_STORAGE_VERSION = 2
+
+/**
+ * Time to live of cached entries, in milliseconds
+ */
+export const CACHE_TTL = {
+  SEARCH: 1000 * 60 * 60 * 6, // 6 hours
+  BOOK: 1000 * 60 * 60 * 24 * 7, // 7 days
+} as const
+
+/**
+ * Limits above which the least recently used entries are evicted
+ */
+const MAX_ENTRIES = 500
+const MAX_BYTES = 10 * 1024 * 1024
+
+const DB_NAME = "my-library-cache"
+const ENTRIES_STORE = "entries"
+const META_STORE = "meta"
+const STORAGE_VERSION_KEY = "storage-version"
+const USAGE_KEY = "usage"
+
+/**
+ * Entry of the `entries` object store
+ */
+interface CacheEntry {
+  readonly key: string
+  readonly value: unknown
+  readonly expiresAt: number
+  readonly accessedAt: number
+  /**
+   * Approximate size of the serialised value, in bytes
+   */
+  readonly size: number
+}
+
+/**
+ * Running totals of the `entries` object store, kept in the `meta` store so writes do not read every entry
+ */
+interface CacheUsage {
+  readonly count: number
+  readonly bytes: number
+}
+
+const EMPTY_USAGE: CacheUsage = { count: 0, bytes: 0 }
+
+let databasePromise: Promise<IDBDatabase> | undefined
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"))
+  })
+}
+
+/**
+ * Resolves once a transaction completes
+ */
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error("IndexedDB transaction failed"))
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"))
+  })
+}
+
+/**
+ * Opens the cache database, clearing the entries written by another storage version
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= (async () => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      const entries = request.result.createObjectStore(ENTRIES_STORE, { keyPath: "key" })
+      entries.createIndex("accessedAt", "accessedAt")
+      request.result.createObjectStore(META_STORE)
+    }
+
+    const database = await promisifyRequest(request)
+    const transaction = database.transaction([ENTRIES_STORE, META_STORE], "readwrite")
+    const meta = transaction.objectStore(META_STORE)
+    const storedVersion = await promisifyRequest(meta.get(STORAGE_VERSION_KEY))
+
+    if (storedVersion !== CACHE_STORAGE_VERSION) {
+      transaction.objectStore(ENTRIES_STORE).clear()
+      meta.put(CACHE_STORAGE_VERSION, STORAGE_VERSION_KEY)
+      meta.put(EMPTY_USAGE, USAGE_KEY)
+    }
+
+    await promisifyTransaction(transaction)
+    return database
+  })()
+
+  // Let a later call retry when opening fails (e.g., the database is blocked)
+  databasePromise.catch(() => (databasePromise = undefined))
+
+  return databasePromise
+}
+
+/**
+ * Reads the running totals of the cache
+ */
+const getUsage = async (meta: IDBObjectStore): Promise<CacheUsage> => {
+  return ((await promisifyRequest(meta.get(USAGE_KEY))) as CacheUsage | undefined) ?? EMPTY_USAGE
+}
+
+/**
+ * Evicts the least recently used entries until the cache fits within its limits
+ *
+ * Walks the `accessedAt` index with a cursor, so only the evicted entries are read.
+ *
+ * @returns The totals of the cache once the entries are evicted
+ */
+const evictEntries = (entries: IDBObjectStore, usage: CacheUsage): Promise<CacheUsage> => {
+  return new Promise((resolve, reject) => {
+    let { count, bytes } = usage
+    const request = entries.index("accessedAt").openCursor()
+
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor || (count <= MAX_ENTRIES && bytes <= MAX_BYTES)) {
+        resolve({ count, bytes })
+        return
+      }
+
+      // The index is sorted by last access, so the least recently used entries come first
+      const entry = cursor.value as CacheEntry
+      cursor.delete()
+      count -= 1
+      bytes -= entry.size
+      cursor.continue()
+    }
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"))
+  })
+}
+
+/**
+ * Persistent cache backed by IndexedDB, surviving page reloads
+ *
+ * Entries expire after their time to live and are dropped when next read. The least recently used ones are evicted
+ * when the cache grows past its entry or size limits, which are checked against running totals.
+ */
+export const persistentCache = {
+  /**
+   * Gets a cached value, or undefined when it is missing or expired
+   */
+  async get<T>(key: string): Promise<Result<T | undefined, AppError>> {
+    try {
+      const database = await openDatabase()
+      const transaction = database.transaction([ENTRIES_STORE, META_STORE], "readwrite")
+      const store = transaction.objectStore(ENTRIES_STORE)
+      const entry = (await promisifyRequest(store.get(key))) as CacheEntry | undefined
+
+      if (entry && entry.expiresAt <= Date.now()) {
+        const meta = transaction.objectStore(META_STORE)
+        const usage = await getUsage(meta)
+        store.delete(key)
+        meta.put({ count: usage.count - 1, bytes: usage.bytes - entry.size } satisfies CacheUsage, USAGE_KEY)
+      } else if (entry) {
+        store.put({ ...entry, accessedAt: Date.now() } satisfies CacheEntry)
+      }
+
+      await promisifyTransaction(transaction)
+
+      return {
+        ok: true,
+        value: entry && entry.expiresAt > Date.now() ? (entry.value as T) : undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while reading the cache"),
+      }
+    }
+  },
+
+  /**
+   * Stores a value for the given time to live
+   */
+  async set(key: string, value: unknown, ttl: number): Promise<Result<void, AppError>> {
+    try {
+      const database = await openDatabase()
+      const transaction = database.transaction([ENTRIES_STORE, META_STORE], "readwrite")
+      const store = transaction.objectStore(ENTRIES_STORE)
+      const meta = transaction.objectStore(META_STORE)
+      const now = Date.now()
+      const entry: CacheEntry = {
+        key,
+        value,
+        expiresAt: now + ttl,
+        accessedAt: now,
+        // JavaScript strings are UTF-16, so each character takes two bytes
+        size: JSON.stringify(value).length * 2,
+      }
+
+      const [usage, previous] = await Promise.all([
+        getUsage(meta),
+        promisifyRequest(store.get(key)) as Promise<CacheEntry | undefined>,
+      ])
+
+      store.put(entry)
+      // Replacing an entry swaps its size without adding to the count
+      const newUsage: CacheUsage = {
+        count: usage.count + (previous ? 0 : 1),
+        bytes: usage.bytes - (previous?.size ?? 0) + entry.size,
+      }
+      const isOverLimit = newUsage.count > MAX_ENTRIES || newUsage.bytes > MAX_BYTES
+      meta.put(isOverLimit ? await evictEntries(store, newUsage) : newUsage, USAGE_KEY)
+
+      await promisifyTransaction(transaction)
+
+      return {
+        ok: true,
+        value: undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while writing the cache"),
+      }
+    }
+  },
+
+  /**
+   * Removes every cached entry
+   */
+  async clear(): Promise<Result<void, AppError>> {
+    try {
+      const database = await openDatabase()
+      const transaction = database.transaction([ENTRIES_STORE, META_STORE], "readwrite")
+
+      transaction.objectStore(ENTRIES_STORE).clear()
+      transaction.objectStore(META_STORE).put(EMPTY_USAGE, USAGE_KEY)
+      await promisifyTransaction(transaction)
+
+      return {
+        ok: true,
+        value: undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while clearing the cache"),
+      }
+    }
+  },
+}
+
+/**
+ * Returns the cached value for a key, or loads it and caches it when the load succeeds
+ *
+ * The cache is best effort: when IndexedDB is unavailable (e.g., private browsing), values are simply loaded.
+ */
+export const withPersistentCache = async <T>(
+  key: string,
+  ttl: number,
+  load: () => Promise<Result<T, AppError>>,
+): Promise<Result<T, AppError>> => {
+  const cached = await persistentCache.get<T>(key)
+
+  if (cached.ok && cached.value !== undefined) {
+    return {
+      ok: true,
+      value: cached.value,
+    }
+  }
+
+  const result = await load()
+
+  if (result.ok) {
+    // Writing (and evicting) does not need to delay the caller
+    void persistentCache.set(key, result.value, ttl)
+  }
+
+  return result
+}
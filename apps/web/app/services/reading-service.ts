@@ -0,0 +1,338 @@
+import type { AppError } from "@my-library-app/errors"
+import type { Result } from "@my-library-app/result"
+
+import { SchemaError, type SchemaIssue, toAppError } from "@my-library-app/errors"
+
+import { authService } from "./auth-service"
+import { toLibraryError } from "./library-service"
+
+/**
+ * Reading session logged against a book
+ */
+export interface ReadingSession {
+  readonly id: string
+  readonly bookId: string
+  readonly startPage: number
+  readonly endPage: number
+  /**
+   * Page count of the edition being read
+   */
+  readonly pageCount: number
+  readonly minutes: number
+  /**
+   * Day of the session, as an ISO date (e.g., "2026-10-18")
+   */
+  readonly readOn: string
+  readonly createdAt: string
+}
+
+/**
+ * Options for logging a reading session
+ */
+export interface LogReadingSessionOptions {
+  readonly bookId: string
+  readonly startPage: number
+  readonly endPage: number
+  readonly pageCount: number
+  readonly minutes: number
+  readonly readOn: string
+}
+
+/**
+ * Progress through a book, computed from its reading sessions
+ */
+export interface ReadingProgress {
+  /**
+   * Furthest page reached
+   */
+  readonly currentPage: number
+  readonly pageCount: number
+  /**
+   * Percent of the book read, from 0 to 100
+   */
+  readonly percent: number
+  readonly isFinished: boolean
+  readonly totalMinutes: number
+  /**
+   * Average pages read per day since the first session, counting the days without any reading
+   */
+  readonly pagesPerDay: number
+  /**
+   * Day the book will be finished at the current pace, as an ISO date, or undefined when finished or without a pace
+   */
+  readonly projectedFinish?: string
+}
+
+/**
+ * Row of the `reading_sessions` table
+ */
+interface ReadingSessionRow {
+  readonly id: string
+  readonly book_id: string
+  readonly start_page: number
+  readonly end_page: number
+  readonly page_count: number
+  readonly minutes: number
+  readonly read_on: string
+  readonly created_at: string
+}
+
+const SESSION_COLUMNS = "id, book_id, start_page, end_page, page_count, minutes, read_on, created_at"
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+/**
+ * Transforms a `reading_sessions` row to ReadingSession format
+ */
+const transformReadingSessionRow = (row: ReadingSessionRow): ReadingSession => {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    startPage: row.start_page,
+    endPage: row.end_page,
+    pageCount: row.page_count,
+    minutes: row.minutes,
+    readOn: row.read_on,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Formats a date as an ISO date in the user's time zone
+ */
+export const toIsoDate = (date: Date): string => {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map((part) => part.toString().padStart(2, "0"))
+    .join("-")
+}
+
+/**
+ * Parses an ISO date as midnight in the user's time zone
+ */
+export const parseIsoDate = (value: string): Date => {
+  const [year = 0, month = 1, day = 1] = value.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Checks the pages and duration of a session, mirroring the table constraints so mistakes are reported per field
+ */
+const validateSession = (options: LogReadingSessionOptions): SchemaIssue[] => {
+  const { startPage, endPage, pageCount, minutes, readOn } = options
+  const issues: SchemaIssue[] = []
+
+  if (!Number.isInteger(pageCount) || pageCount < 1) {
+    issues.push({ path: ["pageCount"], message: "Page count must be a positive whole number" })
+  }
+  if (!Number.isInteger(startPage) || startPage < 0) {
+    issues.push({ path: ["startPage"], message: "Start page must be zero or more" })
+  }
+  if (!Number.isInteger(endPage) || endPage < startPage) {
+    issues.push({ path: ["endPage"], message: "End page must not be before the start page" })
+  } else if (endPage > pageCount) {
+    issues.push({ path: ["endPage"], message: "End page must not be after the last page" })
+  }
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > 24 * 60) {
+    issues.push({ path: ["minutes"], message: "Minutes must be between 1 and 1440" })
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(readOn) || readOn > toIsoDate(new Date())) {
+    issues.push({ path: ["readOn"], message: "Date must not be in the future" })
+  }
+
+  return issues
+}
+
+/**
+ * Computes the progress through a book from its reading sessions
+ *
+ * The page count of the latest session wins, since it is the edition currently being read.
+ *
+ * @returns The progress, or undefined when no session was logged
+ */
+export const computeReadingProgress = (
+  sessions: readonly ReadingSession[],
+  today: Date = new Date(),
+): ReadingProgress | undefined => {
+  if (sessions.length === 0) return undefined
+
+  const byDate = [...sessions].sort(
+    (a, b) => a.readOn.localeCompare(b.readOn) || a.createdAt.localeCompare(b.createdAt),
+  )
+  const first = byDate[0]
+  const latest = byDate.at(-1)
+  if (!first || !latest) return undefined
+
+  const pageCount = latest.pageCount
+  const currentPage = Math.min(pageCount, Math.max(...sessions.map((session) => session.endPage)))
+  const pagesRead = sessions.reduce((total, session) => total + session.endPage - session.startPage, 0)
+  const todayStart = parseIsoDate(toIsoDate(today))
+  // Both days count, and rounding absorbs daylight saving changes
+  const days = Math.max(1, Math.round((todayStart.getTime() - parseIsoDate(first.readOn).getTime()) / MS_PER_DAY) + 1)
+  const pagesPerDay = pagesRead / days
+  const isFinished = currentPage >= pageCount
+
+  let projectedFinish: string | undefined
+  if (!isFinished && pagesPerDay > 0) {
+    const finish = new Date(todayStart)
+    finish.setDate(finish.getDate() + Math.ceil((pageCount - currentPage) / pagesPerDay))
+    projectedFinish = toIsoDate(finish)
+  }
+
+  return {
+    currentPage,
+    pageCount,
+    percent: Math.round((currentPage / pageCount) * 100),
+    isFinished,
+    totalMinutes: sessions.reduce((total, session) => total + session.minutes, 0),
+    pagesPerDay,
+    projectedFinish,
+  }
+}
+
+/**
+ * Reading service for logging the current user's reading sessions in Supabase
+ */
+export const readingService = {
+  /**
+   * Gets the reading sessions of some books, most recent first
+   */
+  async getSessions(bookIds: readonly string[]): Promise<Result<ReadingSession[], AppError>> {
+    try {
+      if (bookIds.length === 0) {
+        return {
+          ok: true,
+          value: [],
+        }
+      }
+
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("reading_sessions")
+        .select(SESSION_COLUMNS)
+        .in("book_id", bookIds)
+        .order("read_on", { ascending: false })
+        .order("created_at", { ascending: false })
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to get reading sessions: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: (data as ReadingSessionRow[]).map(transformReadingSessionRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while getting reading sessions"),
+      }
+    }
+  },
+
+  /**
+   * Gets all the user's reading sessions, most recent first
+   */
+  async getAllSessions(): Promise<Result<ReadingSession[], AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("reading_sessions")
+        .select(SESSION_COLUMNS)
+        .order("read_on", { ascending: false })
+        .order("created_at", { ascending: false })
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to get reading sessions: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: (data as ReadingSessionRow[]).map(transformReadingSessionRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while getting reading sessions"),
+      }
+    }
+  },
+
+  /**
+   * Logs a reading session
+   */
+  async logSession(options: LogReadingSessionOptions): Promise<Result<ReadingSession, AppError>> {
+    try {
+      const issues = validateSession(options)
+      if (issues.length > 0) {
+        return {
+          ok: false,
+          error: new SchemaError(issues[0]?.message ?? "Invalid reading session", issues),
+        }
+      }
+
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("reading_sessions")
+        .insert({
+          book_id: options.bookId,
+          start_page: options.startPage,
+          end_page: options.endPage,
+          page_count: options.pageCount,
+          minutes: options.minutes,
+          read_on: options.readOn,
+        })
+        .select(SESSION_COLUMNS)
+        .single()
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to log reading session: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: transformReadingSessionRow(data as ReadingSessionRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while logging reading session"),
+      }
+    }
+  },
+
+  /**
+   * Deletes a reading session
+   */
+  async deleteSession(sessionId: string): Promise<Result<void, AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { error, status } = await supabase.from("reading_sessions").delete().eq("id", sessionId)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to delete reading session: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while deleting reading session"),
+      }
+    }
+  },
+}
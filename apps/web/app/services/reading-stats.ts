@@ -0,0 +1,270 @@
+import type { Volume } from "./book-service"
+import type { ShelfBook } from "./library-service"
+import type { ReadingSession } from "./reading-service"
+
+import { parseIsoDate } from "./reading-service"
+
+/**
+ * Number of books and their pages read in a period
+ */
+export interface ReadingPeriod {
+  /**
+   * Name of the period, a month when a year is summarised and a year otherwise
+   */
+  readonly period: string
+  readonly books: number
+  readonly pages: number
+}
+
+/**
+ * Number of books sharing a value, e.g. a subject or an author
+ */
+export interface BookCount {
+  readonly label: string
+  readonly books: number
+}
+
+/**
+ * Summary of the books read in a year, or of all the books read
+ */
+export interface ReadingStats {
+  readonly totalBooks: number
+  /**
+   * Pages read in reading sessions, plus the page count of the books read without logging any session
+   */
+  readonly totalPages: number
+  /**
+   * Average page count of the books with a known page count, or undefined when none has one
+   */
+  readonly averagePages?: number
+  readonly distinctAuthors: number
+  /**
+   * Authors with more than one book read
+   */
+  readonly repeatAuthors: number
+  /**
+   * Books finished and pages read per month of the year, or per year when summarising all the books read
+   */
+  readonly periods: readonly ReadingPeriod[]
+  /**
+   * Most read subjects, the others grouped under "Other"
+   */
+  readonly subjects: readonly BookCount[]
+  /**
+   * Most read authors
+   */
+  readonly authors: readonly BookCount[]
+  /**
+   * Books per decade of publication, in ascending order
+   */
+  readonly decades: readonly BookCount[]
+  /**
+   * Books per page count range, from the shortest
+   */
+  readonly lengths: readonly BookCount[]
+}
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] }
+
+const TOP_SUBJECTS_LIMIT = 8
+
+const TOP_AUTHORS_LIMIT = 10
+
+/**
+ * Upper bounds (exclusive) of the book length ranges, the last range having no bound
+ */
+const LENGTH_RANGE_BOUNDS = [200, 300, 400, 500] as const
+
+/**
+ * Names of the book length ranges, e.g. "200–299" or "500+", from the shortest
+ */
+const LENGTH_RANGES = [
+  `< ${LENGTH_RANGE_BOUNDS[0]}`,
+  ...LENGTH_RANGE_BOUNDS.slice(1).map((upper, index) => `${LENGTH_RANGE_BOUNDS[index]}–${upper - 1}`),
+  `${LENGTH_RANGE_BOUNDS.at(-1)}+`,
+]
+
+/**
+ * Gets the day each book was read to its last page, from its last reading session reaching it, by book ID
+ */
+export const getSessionFinishDates = (sessions: readonly ReadingSession[]): ReadonlyMap<string, string> => {
+  const finishDates = new Map<string, string>()
+  sessions.forEach((session) => {
+    const finishedOn = finishDates.get(session.bookId)
+    if (session.endPage >= session.pageCount && (!finishedOn || session.readOn > finishedOn)) {
+      finishDates.set(session.bookId, session.readOn)
+    }
+  })
+
+  return finishDates
+}
+
+/**
+ * Gets when a book on the "Read" shelf was finished
+ *
+ * That is the later of its imported finish date and its last reading session reaching the last page. Books having
+ * neither fall back to when they were added to the "Read" shelf.
+ *
+ * @param finishDates - Finish dates from reading sessions, see {@link getSessionFinishDates}
+ */
+export const getFinishDate = (book: ShelfBook, finishDates: ReadonlyMap<string, string>): Date => {
+  const sessionFinishDate = finishDates.get(book.bookId)
+  const dates = [
+    book.finishedAt === undefined ? undefined : new Date(book.finishedAt),
+    sessionFinishDate === undefined ? undefined : parseIsoDate(sessionFinishDate),
+  ].filter((date) => date !== undefined)
+
+  return dates.length > 0 ? new Date(Math.max(...dates.map(Number))) : new Date(book.addedAt)
+}
+
+/**
+ * Gets the year a book on the "Read" shelf was finished, see {@link getFinishDate}
+ */
+export const getReadYear = (book: ShelfBook, finishDates: ReadonlyMap<string, string>): number => {
+  return getFinishDate(book, finishDates).getFullYear()
+}
+
+/**
+ * Gets the publish year of a book from its publish date, which providers format in different ways
+ */
+export const getPublishYear = (volume: Volume): number | undefined => {
+  const year = volume.volumeInfo.publishedDate.match(/\d{4}/)?.[0]
+  return year ? Number(year) : undefined
+}
+
+/**
+ * Counts the books per label, the most frequent first (ties in alphabetical order)
+ */
+const countBooks = (labels: readonly string[]): BookCount[] => {
+  const counts = new Map<string, number>()
+  labels.forEach((label) => counts.set(label, (counts.get(label) ?? 0) + 1))
+
+  return [...counts]
+    .map(([label, books]) => ({ label, books }))
+    .sort((a, b) => b.books - a.books || a.label.localeCompare(b.label))
+}
+
+/**
+ * Gets the name of the length range of a book
+ */
+const getLengthRange = (pages: number): string => {
+  const index = LENGTH_RANGE_BOUNDS.findIndex((upper) => pages < upper)
+  return LENGTH_RANGES[index === -1 ? LENGTH_RANGE_BOUNDS.length : index] ?? ""
+}
+
+/**
+ * Creates the empty periods of a summary: the months of a year, or every year from the first to the last one read in
+ */
+const getPeriods = (readYears: readonly number[], year: number | undefined): Mutable<ReadingPeriod>[] => {
+  if (year !== undefined) {
+    return Array.from({ length: 12 }, (_, month) => ({
+      period: new Date(year, month).toLocaleDateString(undefined, { month: "short" }),
+      books: 0,
+      pages: 0,
+    }))
+  }
+
+  const firstYear = Math.min(...readYears)
+  return Array.from({ length: Math.max(...readYears) - firstYear + 1 }, (_, index) => ({
+    period: (firstYear + index).toString(),
+    books: 0,
+    pages: 0,
+  }))
+}
+
+/**
+ * Gets the years books were finished or pages were read in, most recent first
+ */
+export const getReadYears = (books: readonly ShelfBook[], sessions: readonly ReadingSession[]): number[] => {
+  const finishDates = getSessionFinishDates(sessions)
+  const years = [
+    ...books.map((book) => getReadYear(book, finishDates)),
+    ...sessions.map((session) => parseIsoDate(session.readOn).getFullYear()),
+  ]
+
+  return [...new Set(years)].sort((a, b) => b - a)
+}
+
+/**
+ * Computes the reading statistics of the books on the "Read" shelf
+ *
+ * Books count in the period they were finished in (see {@link getFinishDate}) and pages in the day they were read on,
+ * from the reading sessions. Books read without logging any session add their whole page count when finished.
+ * Other statistics come from the volume snapshots stored with the books, so books lacking a page count, subjects or a
+ * publish date are left out of the matching charts.
+ *
+ * @param books - Books on the "Read" shelf
+ * @param sessions - All the user's reading sessions, including those of books not finished yet
+ * @param year - Year to summarise, or undefined for all the books read
+ */
+export const computeReadingStats = (
+  books: readonly ShelfBook[],
+  sessions: readonly ReadingSession[],
+  year?: number,
+): ReadingStats => {
+  const finishDates = getSessionFinishDates(sessions)
+  const readBooks = year === undefined ? books : books.filter((book) => getReadYear(book, finishDates) === year)
+  const readSessions =
+    year === undefined ? sessions : sessions.filter((session) => parseIsoDate(session.readOn).getFullYear() === year)
+  const pageCounts = readBooks.flatMap((book) =>
+    book.volume.volumeInfo.pageCount ? [book.volume.volumeInfo.pageCount] : [],
+  )
+
+  const readYears = getReadYears(books, sessions)
+  const periods = readBooks.length === 0 && readSessions.length === 0 ? [] : getPeriods(readYears, year)
+  const getPeriod = (date: Date): Mutable<ReadingPeriod> | undefined =>
+    periods[year === undefined ? date.getFullYear() - Math.min(...readYears) : date.getMonth()]
+
+  const loggedBookIds = new Set(sessions.map((session) => session.bookId))
+  readBooks.forEach((book) => {
+    const period = getPeriod(getFinishDate(book, finishDates))
+    if (!period) return
+    period.books++
+    if (!loggedBookIds.has(book.bookId)) period.pages += book.volume.volumeInfo.pageCount ?? 0
+  })
+  readSessions.forEach((session) => {
+    const period = getPeriod(parseIsoDate(session.readOn))
+    if (period) period.pages += session.endPage - session.startPage
+  })
+  const totalPages = periods.reduce((total, period) => total + period.pages, 0)
+
+  const subjects = countBooks(readBooks.flatMap((book) => book.volume.volumeInfo.categories ?? []))
+  const otherSubjects = subjects.slice(TOP_SUBJECTS_LIMIT).reduce((total, subject) => total + subject.books, 0)
+
+  const authors = countBooks(readBooks.flatMap((book) => book.volume.volumeInfo.authors ?? []))
+
+  const decades = countBooks(
+    readBooks.flatMap((book) => {
+      const publishYear = getPublishYear(book.volume)
+      return publishYear === undefined ? [] : [`${Math.floor(publishYear / 10) * 10}s`]
+    }),
+  ).sort((a, b) => parseInt(a.label) - parseInt(b.label))
+
+  const lengths = countBooks(pageCounts.map(getLengthRange))
+
+  return {
+    totalBooks: readBooks.length,
+    totalPages,
+    averagePages:
+      pageCounts.length > 0
+        ? Math.round(pageCounts.reduce((total, pages) => total + pages, 0) / pageCounts.length)
+        : undefined,
+    distinctAuthors: authors.length,
+    repeatAuthors: authors.filter((author) => author.books > 1).length,
+    periods,
+    subjects:
+      otherSubjects > 0
+        ? [...subjects.slice(0, TOP_SUBJECTS_LIMIT), { label: "Other", books: otherSubjects }]
+        : subjects,
+    authors: authors.slice(0, TOP_AUTHORS_LIMIT),
+    decades,
+    // Every range is listed, so the histogram keeps its shape
+    lengths:
+      pageCounts.length === 0
+        ? []
+        : LENGTH_RANGES.map((label) => ({
+            label,
+            books: lengths.find((length) => length.label === label)?.books ?? 0,
+          })),
+  }
+}
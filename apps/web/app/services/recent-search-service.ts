@@ -0,0 +1,65 @@
+/**
+ * Local storage key of the recent searches
+ */
+const STORAGE_KEY = "my-library-recent-searches"
+
+/**
+ * Number of recent searches kept
+ */
+const MAX_RECENT_SEARCHES = 8
+
+/**
+ * Reads the stored searches, ignoring a missing or corrupted entry
+ */
+const readSearches = (): string[] => {
+  try {
+    const value: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Recent search service remembering the last queries of this browser
+ *
+ * Storage failures (e.g., private browsing or a full quota) are ignored, since recent searches are only a shortcut.
+ */
+export const recentSearchService = {
+  /**
+   * Gets the recent searches, most recent first
+   */
+  getAll(): readonly string[] {
+    return readSearches()
+  },
+
+  /**
+   * Adds a search to the top of the recent searches, moving it there if it was already in the list
+   */
+  add(query: string): void {
+    const trimmed = query.trim()
+    if (!trimmed) return
+
+    const searches = [
+      trimmed,
+      ...readSearches().filter((search) => search.toLowerCase() !== trimmed.toLowerCase()),
+    ].slice(0, MAX_RECENT_SEARCHES)
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(searches))
+    } catch {
+      // Recent searches are not essential
+    }
+  },
+
+  /**
+   * Forgets every recent search
+   */
+  clear(): void {
+    try {
+      localStorage.removeItem(STORAGE_KEY)
+    } catch {
+      // Recent searches are not essential
+    }
+  },
+}
@@ -0,0 +1,263 @@
+import type { Result } from "@my-library-app/result"
+
+import { type AppError, fromHttpStatus, parseRetryAfter, SchemaError, toAppError } from "@my-library-app/errors"
+
+/**
+ * Options for creating a request pipeline
+ */
+export interface RequestPipelineOptions {
+  /**
+   * Sustained number of requests allowed per second
+   */
+  readonly requestsPerSecond: number
+  /**
+   * Number of requests that can be sent at once before the rate applies
+   */
+  readonly burst?: number
+  /**
+   * Number of retries of a failed request
+   */
+  readonly maxRetries?: number
+  /**
+   * Delay before the first retry; each later retry doubles it
+   */
+  readonly baseRetryDelayMs?: number
+  /**
+   * Headers sent with every request
+   */
+  readonly headers?: Readonly<Record<string, string>>
+}
+
+/**
+ * Options for a single request
+ */
+export interface PipelineRequestOptions {
+  readonly signal?: AbortSignal
+}
+
+/**
+ * Request pipeline fetching JSON documents
+ */
+export interface RequestPipeline {
+  readonly fetchJson: (url: string, options?: PipelineRequestOptions) => Promise<Result<unknown, AppError>>
+}
+
+/**
+ * Statuses worth retrying: timeouts, rate limiting and transient server errors
+ */
+const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([408, 429, 500, 502, 503, 504])
+
+/**
+ * Longest wait honoured from a `Retry-After` header
+ */
+const MAX_RETRY_AFTER_MS = 30_000
+
+/**
+ * Creates an abort error, matching the one `fetch` rejects with
+ */
+const createAbortError = (signal: AbortSignal): Error => {
+  return signal.reason instanceof Error ? signal.reason : new DOMException("The operation was aborted", "AbortError")
+}
+
+/**
+ * Waits for a delay, rejecting early when the signal aborts
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(createAbortError(signal))
+
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(createAbortError(signal))
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+
+    signal.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+/**
+ * Creates a token bucket rate limiter
+ *
+ * The bucket holds up to `capacity` tokens and refills continuously at `refillPerSecond`. Every request takes a
+ * token, waiting for the next refill when the bucket is empty, so bursts are allowed but the average rate is capped.
+ */
+const createTokenBucket = (capacity: number, refillPerSecond: number) => {
+  let tokens = capacity
+  let refilledAt = Date.now()
+
+  const refill = (): void => {
+    const now = Date.now()
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * refillPerSecond)
+    refilledAt = now
+  }
+
+  return {
+    async take(signal: AbortSignal): Promise<void> {
+      refill()
+
+      // Reserve the token straight away (possibly going negative), so concurrent callers queue up in order
+      tokens -= 1
+      if (tokens >= 0) return
+
+      try {
+        await sleep((-tokens / refillPerSecond) * 1000, signal)
+      } catch (error) {
+        tokens += 1
+        throw error
+      }
+    },
+  }
+}
+
+/**
+ * Gets the delay before retrying, from the `Retry-After` header when present, or exponential backoff with full
+ * jitter otherwise (a random delay up to `baseDelayMs * 2^attempt`, so clients do not retry in lockstep)
+ */
+const getRetryDelay = (attempt: number, baseDelayMs: number, response?: Response): number => {
+  const retryAfter = parseRetryAfter(response?.headers.get("Retry-After"))
+  if (retryAfter !== undefined) return Math.min(retryAfter * 1000, MAX_RETRY_AFTER_MS)
+
+  return Math.random() * baseDelayMs * 2 ** attempt
+}
+
+/**
+ * Creates a request pipeline for one API
+ *
+ * Every request goes through:
+ * 1. In-flight de-duplication: concurrent requests for the same URL share a single network request
+ * 2. A token bucket rate limiter shared by all requests of the pipeline
+ * 3. Retries with exponential backoff and jitter on network errors and retryable statuses (408, 429, 5xx)
+ *
+ * Aborting a request's signal rejects it straight away; the shared network request is only cancelled once every
+ * caller waiting for it has aborted.
+ */
+export const createRequestPipeline = (options: RequestPipelineOptions): RequestPipeline => {
+  const { requestsPerSecond, burst = 1, maxRetries = 3, baseRetryDelayMs = 500, headers } = options
+  const bucket = createTokenBucket(burst, requestsPerSecond)
+  const inFlight = new Map<
+    string,
+    { promise: Promise<Result<unknown, AppError>>; subscribe: (signal?: AbortSignal) => void }
+  >()
+
+  const fetchWithRetry = async (url: string, signal: AbortSignal): Promise<Result<unknown, AppError>> => {
+    for (let attempt = 0; ; attempt++) {
+      await bucket.take(signal)
+
+      let response: Response | undefined
+      try {
+        response = await fetch(url, { signal, headers })
+      } catch (error) {
+        // Aborts are final, while network errors (TypeError) may be transient
+        if (signal.aborted || !(error instanceof TypeError) || attempt >= maxRetries) throw error
+      }
+
+      if (response?.ok) {
+        try {
+          return {
+            ok: true,
+            value: await response.json(),
+          }
+        } catch (error) {
+          if (signal.aborted) throw error
+          return {
+            ok: false,
+            error: new SchemaError("API response is not valid JSON", [], { cause: error }),
+          }
+        }
+      }
+
+      if (response && (!RETRYABLE_STATUSES.has(response.status) || attempt >= maxRetries)) {
+        return {
+          ok: false,
+          error: fromHttpStatus(
+            `API request failed with status ${response.status}: ${response.statusText}`,
+            response.status,
+            parseRetryAfter(response.headers.get("Retry-After")),
+          ),
+        }
+      }
+
+      await sleep(getRetryDelay(attempt, baseRetryDelayMs, response), signal)
+    }
+  }
+
+  /**
+   * Starts a shared request, cancelled once all its subscribers have aborted
+   *
+   * A cancelled request leaves `inFlight` at once, so a caller arriving before it settles starts a new request
+   * instead of joining the cancelled one.
+   */
+  const startSharedRequest = (url: string) => {
+    const controller = new AbortController()
+    let subscribers = 0
+
+    const subscribe = (signal?: AbortSignal): void => {
+      subscribers += 1
+      signal?.addEventListener(
+        "abort",
+        () => {
+          subscribers -= 1
+          if (subscribers === 0) {
+            if (inFlight.get(url) === request) inFlight.delete(url)
+            controller.abort(signal.reason)
+          }
+        },
+        { once: true },
+      )
+    }
+
+    const request = {
+      promise: fetchWithRetry(url, controller.signal)
+        .catch(
+          (error: unknown): Result<unknown, AppError> => ({
+            ok: false,
+            error: toAppError(error, "Unknown error occurred while fetching"),
+          }),
+        )
+        .finally(() => {
+          // A newer request may have replaced this one after it was cancelled
+          if (inFlight.get(url) === request) inFlight.delete(url)
+        }),
+      subscribe,
+    }
+
+    return request
+  }
+
+  return {
+    async fetchJson(url, requestOptions = {}) {
+      const { signal } = requestOptions
+
+      if (signal?.aborted) {
+        return {
+          ok: false,
+          error: toAppError(createAbortError(signal), "Request was cancelled"),
+        }
+      }
+
+      const request = inFlight.get(url) ?? startSharedRequest(url)
+      inFlight.set(url, request)
+      request.subscribe(signal)
+
+      if (!signal) return request.promise
+
+      // Settle as soon as this caller aborts, even if other callers keep the shared request alive
+      return Promise.race([
+        request.promise,
+        new Promise<Result<unknown, AppError>>((resolve) =>
+          signal.addEventListener(
+            "abort",
+            () => resolve({ ok: false, error: toAppError(createAbortError(signal), "Request was cancelled") }),
+            {
+              once: true,
+            },
+          ),
+        ),
+      ])
+    },
+  }
+}
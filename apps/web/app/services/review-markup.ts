@@ -0,0 +1,102 @@
+/**
+ * Piece of review text with its formatting
+ *
+ * `start` is the position of the piece in the review text, which identifies it among its siblings.
+ */
+export type ReviewNode =
+  | { readonly type: "text"; readonly start: number; readonly text: string }
+  | { readonly type: "bold" | "italic" | "spoiler"; readonly start: number; readonly children: readonly ReviewNode[] }
+
+/**
+ * Paragraph of review text
+ */
+export interface ReviewParagraph {
+  readonly start: number
+  readonly nodes: readonly ReviewNode[]
+}
+
+/**
+ * Markers wrapping formatted text, longest first so `**` is not read as two `*`
+ */
+const MARKERS = [
+  { marker: "||", type: "spoiler" },
+  { marker: "**", type: "bold" },
+  { marker: "*", type: "italic" },
+] as const
+
+/**
+ * Parses a paragraph of review text into formatted nodes
+ *
+ * Markers without a closing marker are kept as text, and formatting can nest (e.g. bold text in a spoiler).
+ */
+const parseInline = (text: string, offset: number): ReviewNode[] => {
+  const nodes: ReviewNode[] = []
+  let plain = ""
+  let plainStart = 0
+  let index = 0
+
+  while (index < text.length) {
+    const match = MARKERS.find(({ marker }) => text.startsWith(marker, index))
+    const end = match ? text.indexOf(match.marker, index + match.marker.length) : -1
+
+    if (!match || end <= index + match.marker.length) {
+      if (!plain) plainStart = index
+      plain += text[index]
+      index++
+      continue
+    }
+
+    if (plain) nodes.push({ type: "text", start: offset + plainStart, text: plain })
+    plain = ""
+    const contentStart = index + match.marker.length
+    nodes.push({
+      type: match.type,
+      start: offset + index,
+      children: parseInline(text.slice(contentStart, end), offset + contentStart),
+    })
+    index = end + match.marker.length
+  }
+
+  if (plain) nodes.push({ type: "text", start: offset + plainStart, text: plain })
+
+  return nodes
+}
+
+/**
+ * Parses review text into paragraphs of formatted nodes
+ *
+ * Reviews use a light markup: blank lines separate paragraphs, `**bold**`, `*italic*` and `||spoiler||`.
+ *
+ * @example
+ * ```typescript
+ * parseReviewMarkup("A **great** read.\n\n||The butler did it.||")
+ * // [
+ * //   { start: 0, nodes: [{ type: "text", start: 0, text: "A " }, { type: "bold", start: 2, children: [...] }, ...] },
+ * //   { start: 19, nodes: [{ type: "spoiler", start: 19, children: [...] }] },
+ * // ]
+ * ```
+ */
+export const parseReviewMarkup = (text: string): ReviewParagraph[] => {
+  return [...text.matchAll(/\S(?:[\s\S]*?\S)?(?=\s*\n\s*\n|\s*$)/g)].map((match) => ({
+    start: match.index,
+    nodes: parseInline(match[0], match.index),
+  }))
+}
+
+/**
+ * Wraps the selected part of some text with a marker, e.g. to hide it as a spoiler
+ *
+ * @returns The new text and the selection to restore, around the wrapped text
+ */
+export const wrapSelection = (
+  text: string,
+  selectionStart: number,
+  selectionEnd: number,
+  marker: string,
+): { readonly text: string; readonly selectionStart: number; readonly selectionEnd: number } => {
+  return {
+    text: `${text.slice(0, selectionStart)}${marker}${text.slice(selectionStart, selectionEnd)}${marker}${text.slice(selectionEnd)}`,
+    selectionStart: selectionStart + marker.length,
+    selectionEnd: selectionEnd + marker.length,
+  }
+}
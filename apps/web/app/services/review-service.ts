@@ -0,0 +1,229 @@
+import type { AppError } from "@my-library-app/errors"
+import type { Result } from "@my-library-app/result"
+
+import { SchemaError, type SchemaIssue, toAppError } from "@my-library-app/errors"
+
+import type { ShelfBook } from "./library-service"
+
+import { authService } from "./auth-service"
+import { toLibraryError } from "./library-service"
+
+/**
+ * Lowest and highest ratings, given in half stars
+ */
+export const RATING_RANGE = {
+  MIN: 1,
+  MAX: 5,
+  STEP: 0.5,
+} as const
+
+/**
+ * Longest review, in characters
+ */
+export const REVIEW_MAX_LENGTH = 10000
+
+/**
+ * Private rating and review of a book by the current user
+ */
+export interface BookReview {
+  readonly id: string
+  /**
+   * Book the review is about, an Open Library work ID for Open Library books
+   */
+  readonly bookId: string
+  /**
+   * Rating from 1 to 5 stars in half stars, or undefined when only reviewed
+   */
+  readonly rating?: number
+  /**
+   * Review text with light markup (**bold**, *italic* and ||spoiler||), or undefined when only rated
+   */
+  readonly review?: string
+  readonly createdAt: string
+  readonly updatedAt: string
+}
+
+/**
+ * Options for saving the rating and review of a book
+ */
+export interface SaveBookReviewOptions {
+  readonly bookId: string
+  readonly rating?: number
+  readonly review?: string
+}
+
+/**
+ * Row of the `book_reviews` table
+ */
+interface BookReviewRow {
+  readonly id: string
+  readonly book_id: string
+  // PostgREST returns numeric columns as numbers, or as strings when they could lose precision
+  readonly rating: number | string | null
+  readonly review: string | null
+  readonly created_at: string
+  readonly updated_at: string
+}
+
+const REVIEW_COLUMNS = "id, book_id, rating, review, created_at, updated_at"
+
+/**
+ * Transforms a `book_reviews` row to BookReview format
+ */
+const transformBookReviewRow = (row: BookReviewRow): BookReview => {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    rating: row.rating === null ? undefined : Number(row.rating),
+    review: row.review ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * Checks the rating and review of a book, mirroring the table constraints so mistakes are reported per field
+ */
+const validateReview = (rating: number | undefined, review: string | undefined): SchemaIssue[] => {
+  const issues: SchemaIssue[] = []
+
+  if (
+    rating !== undefined &&
+    (rating < RATING_RANGE.MIN || rating > RATING_RANGE.MAX || !Number.isInteger(rating / RATING_RANGE.STEP))
+  ) {
+    issues.push({ path: ["rating"], message: "Rating must be from 1 to 5 stars in half stars" })
+  }
+  if (review !== undefined && review.length > REVIEW_MAX_LENGTH) {
+    issues.push({ path: ["review"], message: `Review must not be longer than ${REVIEW_MAX_LENGTH} characters` })
+  }
+  if (rating === undefined && review === undefined) {
+    issues.push({ path: ["rating"], message: "Rate or review the book" })
+  }
+
+  return issues
+}
+
+/**
+ * Sorts shelf books by the current user's rating, highest first
+ *
+ * Unrated books come last, and books with the same rating keep their order (e.g., most recently added first).
+ */
+export const sortByRating = (
+  books: readonly ShelfBook[],
+  reviewsByBook: ReadonlyMap<string, BookReview>,
+): ShelfBook[] => {
+  const getRating = (book: ShelfBook): number => reviewsByBook.get(book.bookId)?.rating ?? 0
+  return [...books].sort((a, b) => getRating(b) - getRating(a))
+}
+
+/**
+ * Review service for managing the current user's private ratings and reviews in Supabase
+ */
+export const reviewService = {
+  /**
+   * Gets all the current user's ratings and reviews
+   *
+   * A library holds few enough reviews to fetch at once, so shelves can show and sort by rating without a query per
+   * book.
+   */
+  async getReviews(): Promise<Result<BookReview[], AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase.from("book_reviews").select(REVIEW_COLUMNS)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to get reviews: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: (data as BookReviewRow[]).map(transformBookReviewRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while getting reviews"),
+      }
+    }
+  },
+
+  /**
+   * Saves the rating and review of a book, replacing any previous ones
+   *
+   * Blank reviews are saved as no review.
+   */
+  async saveReview(options: SaveBookReviewOptions): Promise<Result<BookReview, AppError>> {
+    try {
+      const review = options.review?.trim() || undefined
+      const issues = validateReview(options.rating, review)
+      if (issues.length > 0) {
+        return {
+          ok: false,
+          error: new SchemaError(issues[0]?.message ?? "Invalid review", issues),
+        }
+      }
+
+      const supabase = authService.getSupabaseClientInstance()
+      const { data, error, status } = await supabase
+        .from("book_reviews")
+        .upsert(
+          {
+            book_id: options.bookId,
+            rating: options.rating ?? null,
+            review: review ?? null,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "user_id,book_id" },
+        )
+        .select(REVIEW_COLUMNS)
+        .single()
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to save review: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: transformBookReviewRow(data as BookReviewRow),
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while saving review"),
+      }
+    }
+  },
+
+  /**
+   * Deletes the rating and review of a book
+   */
+  async deleteReview(bookId: string): Promise<Result<void, AppError>> {
+    try {
+      const supabase = authService.getSupabaseClientInstance()
+      const { error, status } = await supabase.from("book_reviews").delete().eq("book_id", bookId)
+
+      if (error) {
+        return {
+          ok: false,
+          error: toLibraryError(`Failed to delete review: ${error.message}`, status),
+        }
+      }
+
+      return {
+        ok: true,
+        value: undefined,
+      }
+    } catch (error) {
+      return {
+        ok: false,
+        error: toAppError(error, "Unknown error occurred while deleting review"),
+      }
+    }
+  },
+}
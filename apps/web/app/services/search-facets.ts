@@ -0,0 +1,82 @@
+import type { SearchBookLanguage, SearchBookYearRange } from "@my-library-app/schemas"
+
+/**
+ * Number of results sharing a facet value
+ */
+export interface FacetCount<TValue extends string = string> {
+  readonly value: TValue
+  readonly count: number
+}
+
+/**
+ * Number of results first published in a range of years
+ */
+export interface YearRangeCount extends SearchBookYearRange {
+  readonly count: number
+}
+
+/**
+ * Facets whose values are selected with checkboxes
+ */
+export type ValueFacet = "subjects" | "authors" | "publishers" | "languages"
+
+/**
+ * Facet counts of a search, each counting every matching result rather than a page
+ *
+ * Values of a facet are counted without that facet's own selection, since they are alternatives to it.
+ */
+export interface SearchFacets {
+  readonly subjects: readonly FacetCount[]
+  readonly authors: readonly FacetCount[]
+  readonly publishers: readonly FacetCount[]
+  readonly languages: readonly FacetCount<SearchBookLanguage>[]
+  /**
+   * First publish year histogram, in ascending year order
+   */
+  readonly firstPublishYears: readonly YearRangeCount[]
+}
+
+/**
+ * Facet values narrowing a search
+ *
+ * Values of the same facet are alternatives (`OR`), while different facets must all match (`AND`).
+ */
+export interface SearchFacetFilters {
+  readonly subjects?: readonly string[]
+  readonly authors?: readonly string[]
+  readonly publishers?: readonly string[]
+  readonly languages?: readonly SearchBookLanguage[]
+  readonly firstPublishYear?: SearchBookYearRange
+}
+
+/**
+ * Sorts facet counts with the most frequent first (ties in alphabetical order), dropping values without results
+ */
+export const toFacetCounts = <TValue extends string>(counts: readonly FacetCount<TValue>[]): FacetCount<TValue>[] => {
+  return counts.filter(({ count }) => count > 0).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+/**
+ * Splits a span of years into at most `count` consecutive ranges of equal length (the last one may be shorter)
+ *
+ * @example
+ * ```typescript
+ * splitYearRange({ start: 1990, end: 2024 }, 4) // 1990–1998, 1999–2007, 2008–2016, 2017–2024
+ * ```
+ */
+export const splitYearRange = (range: SearchBookYearRange, count: number): SearchBookYearRange[] => {
+  const length = Math.ceil((range.end - range.start + 1) / count)
+
+  return Array.from({ length: Math.ceil((range.end - range.start + 1) / length) }, (_, index) => ({
+    start: range.start + index * length,
+    end: Math.min(range.end, range.start + (index + 1) * length - 1),
+  }))
+}
+
+/**
+ * Checks whether any facet value is selected
+ */
+export const hasFacetFilters = (filters: SearchFacetFilters): boolean => {
+  const { subjects = [], authors = [], publishers = [], languages = [], firstPublishYear } = filters
+  return subjects.length + authors.length + publishers.length + languages.length > 0 || firstPublishYear !== undefined
+}
@@ -0,0 +1,188 @@
+/// <reference lib="webworker" />
+
+/**
+ * Service worker making the app installable and usable offline
+ *
+ * - The app shell (index page, its hashed assets and static files) is precached on install
+ * - Navigations are served from the network, falling back to the cached shell offline
+ * - Hashed build assets are served cache-first, as their content never changes
+ * - Cover images from covers.openlibrary.org are served stale-while-revalidate
+ * - The user's shelves are served from the network, falling back to the last response offline
+ *
+ * Bump CACHE_VERSION to drop every cache of the previous version on activation.
+ */
+
+const CACHE_VERSION = "v1"
+const SHELL_CACHE = `shell-${CACHE_VERSION}`
+const COVERS_CACHE = `covers-${CACHE_VERSION}`
+const LIBRARY_CACHE = `library-${CACHE_VERSION}`
+
+const SHELL_URLS = [
+  "/",
+  "/manifest.webmanifest",
+  "/favicon.ico",
+  "/placeholder.png",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+]
+
+/**
+ * Maximum number of cover images kept; the oldest are removed first
+ */
+const MAX_COVERS = 300
+
+/**
+ * Supabase REST tables holding the user's saved books
+ */
+const LIBRARY_PATHS = ["/rest/v1/shelves", "/rest/v1/shelf_books"]
+
+// `self` is typed as a generic worker scope, which does not overlap enough to be asserted directly
+const worker = /** @type {ServiceWorkerGlobalScope} */ (/** @type {unknown} */ (self))
+
+/**
+ * Gets the same-origin asset URLs referenced by the index page (scripts, styles, preloads)
+ *
+ * @param {string} html
+ * @returns {string[]}
+ */
+const getShellAssetUrls = (html) => {
+  const urls = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1])
+  return [...new Set(urls)]
+}
+
+/**
+ * Precaches the app shell, including the assets the index page references
+ */
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE)
+  await cache.addAll(SHELL_URLS)
+
+  const index = await cache.match("/")
+  if (index) {
+    await cache.addAll(getShellAssetUrls(await index.clone().text()))
+  }
+}
+
+/**
+ * Removes the oldest entries of a cache above the given size
+ *
+ * @param {string} cacheName
+ * @param {number} maxEntries
+ */
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName)
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(keys.length - maxEntries, 0)).map((key) => cache.delete(key)))
+}
+
+/**
+ * Serves the network response, falling back to the cached one (or the fallback URL) when offline
+ *
+ * @param {Request} request
+ * @param {string} cacheName
+ * @param {string} [fallbackUrl]
+ * @returns {Promise<Response>}
+ */
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName)
+
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      await cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = (await cache.match(request)) ?? (fallbackUrl ? await caches.match(fallbackUrl) : undefined)
+    if (cached) return cached
+    throw error
+  }
+}
+
+/**
+ * Serves the cached response, fetching and caching it on a miss
+ *
+ * @param {Request} request
+ * @param {string} cacheName
+ * @returns {Promise<Response>}
+ */
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+/**
+ * Serves the cached response straight away while refreshing it in the background
+ *
+ * @param {FetchEvent} event
+ * @param {string} cacheName
+ * @param {number} maxEntries
+ * @returns {Promise<Response>}
+ */
+const staleWhileRevalidate = async (event, cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(event.request)
+
+  const refresh = fetch(event.request).then(async (response) => {
+    // Images requested without CORS come back opaque (status 0), which is still a usable image
+    if (response.ok || response.type === "opaque") {
+      await cache.put(event.request, response.clone())
+      await trimCache(cacheName, maxEntries)
+    }
+    return response
+  })
+
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined))
+    return cached
+  }
+
+  return refresh
+}
+
+worker.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => worker.skipWaiting()))
+})
+
+worker.addEventListener("activate", (event) => {
+  const currentCaches = [SHELL_CACHE, COVERS_CACHE, LIBRARY_CACHE]
+
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => !currentCaches.includes(key)).map((key) => caches.delete(key))))
+      .then(() => worker.clients.claim()),
+  )
+})
+
+worker.addEventListener("message", (event) => {
+  // Saved books belong to the signed-in user, so they are dropped on sign-out
+  if (event.data?.type === "CLEAR_LIBRARY_CACHE") {
+    event.waitUntil(caches.delete(LIBRARY_CACHE))
+  }
+})
+
+worker.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+
+  const url = new URL(request.url)
+
+  if (request.mode === "navigate") {
+    // Every route is rendered by the single-page app shell
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"))
+  } else if (url.origin === worker.location.origin && url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  } else if (url.hostname === "covers.openlibrary.org") {
+    event.respondWith(staleWhileRevalidate(event, COVERS_CACHE, MAX_COVERS))
+  } else if (LIBRARY_PATHS.some((path) => url.pathname.startsWith(path))) {
+    event.respondWith(networkFirst(request, LIBRARY_CACHE))
+  }
+})
@@ -0,0 +1,12 @@
+import type { AppError } from "@my-library-app/errors"
+
+import "@tanstack/react-query"
+
+declare module "@tanstack/react-query" {
+  /**
+   * Query and mutation functions throw the error of a failed service Result
+   */
+  interface Register {
+    defaultError: AppError
+  }
+}
@@ -4,6 +4,9 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY: string
+  readonly VITE_GOOGLE_BOOKS_API_KEY?: string
+  readonly VITE_BOOK_PROVIDERS?: string
+  readonly VITE_OPEN_LIBRARY_CONTACT?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,132 @@
+/**
+ * Kinds of application errors, used as the discriminant of {@link AppError}
+ */
+export const APP_ERROR_KINDS = {
+  NETWORK: "network",
+  HTTP: "http",
+  SCHEMA: "schema",
+  AUTH: "auth",
+  RATE_LIMIT: "rate_limit",
+  UNEXPECTED: "unexpected",
+} as const;
+
+export type AppErrorKind = (typeof APP_ERROR_KINDS)[keyof typeof APP_ERROR_KINDS];
+
+/**
+ * Options shared by every application error
+ */
+export interface AppErrorOptions {
+  /**
+   * Underlying error, kept for debugging
+   */
+  readonly cause?: unknown;
+}
+
+/**
+ * The request never got a response: the user is offline, the server is unreachable, or the request was aborted
+ */
+export class NetworkError extends Error {
+  readonly kind = APP_ERROR_KINDS.NETWORK;
+  /**
+   * Whether the request was cancelled (e.g., the user navigated away) rather than failed
+   */
+  readonly aborted: boolean;
+
+  constructor(message: string, options: AppErrorOptions & { readonly aborted?: boolean } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "NetworkError";
+    this.aborted = options.aborted ?? false;
+  }
+}
+
+/**
+ * The server answered with an unsuccessful status that has no more specific kind
+ */
+export class HttpError extends Error {
+  readonly kind = APP_ERROR_KINDS.HTTP;
+  readonly status: number;
+
+  constructor(message: string, status: number, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+/**
+ * Issue found while validating data, structurally compatible with Zod issues
+ */
+export interface SchemaIssue {
+  readonly path: readonly PropertyKey[];
+  readonly message: string;
+}
+
+/**
+ * Data did not have the expected shape: an API response failed validation, or a request was invalid
+ */
+export class SchemaError extends Error {
+  readonly kind = APP_ERROR_KINDS.SCHEMA;
+  readonly issues: readonly SchemaIssue[];
+
+  constructor(message: string, issues: readonly SchemaIssue[] = [], options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * The user is not signed in, their session expired, or they are not allowed to access the resource
+ */
+export class AuthError extends Error {
+  readonly kind = APP_ERROR_KINDS.AUTH;
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "AuthError";
+  }
+}
+
+/**
+ * The server is throttling requests
+ */
+export class RateLimitError extends Error {
+  readonly kind = APP_ERROR_KINDS.RATE_LIMIT;
+  /**
+   * Seconds to wait before retrying, when the server said so
+   */
+  readonly retryAfter: number | undefined;
+
+  constructor(message: string, retryAfter?: number, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Anything else, such as a bug or a browser API failing (e.g., IndexedDB in private browsing)
+ */
+export class UnexpectedError extends Error {
+  readonly kind = APP_ERROR_KINDS.UNEXPECTED;
+
+  constructor(message: string, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "UnexpectedError";
+  }
+}
+
+/**
+ * Error returned by the app services, discriminated by `kind`
+ *
+ * @example
+ * ```typescript
+ * switch (error.kind) {
+ *   case "rate_limit":
+ *     return `Try again in ${error.retryAfter ?? 30} seconds`;
+ *   case "http":
+ *     return `Server responded with ${error.status}`;
+ * }
+ * ```
+ */
+export type AppError = NetworkError | HttpError | SchemaError | AuthError | RateLimitError | UnexpectedError;
@@ -0,0 +1,93 @@
+import { type AppError, AuthError, HttpError, NetworkError, RateLimitError, SchemaError, UnexpectedError } from "./app-errors";
+
+/**
+ * Checks whether a value is one of the application errors
+ */
+export const isAppError = (error: unknown): error is AppError => {
+  return (
+    error instanceof NetworkError ||
+    error instanceof HttpError ||
+    error instanceof SchemaError ||
+    error instanceof AuthError ||
+    error instanceof RateLimitError ||
+    error instanceof UnexpectedError
+  );
+};
+
+/**
+ * Normalises a thrown value to an application error
+ *
+ * Application errors are returned as is, aborts and timeouts become network errors, as does the `TypeError` that
+ * `fetch` rejects with when the network fails; anything else is unexpected.
+ *
+ * @param error - Thrown value
+ * @param message - Message used when the value is not an application error
+ */
+export const toAppError = (error: unknown, message: string): AppError => {
+  if (isAppError(error)) return error;
+
+  if (error instanceof Error && error.name === "AbortError") {
+    return new NetworkError("Request was cancelled", { cause: error, aborted: true });
+  }
+
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new NetworkError("Request timed out", { cause: error });
+  }
+
+  if (error instanceof TypeError) {
+    return new NetworkError(`${message}: network request failed`, { cause: error });
+  }
+
+  return new UnexpectedError(error instanceof Error ? `${message}: ${error.message}` : message, { cause: error });
+};
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date
+ *
+ * @returns Seconds to wait, or undefined when the header is missing or invalid
+ */
+export const parseRetryAfter = (header: string | null | undefined): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(seconds, 0);
+
+  const date = new Date(header).getTime();
+  return Number.isNaN(date) ? undefined : Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+};
+
+/**
+ * Creates the application error matching an unsuccessful HTTP status
+ *
+ * - 401 and 403 are authentication errors
+ * - 429 is a rate limit error
+ * - Any other status is an HTTP error
+ *
+ * @param message - Error message
+ * @param status - HTTP status of the response
+ * @param retryAfter - Seconds to wait before retrying, for rate limit errors
+ */
+export const fromHttpStatus = (message: string, status: number, retryAfter?: number): AppError => {
+  if (status === 401 || status === 403) return new AuthError(message);
+  if (status === 429) return new RateLimitError(message, retryAfter);
+  return new HttpError(message, status);
+};
+
+/**
+ * Checks whether retrying the failed request may succeed
+ *
+ * Network failures (but not cancellations), rate limiting, timeouts and server errors are transient; the other
+ * errors would fail the same way again.
+ */
+export const isRetryableError = (error: AppError): boolean => {
+  switch (error.kind) {
+    case "network":
+      return !error.aborted;
+    case "rate_limit":
+      return true;
+    case "http":
+      return error.status === 408 || error.status >= 500;
+    default:
+      return false;
+  }
+};
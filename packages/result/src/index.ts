@@ -0,0 +1,2 @@
+export * from "./react-query";
+export * from "./result";
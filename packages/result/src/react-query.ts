@@ -0,0 +1,26 @@
+import { type Result, unwrapOrThrow } from "./result";
+
+/**
+ * Adapts a function returning a result into a React Query query or mutation function
+ *
+ * React Query expects functions that resolve with data and throw on failure, so the adapted function resolves with
+ * the value of a successful result and throws the error of a failed one, which React Query then exposes as `error`.
+ * Its argument (the query function context with the abort `signal`, or the mutation variables) is passed through.
+ *
+ * @example
+ * ```typescript
+ * useQuery({
+ *   queryKey: ["shelves"],
+ *   queryFn: toQueryFn(() => libraryService.getShelves()),
+ * });
+ *
+ * useMutation({
+ *   mutationFn: toQueryFn(libraryService.createShelf),
+ * });
+ * ```
+ */
+export const toQueryFn = <TArgument, TData, TError extends Error>(
+  load: (argument: TArgument) => Promise<Result<TData, TError>>,
+): ((argument: TArgument) => Promise<TData>) => {
+  return async (argument) => unwrapOrThrow(await load(argument));
+};
@@ -0,0 +1,119 @@
+/**
+ * Outcome of an operation that can fail, returned instead of throwing
+ *
+ * @example
+ * ```typescript
+ * const result = await bookService.getWork(workId);
+ *
+ * if (!result.ok) return console.error(result.error.message);
+ * console.log(result.value.title);
+ * ```
+ */
+export type Result<TData, TError extends Error> = { readonly ok: true; readonly value: TData } | { readonly ok: false; readonly error: TError };
+
+/**
+ * Creates a successful result
+ */
+export const ok = <TData>(value: TData): { readonly ok: true; readonly value: TData } => {
+  return { ok: true, value };
+};
+
+/**
+ * Creates a failed result
+ */
+export const err = <TError extends Error>(error: TError): { readonly ok: false; readonly error: TError } => {
+  return { ok: false, error };
+};
+
+/**
+ * Transforms the value of a successful result, leaving failures untouched
+ *
+ * @example
+ * ```typescript
+ * const titles = map(searchResult, (response) => response.items.map((item) => item.volumeInfo.title));
+ * ```
+ */
+export const map = <TData, TNext, TError extends Error>(result: Result<TData, TError>, transform: (value: TData) => TNext): Result<TNext, TError> => {
+  return result.ok ? ok(transform(result.value)) : result;
+};
+
+/**
+ * Transforms the error of a failed result, leaving successes untouched
+ *
+ * @example
+ * ```typescript
+ * const result = mapError(cacheResult, (error) => new UnexpectedError(`Cache failed: ${error.message}`));
+ * ```
+ */
+export const mapError = <TData, TError extends Error, TNextError extends Error>(
+  result: Result<TData, TError>,
+  transform: (error: TError) => TNextError,
+): Result<TData, TNextError> => {
+  return result.ok ? result : err(transform(result.error));
+};
+
+/**
+ * Chains an operation that can fail on the value of a successful result
+ *
+ * @example
+ * ```typescript
+ * const work = andThen(jsonResult, (json) => parseWork(json));
+ * ```
+ */
+export const andThen = <TData, TNext, TError extends Error, TNextError extends Error = TError>(
+  result: Result<TData, TError>,
+  next: (value: TData) => Result<TNext, TNextError>,
+): Result<TNext, TError | TNextError> => {
+  return result.ok ? next(result.value) : result;
+};
+
+/**
+ * Combines results into a result of all their values, failing with the first error
+ *
+ * @example
+ * ```typescript
+ * const authors = all(await Promise.all(authorIds.map((id) => bookService.getAuthor(id))));
+ * ```
+ */
+export const all = <TData, TError extends Error>(results: readonly Result<TData, TError>[]): Result<TData[], TError> => {
+  const values: TData[] = [];
+
+  for (const result of results) {
+    if (!result.ok) return result;
+    values.push(result.value);
+  }
+
+  return ok(values);
+};
+
+/**
+ * Settles a promise into a result, converting its rejection into an error
+ *
+ * @param promise - Promise to settle
+ * @param toError - Converts the rejection reason into an error
+ *
+ * @example
+ * ```typescript
+ * const response = await fromPromise(fetch(url), (error) => toAppError(error, "Failed to fetch"));
+ * ```
+ */
+export const fromPromise = async <TData, TError extends Error>(
+  promise: PromiseLike<TData>,
+  toError: (error: unknown) => TError,
+): Promise<Result<TData, TError>> => {
+  try {
+    return ok(await promise);
+  } catch (error) {
+    return err(toError(error));
+  }
+};
+
+/**
+ * Returns the value of a successful result, or throws its error
+ *
+ * Meant for the boundary with code expecting exceptions, such as React Query or route loaders.
+ */
+export const unwrapOrThrow = <TData, TError extends Error>(result: Result<TData, TError>): TData => {
+  if (!result.ok) throw result.error;
+  return result.value;
+};
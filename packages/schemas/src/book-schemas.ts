@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { getIsbnType, ISBN_TYPES, isbnSchema } from "./isbn";
+
 export const searchBookSortOptionsSchema = z.enum({
   editions: "editions",
   old: "old",
@@ -11,10 +13,12 @@ export const searchBookSortOptionsSchema = z.enum({
   scans: "scans",
 });
 
-export const searchBookYearRangeOptionsSchema = z.object({
-  start: z.number().int().nonnegative(),
-  end: z.number().int().nonnegative(),
-});
+export const searchBookYearRangeOptionsSchema = z
+  .object({
+    start: z.number().int().nonnegative(),
+    end: z.number().int().nonnegative(),
+  })
+  .refine((range) => range.start <= range.end, { message: "Start year must not be after end year", path: ["end"] });
 
 export const searchBookLanguageOptionsSchema = z.enum({
   ENGLISH: "eng",
@@ -23,7 +27,7 @@ export const searchBookLanguageOptionsSchema = z.enum({
   MULTIPLE_LANGUAGES: "mul",
 });
 
-export const iso6391LanguageOptionsSchema = z.enum(["en", "es", "cat"]);
+export const iso6391LanguageOptionsSchema = z.enum(["en", "es", "ca"]);
 
 export const searchBookFieldsSchema = z.enum([
   "key",
@@ -33,6 +37,7 @@ export const searchBookFieldsSchema = z.enum([
   "alternative_title",
   "alternative_subtitle",
   "cover_i",
+  "cover_edition_key",
   "ebook_access",
   "edition_count",
   "edition_key",
@@ -79,6 +84,10 @@ export const searchBookFieldsSchema = z.enum([
 ]);
 
 export const searchBookQueryOptionsSchema = z.object({
+  /**
+   * Free text matched against all fields
+   */
+  q: z.string().min(1).optional(),
   title: z.string().min(1).optional(),
   author: z.string().min(1).optional(),
   subject: z.string().min(1).optional(),
@@ -89,6 +98,7 @@ export const searchBookQueryOptionsSchema = z.object({
    */
   language: searchBookLanguageOptionsSchema.optional(),
   publisher: z.string().min(1).optional(),
+  isbn: z.string().min(1).optional(),
   publish_year: z.number().int().nonnegative().optional(),
   first_publish_year: searchBookYearRangeOptionsSchema.optional(),
   title_suggest: z.string().min(1).optional(),
@@ -129,15 +139,158 @@ export const searchBookResponseSchema = z.object({
   ),
 });
 
+/**
+ * Open Library text fields can be a plain string or a typed text object
+ */
+export const openLibraryTextSchema = z.string().or(
+  z.object({
+    type: z.string(),
+    value: z.string(),
+  }),
+);
+
+export const openLibraryKeyReferenceSchema = z.object({
+  key: z.string(),
+});
+
+export const workResponseSchema = z.object({
+  key: z.string(),
+  title: z.string(),
+  subtitle: z.string().optional(),
+  description: openLibraryTextSchema.optional(),
+  subjects: z.array(z.string()).optional(),
+  covers: z.array(z.number().int()).optional(),
+  first_publish_date: z.string().optional(),
+  authors: z
+    .array(
+      z.object({
+        author: openLibraryKeyReferenceSchema,
+      }),
+    )
+    .optional(),
+});
+
+export const editionSchema = z.object({
+  key: z.string(),
+  title: z.string(),
+  subtitle: z.string().optional(),
+  publishers: z.array(z.string()).optional(),
+  publish_date: z.string().optional(),
+  number_of_pages: z.number().int().nonnegative().optional(),
+  physical_format: z.string().optional(),
+  isbn_10: z.array(z.string()).optional(),
+  isbn_13: z.array(z.string()).optional(),
+  covers: z.array(z.number().int()).optional(),
+  languages: z.array(openLibraryKeyReferenceSchema).optional(),
+});
+
+export const editionsResponseSchema = z.object({
+  size: z.number().int().nonnegative(),
+  entries: z.array(editionSchema),
+});
+
+export const authorWorksResponseSchema = z.object({
+  size: z.number().int().nonnegative(),
+  entries: z.array(workResponseSchema),
+});
+
+/**
+ * Entry of the related subjects or top authors of a subject, with its number of works
+ */
+export const subjectCountSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  count: z.number().int().nonnegative(),
+});
+
+export const subjectWorkSchema = z.object({
+  key: z.string(),
+  title: z.string(),
+  cover_id: z.number().int().nullish(),
+  first_publish_year: z.number().int().nullish(),
+  subject: z.array(z.string()).optional(),
+  authors: z
+    .array(
+      z.object({
+        key: z.string(),
+        name: z.string(),
+      }),
+    )
+    .optional(),
+});
+
+export const subjectResponseSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  work_count: z.number().int().nonnegative(),
+  works: z.array(subjectWorkSchema),
+  // Only included with `details=true`
+  subjects: z.array(subjectCountSchema).optional(),
+  authors: z.array(subjectCountSchema).optional(),
+  publishing_history: z.array(z.tuple([z.number().int(), z.number().int().nonnegative()])).optional(),
+});
+
+export const authorResponseSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  personal_name: z.string().optional(),
+  alternate_names: z.array(z.string()).optional(),
+  bio: openLibraryTextSchema.optional(),
+  birth_date: z.string().optional(),
+  death_date: z.string().optional(),
+  photos: z.array(z.number().int()).optional(),
+});
+
+export const googleBooksVolumeSchema = z.object({
+  id: z.string(),
+  selfLink: z.url().optional(),
+  volumeInfo: z.object({
+    title: z.string().optional(),
+    subtitle: z.string().optional(),
+    authors: z.array(z.string()).optional(),
+    publisher: z.string().optional(),
+    publishedDate: z.string().optional(),
+    categories: z.array(z.string()).optional(),
+    language: z.string().optional(),
+    pageCount: z.number().int().nonnegative().optional(),
+    infoLink: z.url().optional(),
+    imageLinks: z
+      .object({
+        thumbnail: z.url().optional(),
+        smallThumbnail: z.url().optional(),
+      })
+      .optional(),
+    industryIdentifiers: z
+      .array(
+        z.object({
+          type: z.string(),
+          identifier: z.string(),
+        }),
+      )
+      .optional(),
+  }),
+});
+
+export const googleBooksVolumesResponseSchema = z.object({
+  kind: z.string(),
+  totalItems: z.number().int().nonnegative(),
+  items: z.array(googleBooksVolumeSchema).optional(),
+});
+
 export const imageLinksSchema = z.object({
   thumbnail: z.url().optional(),
   smallThumbnail: z.url().optional(),
 });
 
-export const industryIdentifierSchema = z.object({
-  type: z.enum(["ISBN_10", "ISBN_13"]),
-  identifier: z.string(),
-});
+export const industryIdentifierSchema = z
+  .object({
+    type: z.enum([ISBN_TYPES.ISBN_10, ISBN_TYPES.ISBN_13]),
+    identifier: isbnSchema,
+  })
+  .refine((identifier) => getIsbnType(identifier.identifier) === identifier.type, {
+    message: "Identifier does not match its ISBN type",
+    path: ["identifier"],
+  });
 
 export const bookSchema = z.object({
   id: z.string(),
@@ -159,7 +312,19 @@ export const bookSchema = z.object({
 export type SearchBookField = z.infer<typeof searchBookFieldsSchema>;
 export type SearchSort = z.infer<typeof searchBookSortOptionsSchema>;
 export type SearchBookLanguage = z.infer<typeof searchBookLanguageOptionsSchema>;
+export type Iso6391Language = z.infer<typeof iso6391LanguageOptionsSchema>;
 export type SearchBookYearRange = z.infer<typeof searchBookYearRangeOptionsSchema>;
+export type SearchBookQuery = z.infer<typeof searchBookQueryOptionsSchema>;
 export type SearchBookRequest = z.infer<typeof searchBookRequestSchema>;
 export type SearchBookResponse = z.infer<typeof searchBookResponseSchema>;
+export type OpenLibraryText = z.infer<typeof openLibraryTextSchema>;
+export type WorkResponse = z.infer<typeof workResponseSchema>;
+export type EditionResponse = z.infer<typeof editionSchema>;
+export type EditionsResponse = z.infer<typeof editionsResponseSchema>;
+export type AuthorResponse = z.infer<typeof authorResponseSchema>;
+export type AuthorWorksResponse = z.infer<typeof authorWorksResponseSchema>;
+export type SubjectWorkResponse = z.infer<typeof subjectWorkSchema>;
+export type SubjectResponse = z.infer<typeof subjectResponseSchema>;
+export type GoogleBooksVolume = z.infer<typeof googleBooksVolumeSchema>;
+export type GoogleBooksVolumesResponse = z.infer<typeof googleBooksVolumesResponseSchema>;
 export type Book = z.infer<typeof bookSchema>;
@@ -1 +1,2 @@
 export * from "./book-schemas";
+export * from "./isbn";
@@ -0,0 +1,257 @@
+import { z } from "zod";
+
+/**
+ * Kinds of ISBN, named like the industry identifier types of the book schemas
+ */
+export const ISBN_TYPES = {
+  ISBN_10: "ISBN_10",
+  ISBN_13: "ISBN_13",
+} as const;
+
+export type IsbnType = (typeof ISBN_TYPES)[keyof typeof ISBN_TYPES];
+
+/**
+ * Lengths of the registration group following each ISBN-13 prefix, by the leading digits of the group
+ *
+ * Groups are assigned in ranges of fixed length, e.g. `0`–`5` for major language areas, `80`–`94` for mid-sized
+ * countries and `99900`–`99999` for the smallest ones.
+ */
+const REGISTRATION_GROUP_RANGES: Readonly<Record<string, readonly (readonly [string, string])[]>> = {
+  "978": [
+    ["0", "5"],
+    ["600", "649"],
+    ["65", "65"],
+    ["7", "7"],
+    ["80", "94"],
+    ["950", "989"],
+    ["9900", "9989"],
+    ["99900", "99999"],
+  ],
+  "979": [
+    ["10", "12"],
+    ["8", "8"],
+  ],
+};
+
+/**
+ * Registrant ranges of the largest registration groups, by prefix and group
+ *
+ * Each range gives the length of the registrant element for registrants starting with digits in that range. Groups
+ * missing here are hyphenated by registration group only.
+ */
+const REGISTRANT_RANGES: Readonly<Record<string, readonly (readonly [string, string])[]>> = {
+  // English
+  "978-0": [
+    ["00", "19"],
+    ["200", "699"],
+    ["7000", "8499"],
+    ["85000", "89999"],
+    ["900000", "949999"],
+    ["9500000", "9999999"],
+  ],
+  "978-1": [
+    ["00", "09"],
+    ["100", "399"],
+    ["4000", "5499"],
+    ["55000", "86979"],
+    ["869800", "998999"],
+    ["9990000", "9999999"],
+  ],
+  // French
+  "978-2": [
+    ["00", "19"],
+    ["200", "349"],
+    ["35000", "39999"],
+    ["400", "699"],
+    ["7000", "8399"],
+    ["84000", "89999"],
+    ["900000", "949999"],
+    ["9500000", "9999999"],
+  ],
+  // German
+  "978-3": [
+    ["00", "02"],
+    ["030", "033"],
+    ["0340", "0369"],
+    ["03700", "03999"],
+    ["04", "19"],
+    ["200", "699"],
+    ["7000", "8499"],
+    ["85000", "89999"],
+    ["900000", "949999"],
+    ["9500000", "9539999"],
+    ["95400", "96999"],
+    ["9700000", "9849999"],
+    ["98500", "99999"],
+  ],
+  // Spain
+  "978-84": [
+    ["00", "13"],
+    ["140", "149"],
+    ["15000", "19999"],
+    ["200", "699"],
+    ["7000", "8499"],
+    ["85000", "89999"],
+    ["9000", "9199"],
+    ["920000", "923999"],
+    ["92400", "92999"],
+    ["930000", "949999"],
+    ["95000", "96999"],
+    ["9700", "9999"],
+  ],
+};
+
+/**
+ * Finds the length of the element at the start of some digits, from ranges of same-length elements
+ */
+const findElementLength = (digits: string, ranges: readonly (readonly [string, string])[]): number | undefined => {
+  const range = ranges.find(([start, end]) => {
+    const element = digits.slice(0, start.length);
+    return element >= start && element <= end;
+  });
+
+  return range?.[0].length;
+};
+
+/**
+ * Computes the ISBN-10 check character of its first nine digits
+ */
+const getIsbn10CheckDigit = (digits: string): string => {
+  const sum = [...digits.slice(0, 9)].reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? "X" : String(check);
+};
+
+/**
+ * Computes the ISBN-13 check digit of its first twelve digits
+ */
+const getIsbn13CheckDigit = (digits: string): string => {
+  const sum = [...digits.slice(0, 12)].reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * Normalises an ISBN by removing hyphens and spaces and upper-casing the ISBN-10 `X` check character
+ *
+ * @example
+ * ```typescript
+ * normalizeIsbn("978-0-13-468599-1"); // "9780134685991"
+ * normalizeIsbn("0 8044 2957 x"); // "080442957X"
+ * ```
+ */
+export const normalizeIsbn = (isbn: string): string => {
+  return isbn.replace(/[\s-]/g, "").toUpperCase();
+};
+
+/**
+ * Checks whether a value is an ISBN-10 with a valid check character, ignoring hyphens and spaces
+ */
+export const isValidIsbn10 = (isbn: string): boolean => {
+  const normalized = normalizeIsbn(isbn);
+  return /^\d{9}[\dX]$/.test(normalized) && getIsbn10CheckDigit(normalized) === normalized[9];
+};
+
+/**
+ * Checks whether a value is an ISBN-13 (978 or 979 prefix) with a valid check digit, ignoring hyphens and spaces
+ */
+export const isValidIsbn13 = (isbn: string): boolean => {
+  const normalized = normalizeIsbn(isbn);
+  return /^97[89]\d{10}$/.test(normalized) && getIsbn13CheckDigit(normalized) === normalized[12];
+};
+
+/**
+ * Checks whether a value is a valid ISBN-10 or ISBN-13
+ */
+export const isValidIsbn = (isbn: string): boolean => {
+  return isValidIsbn10(isbn) || isValidIsbn13(isbn);
+};
+
+/**
+ * Gets the kind of a valid ISBN
+ *
+ * @returns The ISBN type, or undefined when the value is not a valid ISBN
+ */
+export const getIsbnType = (isbn: string): IsbnType | undefined => {
+  if (isValidIsbn13(isbn)) return ISBN_TYPES.ISBN_13;
+  if (isValidIsbn10(isbn)) return ISBN_TYPES.ISBN_10;
+  return undefined;
+};
+
+/**
+ * Converts an ISBN-10 to its ISBN-13 form, with the 978 prefix
+ *
+ * @returns The normalised ISBN-13, or undefined when the value is not a valid ISBN-10
+ */
+export const isbn10To13 = (isbn: string): string | undefined => {
+  if (!isValidIsbn10(isbn)) return undefined;
+
+  const digits = `978${normalizeIsbn(isbn).slice(0, 9)}`;
+  return `${digits}${getIsbn13CheckDigit(digits)}`;
+};
+
+/**
+ * Converts an ISBN-13 to its ISBN-10 form
+ *
+ * Only ISBN-13s with the 978 prefix have one, as ISBN-10s predate the 979 prefix.
+ *
+ * @returns The normalised ISBN-10, or undefined when the value is not a valid ISBN-13 with the 978 prefix
+ */
+export const isbn13To10 = (isbn: string): string | undefined => {
+  const normalized = normalizeIsbn(isbn);
+  if (!isValidIsbn13(normalized) || !normalized.startsWith("978")) return undefined;
+
+  const digits = normalized.slice(3, 12);
+  return `${digits}${getIsbn10CheckDigit(digits)}`;
+};
+
+/**
+ * Converts a valid ISBN-10 or ISBN-13 to a normalised ISBN-13
+ *
+ * @returns The normalised ISBN-13, or undefined when the value is not a valid ISBN
+ */
+export const toIsbn13 = (isbn: string): string | undefined => {
+  return isValidIsbn13(isbn) ? normalizeIsbn(isbn) : isbn10To13(isbn);
+};
+
+/**
+ * Hyphenates an ISBN into its prefix (ISBN-13 only), registration group, registrant, publication and check elements
+ *
+ * The registrant and publication elements are only told apart for the largest registration groups (English, French,
+ * German and Spanish); other ISBNs are hyphenated after their registration group and before their check digit.
+ *
+ * @returns The hyphenated ISBN in the same form (10 or 13 digits) as the input, or undefined when it is not valid
+ *
+ * @example
+ * ```typescript
+ * hyphenateIsbn("9780134685991"); // "978-0-13-468599-1"
+ * hyphenateIsbn("8420412147"); // "84-204-1214-7"
+ * ```
+ */
+export const hyphenateIsbn = (isbn: string): string | undefined => {
+  const normalized = normalizeIsbn(isbn);
+  const isbn13 = toIsbn13(normalized);
+  if (!isbn13) return undefined;
+
+  const prefix = isbn13.slice(0, 3);
+  const body = isbn13.slice(3, 12);
+  const groupLength = findElementLength(body, REGISTRATION_GROUP_RANGES[prefix] ?? []);
+  if (!groupLength) return undefined;
+
+  const group = body.slice(0, groupLength);
+  const rest = body.slice(groupLength);
+  const registrantLength = findElementLength(rest, REGISTRANT_RANGES[`${prefix}-${group}`] ?? []);
+  const elements = registrantLength ? [group, rest.slice(0, registrantLength), rest.slice(registrantLength)] : [group, rest];
+
+  return normalized.length === 10 ? [...elements, normalized[9]].join("-") : [prefix, ...elements, isbn13[12]].join("-");
+};
+
+/**
+ * Schema for an ISBN-10 or ISBN-13 with a valid check digit, accepting hyphens and spaces
+ *
+ * @example
+ * ```typescript
+ * isbnSchema.safeParse("978-0-13-468599-1").success; // true
+ * isbnSchema.safeParse("9780134685990").success; // false, wrong check digit
+ * ```
+ */
+export const isbnSchema = z.string().refine(isValidIsbn, { message: "Invalid ISBN: expected 10 or 13 digits with a valid check digit" });
@@ -0,0 +1,71 @@
+-- Personal library shelves.
+-- Every user owns the three status shelves ("want_to_read", "reading", "read") plus any number of custom shelves.
+
+create table public.shelves (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 100),
+  kind text not null check (kind in ('want_to_read', 'reading', 'read', 'custom')),
+  created_at timestamptz not null default now()
+);
+
+-- A user has at most one shelf of each status kind
+create unique index shelves_user_status_kind_key on public.shelves (user_id, kind) where kind <> 'custom';
+
+-- Books on a shelf keep a snapshot of the Volume so shelves render without re-querying Open Library
+create table public.shelf_books (
+  id uuid primary key default gen_random_uuid(),
+  shelf_id uuid not null references public.shelves (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  book_id text not null,
+  volume jsonb not null,
+  added_at timestamptz not null default now(),
+  unique (shelf_id, book_id)
+);
+
+create index shelf_books_user_book_idx on public.shelf_books (user_id, book_id);
+
+alter table public.shelves enable row level security;
+alter table public.shelf_books enable row level security;
+
+create policy "Users manage their own shelves" on public.shelves
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Foreign key checks bypass row level security, so the shelf of a new row is checked to belong to the user too
+create policy "Users manage their own shelf books" on public.shelf_books
+  for all using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.shelves s where s.id = shelf_id and s.user_id = auth.uid())
+  );
+
+-- Adds a book to a shelf, moving it off the user's other status shelves when the shelf is a status shelf.
+-- Runs as the caller so row level security applies, and in one transaction so a failed move leaves the book in place.
+create function public.add_book_to_shelf(p_shelf_id uuid, p_book_id text, p_volume jsonb)
+  returns public.shelf_books
+  language plpgsql
+  security invoker
+  as $$
+declare
+  target_kind text;
+  added public.shelf_books;
+begin
+  select kind into target_kind from public.shelves where id = p_shelf_id;
+  if target_kind is null then
+    raise exception 'Shelf % not found', p_shelf_id using errcode = 'P0002';
+  end if;
+
+  if target_kind <> 'custom' then
+    delete from public.shelf_books sb
+      using public.shelves s
+      where s.id = sb.shelf_id and sb.book_id = p_book_id and s.kind <> 'custom' and s.id <> p_shelf_id;
+  end if;
+
+  insert into public.shelf_books (shelf_id, book_id, volume)
+    values (p_shelf_id, p_book_id, p_volume)
+    on conflict (shelf_id, book_id) do update set volume = excluded.volume
+    returning * into added;
+
+  return added;
+end;
+$$;
@@ -0,0 +1,23 @@
+-- Reading sessions logged against a book.
+-- Each session records the pages read on a day; the book's progress and pace are computed from all its sessions.
+
+create table public.reading_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  book_id text not null,
+  start_page integer not null check (start_page >= 0),
+  end_page integer not null,
+  -- Page count of the edition being read, which the book's metadata often lacks or gets wrong
+  page_count integer not null check (page_count > 0),
+  minutes integer not null check (minutes between 1 and 1440),
+  read_on date not null default current_date,
+  created_at timestamptz not null default now(),
+  check (end_page >= start_page and end_page <= page_count)
+);
+
+create index reading_sessions_user_book_idx on public.reading_sessions (user_id, book_id, read_on);
+
+alter table public.reading_sessions enable row level security;
+
+create policy "Users manage their own reading sessions" on public.reading_sessions
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
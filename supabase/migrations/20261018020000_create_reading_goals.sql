@@ -0,0 +1,39 @@
+-- Yearly reading goals and themed challenges.
+-- Both are evaluated in the app against the books on the "read" shelf finished during their year. A book is
+-- finished on the later of its imported finished_at and the last reading session reaching its final page, or on
+-- its added_at when it has neither. Page goals count the pages read in sessions during the year, plus the page
+-- count of books finished without any session.
+
+create table public.reading_goals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  year integer not null check (year between 1900 and 2999),
+  unit text not null check (unit in ('books', 'pages')),
+  target integer not null check (target > 0),
+  created_at timestamptz not null default now(),
+  -- A user has at most one goal a year
+  unique (user_id, year)
+);
+
+-- A challenge counts the finished books matching one criterion, e.g. books in Spanish or published before 1950
+create table public.reading_challenges (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  year integer not null check (year between 1900 and 2999),
+  criterion text not null check (criterion in ('language', 'published_before', 'published_after', 'subject')),
+  -- Language code, year or subject, depending on the criterion
+  value text not null check (char_length(value) between 1 and 100),
+  target integer not null check (target > 0),
+  created_at timestamptz not null default now()
+);
+
+create index reading_challenges_user_year_idx on public.reading_challenges (user_id, year);
+
+alter table public.reading_goals enable row level security;
+alter table public.reading_challenges enable row level security;
+
+create policy "Users manage their own reading goals" on public.reading_goals
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their own reading challenges" on public.reading_challenges
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- Private ratings and reviews of books.
+-- Books are keyed like shelf books: Open Library volumes by their work ID (e.g. "OL45804W").
+
+create table public.book_reviews (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  book_id text not null,
+  -- From 1 to 5 stars in half stars
+  rating numeric(2, 1) check (rating between 1 and 5 and mod(rating * 2, 1) = 0),
+  -- Light markup: **bold**, *italic* and ||spoiler||
+  review text check (char_length(review) between 1 and 10000),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (rating is not null or review is not null),
+  -- A user reviews a book once
+  unique (user_id, book_id)
+);
+
+alter table public.book_reviews enable row level security;
+
+create policy "Users manage their own book reviews" on public.book_reviews
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,32 @@
+-- Quotes and notes taken while reading a book.
+-- Notes keep a snapshot of the book title so search results render without re-querying Open Library.
+
+create table public.book_notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  book_id text not null,
+  book_title text not null,
+  kind text not null check (kind in ('quote', 'note')),
+  content text not null check (char_length(content) between 1 and 10000),
+  page integer check (page > 0),
+  tags text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- array_to_string is only stable in general, but immutable for text arrays, which generated columns require.
+-- The "simple" configuration does not stem words, as notes are taken in any language.
+create function public.book_note_search_vector(content text, tags text[]) returns tsvector
+  language sql immutable
+  as $$ select to_tsvector('simple', content || ' ' || array_to_string(tags, ' ')) $$;
+
+alter table public.book_notes
+  add column search tsvector generated always as (public.book_note_search_vector(content, tags)) stored;
+
+create index book_notes_user_book_idx on public.book_notes (user_id, book_id);
+create index book_notes_search_idx on public.book_notes using gin (search);
+
+alter table public.book_notes enable row level security;
+
+create policy "Users manage their own book notes" on public.book_notes
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
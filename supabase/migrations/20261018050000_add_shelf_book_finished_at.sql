@@ -0,0 +1,45 @@
+-- Reading history brought over from other services.
+-- Imports keep the dates books were shelved and finished instead of the time of the import.
+
+alter table public.shelf_books add column finished_at timestamptz;
+
+drop function public.add_book_to_shelf(uuid, text, jsonb);
+
+-- Same as before, with optional dates for imported books. Re-adding a book keeps its dates unless new ones are given.
+create function public.add_book_to_shelf(
+  p_shelf_id uuid,
+  p_book_id text,
+  p_volume jsonb,
+  p_added_at timestamptz default null,
+  p_finished_at timestamptz default null
+)
+  returns public.shelf_books
+  language plpgsql
+  security invoker
+  as $$
+declare
+  target_kind text;
+  added public.shelf_books;
+begin
+  select kind into target_kind from public.shelves where id = p_shelf_id;
+  if target_kind is null then
+    raise exception 'Shelf % not found', p_shelf_id using errcode = 'P0002';
+  end if;
+
+  if target_kind <> 'custom' then
+    delete from public.shelf_books sb
+      using public.shelves s
+      where s.id = sb.shelf_id and sb.book_id = p_book_id and s.kind <> 'custom' and s.id <> p_shelf_id;
+  end if;
+
+  insert into public.shelf_books (shelf_id, book_id, volume, added_at, finished_at)
+    values (p_shelf_id, p_book_id, p_volume, coalesce(p_added_at, now()), p_finished_at)
+    on conflict (shelf_id, book_id) do update set
+      volume = excluded.volume,
+      added_at = coalesce(p_added_at, shelf_books.added_at),
+      finished_at = coalesce(p_finished_at, shelf_books.finished_at)
+    returning * into added;
+
+  return added;
+end;
+$$;